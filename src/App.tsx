@@ -1,27 +1,43 @@
-import { useState } from "react";
+import { ReactNode, useMemo, useState } from "react";
 import Grid from '@mui/material/Grid'
 import Stack from '@mui/material/Stack'
 import Box from '@mui/material/Box'
-import { createTheme, ThemeProvider } from '@mui/material/styles'
-import { grey } from '@mui/material/colors'
+import { ThemeProvider } from '@mui/material/styles'
 import McuTimeline from './components/McuTimeline'
 import McuConnections from './components/McuConnections'
 import RevenueBarChart from './components/RevenueBarChart'
 import McuYearDotPlot from './components/McuYearDotPlot'
 import McuRatingsLineChart from './components/McuRatingsLineChart'
 import McuMoviesReviews from './components/McuMoviesReviews'
+import McuSentimentChart from './components/McuSentimentChart'
+import McuTermTrends from './components/McuTermTrends'
 import RatingsProfitScatterPlot from "./components/RatingsProfitScatterPlot";
 import McuConnectionsPhase46 from './components/McuConnectionsPhase46'
-import McuExplorationDashboard from './components/McuExplorationDashboard'
+import McuExplorationDashboard, { DashboardFocus } from './components/McuExplorationDashboard'
 import McuProfitsLineChart from "./components/McuProfitLineChart";
 import McuNarration from "./components/McuNarration";
+import DataQualityReport from './components/DataQualityReport'
+import NarrationCheckPanel from './components/NarrationCheckPanel'
+import ChartSettingsBar from './components/ChartSettingsBar'
+import ExportableChart from './components/ExportableChart'
+import FigureCaption from './components/FigureCaption'
+import PrintSummaryTable from './components/PrintSummaryTable'
+import { scrollBehavior } from './components/chartA11y'
+import { McuDataProvider } from './stores/McuData'
+import { ChartSettingsProvider, useChartSettings } from './stores/ChartSettings'
+import { CrossFilterProvider } from './stores/CrossFilter'
+import { ScrollytellingProvider } from './stores/Scrollytelling'
+import { PrintModeProvider, usePrintMode } from './stores/PrintMode'
+import { createAppTheme } from './theme'
 
-const theme = createTheme({
-  palette: {
-    primary: { main: grey[700] },
-    secondary: { main: grey[700] }
-  }
-})
+const DASHBOARD_ID = 'mcu-exploration-dashboard'
+
+// The chart palette is a chart setting, so the theme is built below the settings provider
+function AppThemeProvider({ children }: { children: ReactNode }) {
+  const { settings } = useChartSettings()
+  const theme = useMemo(() => createAppTheme(settings.palette), [settings.palette])
+  return <ThemeProvider theme={theme}>{children}</ThemeProvider>
+}
 
 function Layout() {
   const TIMELINE_HEIGHT = 500
@@ -29,8 +45,9 @@ function Layout() {
   const CONNECTION_PHASE46_HEIGHT = 560
   const BAR_CHART_HEIGHT = 400
   const DOT_PLOT_HEIGHT = 380
+  const TERM_TRENDS_HEIGHT = 420
   const LINE_CHART_HEIGHT = 300
-  const SCATTER_PLOT_HEIGHT = 400
+  const SCATTER_PLOT_HEIGHT = 460
   const SECTION_TITLE_PL = 17
   const h2TitleSx = {
     pl: SECTION_TITLE_PL,
@@ -47,10 +64,19 @@ function Layout() {
     mb: 0
   }
 
-  const [selectedReviewsYear, setReviewsYear] = useState<Number | null>(null);  
+  const [dashboardFocus, setDashboardFocus] = useState<DashboardFocus | null>(null);
+  const { printing } = usePrintMode()
+  const { money, profit } = useChartSettings()
+
+  // Opens a title in the exploration dashboard and scrolls down to it
+  const openInDashboard = (titleId: string) => {
+    setDashboardFocus(prev => ({ titleId, requestId: (prev?.requestId ?? 0) + 1 }))
+    document.getElementById(DASHBOARD_ID)?.scrollIntoView({ behavior: scrollBehavior(), block: 'start' })
+  }
   return (
     <Box
       id="main-container"
+      className={printing ? 'print-mode' : undefined}
       sx={{
         minHeight: '100vh',
         width: '100%',
@@ -79,14 +105,23 @@ function Layout() {
           >
             Rise and Decline of the MCU
           </Box>
+          {printing && (
+            <Box sx={{ mt: 1, fontSize: 12, color: 'rgba(0,0,0,0.65)' }}>
+              Printed {new Date().toLocaleDateString()}. Amounts in {money.mode === 'real' ? `${money.baseYear} dollars` : 'nominal dollars'};{' '}
+              {profit.name.toLowerCase()} = {profit.formula}.
+            </Box>
+          )}
         </Box>
 
-        <McuNarration section = {"intro above timeline"}/>
+        <ChartSettingsBar />
+
+        <McuNarration section = {"intro-above-timeline"}/>
 
         {/* ===== TIMELINE PANEL (TOP) ===== */}
         <Grid
           container
           spacing={1}
+          className="print-panel"
           sx={{
             height: TIMELINE_HEIGHT,
             flex: '0 0 auto'
@@ -104,6 +139,7 @@ function Layout() {
             >
               {/* This is the actual card */}
               <Box
+                className="print-figure"
                 sx={{
                   width: '95vw',       
                   maxWidth: 2000,       
@@ -118,30 +154,37 @@ function Layout() {
               >
                 {/* This ensures McuTimeline gets the full area */}
                 <Box sx={{ width: '100%', height: '100%', minWidth: 0 }}>
-                  <McuTimeline />
+                  <ExportableChart name="mcu-timeline" sources={['releases']}>
+                    <McuTimeline />
+                  </ExportableChart>
                 </Box>
               </Box>
             </Box>
           </Grid>
         </Grid>
 
+        <FigureCaption sources={['releases']}>
+          MCU movies and shows by release date, colored by phase, with callouts for key titles.
+        </FigureCaption>
+
         <McuNarration section = {"introduction"}/>
 
-        <Box component="h2" sx={h2TitleSx}>
+        <Box component="h2" className="print-break" sx={h2TitleSx}>
           Rise of MCU
         </Box>
 
-        <McuNarration section = {"RiseofMCUIntro"}/>
+        <McuNarration section = {"rise-intro"}/>
 
         <Box component="h3" sx={h3TitleSx}>
           1. Interconnected Storytelling
         </Box>
-        <McuNarration section = {"connections intro above chart"}/>
+        <McuNarration section = {"connections-above-chart"}/>
 
        {/* ===== CONNECTIONS PANEL ===== */}
         <Grid
           container
           spacing={1}
+          className="print-panel"
           sx={{
             height: CONNECTION_HEIGHT,
             flex: '0 0 auto'
@@ -157,6 +200,7 @@ function Layout() {
               }}
             >
               <Box
+                className="print-figure"
                 sx={{
                   width: '95vw',
                   maxWidth: 1800,
@@ -170,15 +214,20 @@ function Layout() {
                 }}
               >
                 <Box sx={{ width: '100%', height: '100%', minWidth: 0 }}>
-                  <McuConnections />
+                  <ExportableChart name="mcu-connections" sources={['connections']}>
+                    <McuConnections />
+                  </ExportableChart>
                 </Box>
               </Box>
             </Box>
           </Grid>
         </Grid>
+        <FigureCaption sources={['connections']}>
+          Story links between every MCU movie, Phases 1–6: direct sequels, crossovers and carryovers.
+        </FigureCaption>
         <McuNarration section = {"connections"}/>
 
-        <Box component="h3" sx={h3TitleSx}>
+        <Box component="h3" className="print-break" sx={h3TitleSx}>
           2. Global Appeal and Box Office Success
         </Box>
         <Box
@@ -189,6 +238,7 @@ function Layout() {
           }}
         >
           <Box
+            className="print-panel"
             sx={{
               width: '95vw',
               maxWidth: 1800,
@@ -197,23 +247,29 @@ function Layout() {
               alignItems: 'stretch'
             }}
           >
-            <Box
-              sx={{
-                flex: '0 0 45%',
-                minWidth: 0,
-                ml: 13,
-                height: BAR_CHART_HEIGHT,
-                p: 2,
-                border: '1px solid #e0e0e0',
-                borderRadius: 2,
-                bgcolor: '#fafafa',
-                display: 'flex',
-                justifyContent: 'center'
-              }}
-            >
-              <RevenueBarChart timePeriod = "early"/>
+            <Box className="print-panel" sx={{ flex: '0 0 45%', minWidth: 0, ml: 13 }}>
+              <Box
+                className="print-figure"
+                sx={{
+                  height: BAR_CHART_HEIGHT,
+                  p: 2,
+                  border: '1px solid #e0e0e0',
+                  borderRadius: 2,
+                  bgcolor: '#fafafa',
+                  display: 'flex',
+                  justifyContent: 'center'
+                }}
+              >
+                <ExportableChart name="box-office-early" title="Top 10 Worldwide Box Office, 2008–2019" sources={['box-office']}>
+                  <RevenueBarChart timePeriod = "early"/>
+                </ExportableChart>
+              </Box>
+              <FigureCaption sources={['box-office']}>
+                Revenue of the yearly top 10 worldwide box office, 2008–2019, split between MCU and other movies.
+              </FigureCaption>
             </Box>
             <Box
+              className="print-panel"
               sx={{
                 flex: 1,
                 minWidth: 0,
@@ -223,12 +279,12 @@ function Layout() {
                 pr: 14
               }}
             >
-              <McuNarration section = {"box office"} />
+              <McuNarration section = {"box-office"} />
             </Box>
           </Box>
         </Box>
         
-        <Box component="h2" sx={h2TitleSx}>
+        <Box component="h2" className="print-break" sx={h2TitleSx}>
           Decline of MCU
         </Box>
         <Box
@@ -239,6 +295,7 @@ function Layout() {
           }}
         >
           <Box
+            className="print-panel"
             sx={{
               width: '95vw',
               maxWidth: 1800,
@@ -247,23 +304,29 @@ function Layout() {
               alignItems: 'stretch'
             }}
           >
-            <Box
-              sx={{
-                flex: '0 0 51%',
-                minWidth: 0,
-                ml: 13,
-                height: BAR_CHART_HEIGHT,
-                p: 2,
-                border: '1px solid #e0e0e0',
-                borderRadius: 2,
-                bgcolor: '#fafafa',
-                display: 'flex',
-                justifyContent: 'center'
-              }}
-            >
-              <RevenueBarChart timePeriod = "recent"/>
+            <Box className="print-panel" sx={{ flex: '0 0 51%', minWidth: 0, ml: 13 }}>
+              <Box
+                className="print-figure"
+                sx={{
+                  height: BAR_CHART_HEIGHT,
+                  p: 2,
+                  border: '1px solid #e0e0e0',
+                  borderRadius: 2,
+                  bgcolor: '#fafafa',
+                  display: 'flex',
+                  justifyContent: 'center'
+                }}
+              >
+                <ExportableChart name="box-office-recent" title="Top 10 Worldwide Box Office, 2008–2025" sources={['box-office']}>
+                  <RevenueBarChart timePeriod = "recent"/>
+                </ExportableChart>
+              </Box>
+              <FigureCaption sources={['box-office']}>
+                Revenue of the yearly top 10 worldwide box office, 2008–2025, split between MCU and other movies.
+              </FigureCaption>
             </Box>
             <Box
+              className="print-panel"
               sx={{
                 flex: 1,
                 minWidth: 0,
@@ -273,12 +336,12 @@ function Layout() {
                 pl: 4
               }}
             >
-              <McuNarration section = {"box office fall"}/>
+              <McuNarration section = {"box-office-fall"}/>
             </Box>
           </Box>
         </Box>
 
-        <Box component="h3" sx={h3TitleSx}>
+        <Box component="h3" className="print-break" sx={h3TitleSx}>
           1. Oversaturation of MCU Movies and Shows
         </Box>
         <Box
@@ -289,6 +352,7 @@ function Layout() {
           }}
         >
           <Box
+            className="print-panel"
             sx={{
               width: '95vw',
               maxWidth: 1800,
@@ -298,6 +362,7 @@ function Layout() {
             }}
           >
             <Box
+              className="print-panel"
               sx={{
                 flex: 1,
                 minWidth: 0,
@@ -309,41 +374,71 @@ function Layout() {
             >
               <McuNarration section = {"oversaturation"} />
             </Box>
-            <Box
-              sx={{
-                flex: '0 0 46%',
-                minWidth: 0,
-                ml: 2,
-                height: DOT_PLOT_HEIGHT,
-                p: 2,
-                border: '1px solid #e0e0e0',
-                borderRadius: 2,
-                bgcolor: '#fafafa',
-                display: 'flex'
-              }}
-            >
-              <Box sx={{ width: '100%', height: '100%', minWidth: 0 }}>
-                <McuYearDotPlot />
+            <Box className="print-panel" sx={{ flex: '0 0 46%', minWidth: 0, ml: 2 }}>
+              <Box
+                className="print-figure"
+                sx={{
+                  height: DOT_PLOT_HEIGHT,
+                  p: 2,
+                  border: '1px solid #e0e0e0',
+                  borderRadius: 2,
+                  bgcolor: '#fafafa',
+                  display: 'flex'
+                }}
+              >
+                <Box sx={{ width: '100%', height: '100%', minWidth: 0 }}>
+                  <ExportableChart name="mcu-releases-per-year" sources={['releases']}>
+                    <McuYearDotPlot />
+                  </ExportableChart>
+                </Box>
               </Box>
+              <FigureCaption sources={['releases']}>
+                MCU movies and shows released each year.
+              </FigureCaption>
             </Box>
           </Box>
         </Box>
+        <Box sx={{ width: '100%', display: 'flex', justifyContent: 'center' }}>
+          <Box
+            className="print-figure"
+            sx={{
+              width: '95vw',
+              maxWidth: 1800,
+              height: TERM_TRENDS_HEIGHT,
+              ml: 13,
+              mr: 13,
+              p: 2,
+              border: '1px solid #e0e0e0',
+              borderRadius: 2,
+              bgcolor: '#fafafa'
+            }}
+          >
+            <ExportableChart name="mcu-review-terms" title="Term Trends in Reviews" sources={['reviews']}>
+              <McuTermTrends />
+            </ExportableChart>
+          </Box>
+        </Box>
+        <FigureCaption sources={['reviews']}>
+          Reviews mentioning each term per 1,000 reviews, and the words that most separate the rise and decline eras.
+        </FigureCaption>
 
-        <Box component="h3" sx={h3TitleSx}>
+        <Box component="h3" className="print-break" sx={h3TitleSx}>
           2. "Lack" of Interconnection in Recent Phases
         </Box>
-        <McuNarration section = {"connection barriers above chart"}/>
+        <McuNarration section = {"barriers-above-chart"}/>
         <Grid
           container
           spacing={1}
+          className="print-panel"
           sx={{
             height: `${CONNECTION_PHASE46_HEIGHT}px`,
             minHeight: `${CONNECTION_PHASE46_HEIGHT}px`,
             flex: '0 0 auto'
           }}
         >
-          <Grid item xs={12} sx={{ height: `${CONNECTION_PHASE46_HEIGHT}px`, minHeight: `${CONNECTION_PHASE46_HEIGHT}px` }}>
+          <Grid item xs={12} className="print-panel" sx={{ height: `${CONNECTION_PHASE46_HEIGHT}px`, minHeight: `${CONNECTION_PHASE46_HEIGHT}px` }}>
             <Box
+              className="print-panel"
               sx={{
                 height: `${CONNECTION_PHASE46_HEIGHT}px`,
                 width: '100%',
@@ -352,6 +447,7 @@ function Layout() {
               }}
             >
               <Box
+                className="print-figure"
                 sx={{
                   width: '95vw',
                   maxWidth: 1800,
@@ -365,53 +461,98 @@ function Layout() {
                 }}
               >
                 <Box sx={{ width: '100%', height: '100%', minWidth: 0 }}>
-                  <McuConnectionsPhase46 />
+                  <ExportableChart name="mcu-connections-phase-4-6" sources={['connections']}>
+                    <McuConnectionsPhase46 />
+                  </ExportableChart>
                 </Box>
               </Box>
             </Box>
           </Grid>
         </Grid>
-        <McuNarration section = {"connection barriers"}/>
+        <FigureCaption sources={['connections']}>
+          Story links between the Phase 4–6 movies and shows.
+        </FigureCaption>
+        <McuNarration section = {"barriers"}/>
         
 
-        <Box component="h3" sx={h3TitleSx}>
+        <Box component="h3" className="print-break" sx={h3TitleSx}>
           3. Inconsistent Quality
         </Box>
-        <McuNarration section = {"inconsistency above charts"}/>
+        <McuNarration section = {"inconsistency-above-charts"}/>
         <Box sx={{ width: '100%', display: 'flex', justifyContent: 'center' }}>
-          <Box sx = {{width: "75%", height: LINE_CHART_HEIGHT * 2 + 10, flex: "0 0 auto", bgcolor: "#fafafa", border: "1px solid #e0e0e0", borderRadius: 2, p: 2}}>
-            <Grid container columnSpacing = {2} sx = {{height: "100%"}}>
-              <Grid size = {7} sx = {{display: "flex", flexDirection: "column", gap: 2}}>
+          <Box className = "print-panel" sx = {{width: "75%", minHeight: LINE_CHART_HEIGHT * 3 + 20, flex: "0 0 auto", bgcolor: "#fafafa", border: "1px solid #e0e0e0", borderRadius: 2, p: 2}}>
+            <Grid container columnSpacing = {2} className = "print-panel" sx = {{height: "100%"}}>
+              <Grid size = {7} className = "print-panel" sx = {{display: "flex", flexDirection: "column", gap: 2}}>
 
-                  <Box sx = {{width: "100%", height: LINE_CHART_HEIGHT, display: "flex", justifyContent: "center", bgcolor: "#ffffff", borderRadius: 1, boxShadow: "0 4px 12px rgba(0,0,0,0.08)"}}>
-                      <McuRatingsLineChart selectedReviewsYear = {selectedReviewsYear} setReviewsYear = {setReviewsYear}/>
+                  <Box className = "print-figure print-figure--short" sx = {{width: "100%", height: LINE_CHART_HEIGHT, display: "flex", justifyContent: "center", bgcolor: "#ffffff", borderRadius: 1, boxShadow: "0 4px 12px rgba(0,0,0,0.08)"}}>
+                      <ExportableChart name="mcu-average-ratings" title="Average IMDb Rating by Year" sources={['tmdb']}>
+                          <McuRatingsLineChart />
+                      </ExportableChart>
+                  </Box>
+                  <FigureCaption sources = {['tmdb']}>
+                      Highest, average and lowest IMDb rating of the MCU releases of each year.
+                  </FigureCaption>
+                  <Box className = "print-figure print-figure--short" sx = {{width: "100%", height: LINE_CHART_HEIGHT, display: "flex", justifyContent: "center", bgcolor: "#ffffff", borderRadius: 1, boxShadow: "0 4px 12px rgba(0,0,0,0.08)"}}>
+                      <ExportableChart name="mcu-review-sentiment" sources={['reviews']}>
+                          <McuSentimentChart />
+                      </ExportableChart>
                   </Box>
-                  <Box sx = {{width: "100%", height: LINE_CHART_HEIGHT, display: "flex", justifyContent: "center", bgcolor: "#ffffff", borderRadius: 1, boxShadow: "0 4px 12px rgba(0,0,0,0.08)"}}>
-                    <McuProfitsLineChart selectedReviewsYear = {selectedReviewsYear} setReviewsYear = {setReviewsYear}/>
+                  <FigureCaption sources = {['reviews']}>
+                      Mean tone of IMDb user reviews, from −1 (negative) to +1 (positive).
+                  </FigureCaption>
+                  <Box className = "print-figure print-figure--short" sx = {{width: "100%", height: LINE_CHART_HEIGHT, display: "flex", justifyContent: "center", bgcolor: "#ffffff", borderRadius: 1, boxShadow: "0 4px 12px rgba(0,0,0,0.08)"}}>
+                    <ExportableChart name="mcu-average-profits" title="Average Profit by Year" sources={['tmdb']}>
+                      <McuProfitsLineChart />
+                    </ExportableChart>
                   </Box>
+                  <FigureCaption sources = {['tmdb']}>
+                      Highest, average and lowest movie {profit.name.toLowerCase()} of each year.
+                  </FigureCaption>
               </Grid>
               
-              <Grid size = {5} sx = {{height: "100%"}}>
-                <Box sx = {{width: "100%", height: "100%", display: "flex", flexDirection: "column"}}>
-                  <McuMoviesReviews selectedReviewsYear = {selectedReviewsYear}/>
+              {/* The charts and their captions set the row's height; the reviews fill it and scroll */}
+              <Grid size = {5} className = "print-hidden" sx = {{position: "relative"}}>
+                <Box sx = {{position: "absolute", inset: 0, display: "flex", flexDirection: "column"}}>
+                  <McuMoviesReviews />
                 </Box>
               </Grid>
             </Grid>
           </Box>
         </Box>
         <McuNarration section = {"inconsistency"}/>
+        <Box sx={{ width: '100%', display: 'flex', justifyContent: 'center' }}>
+          <Box className = "print-figure" sx = {{width: "75%", height: SCATTER_PLOT_HEIGHT, flex: "0 0 auto", bgcolor: "#fafafa", border: "1px solid #e0e0e0", borderRadius: 2, p: 2}}>
+            <ExportableChart name="mcu-ratings-vs-profit" sources={['tmdb']}>
+              <RatingsProfitScatterPlot onSelectTitle = {openInDashboard}/>
+            </ExportableChart>
+          </Box>
+        </Box>
+        <FigureCaption sources = {['tmdb']}>
+          Each MCU movie by IMDb rating and {profit.name.toLowerCase()}, with a least-squares fit for the chosen era.
+        </FigureCaption>
 
-        <Box component="h2" sx={h2TitleSx}>
+        <Box component="h2" className="print-break" sx={h2TitleSx}>
           Conclusion
         </Box>
         <McuNarration section = {"conclusion"}/>
 
-        <Box component="h2" sx={{ mb: 0, textAlign: 'center' }}>
+        {/* On paper the interactive dashboard gives way to a table of its yearly numbers */}
+        {printing && (
+          <Box className="print-break">
+            <Box component="h2" sx={{ ...h2TitleSx, mt: 0, mb: 2 }}>
+              The MCU Year by Year
+            </Box>
+            <PrintSummaryTable />
+          </Box>
+        )}
+
+        <Box component="h2" className="print-hidden" sx={{ mb: 0, textAlign: 'center' }}>
           Explore the MCU Changes Yourself!
         </Box>
         <Grid
           container
           spacing={1}
+          className="print-hidden"
           sx={{
             height: 'calc(100vh - 16px)',
             flex: '0 0 auto'
@@ -419,6 +560,7 @@ function Layout() {
         >
           <Grid item xs={12} sx={{ height: '100%' }}>
             <Box
+              id={DASHBOARD_ID}
               sx={{
                 height: '100%',
                 width: '100%',
@@ -439,13 +581,15 @@ function Layout() {
                 }}
               >
                 <Box sx={{ width: '100%', height: '100%', minWidth: 0 }}>
-                  <McuExplorationDashboard />
+                  <McuExplorationDashboard focus={dashboardFocus} />
                 </Box>
               </Box>
             </Box>
           </Grid>
         </Grid>
 
+        {import.meta.env.DEV && !printing && <DataQualityReport />}
+        {import.meta.env.DEV && !printing && <NarrationCheckPanel />}
       </Stack>
     </Box>
   )
@@ -453,8 +597,18 @@ function Layout() {
 
 export default function App() {
   return (
-    <ThemeProvider theme={theme}>
-      <Layout />
-    </ThemeProvider>
+    <PrintModeProvider>
+      <McuDataProvider>
+        <ChartSettingsProvider>
+          <AppThemeProvider>
+            <CrossFilterProvider>
+              <ScrollytellingProvider>
+                <Layout />
+              </ScrollytellingProvider>
+            </CrossFilterProvider>
+          </AppThemeProvider>
+        </ChartSettingsProvider>
+      </McuDataProvider>
+    </PrintModeProvider>
   )
 }
@@ -0,0 +1,41 @@
+export type DataColumn<T> = {
+  label: string
+  value: (row: T) => string | number | null
+}
+
+type ChartDataTableProps<T> = {
+  /** Names the chart the table stands in for */
+  caption: string
+  columns: DataColumn<T>[]
+  rows: T[]
+}
+
+/**
+ * The numbers behind a chart as a plain table. It is visually hidden, so it
+ * only reaches screen readers, which can't read values off the SVG marks.
+ */
+export default function ChartDataTable<T>({ caption, columns, rows }: ChartDataTableProps<T>) {
+  return (
+    <table className="visually-hidden">
+      <caption>{caption}</caption>
+      <thead>
+        <tr>
+          {columns.map(column => (
+            <th key={column.label} scope="col">
+              {column.label}
+            </th>
+          ))}
+        </tr>
+      </thead>
+      <tbody>
+        {rows.map((row, i) => (
+          <tr key={i}>
+            {columns.map(column => (
+              <td key={column.label}>{column.value(row) ?? 'n/a'}</td>
+            ))}
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  )
+}
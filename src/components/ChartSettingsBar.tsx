@@ -0,0 +1,154 @@
+import React, { useState } from 'react'
+import { cpiYears, MoneyMode } from '../data/money'
+import { BREAK_EVEN_MULTIPLIERS, PROFIT_MODEL_IDS, PROFIT_MODEL_LABELS } from '../data/profit'
+import { PALETTE_IDS, PALETTE_LABELS, PaletteId } from '../data/palettes'
+import { useMcuData } from '../stores/McuData'
+import { SETTINGS_ACTIONS, useChartSettings } from '../stores/ChartSettings'
+import { usePrintMode } from '../stores/PrintMode'
+import CrossFilterChips from './CrossFilterChips'
+
+const MONEY_MODES: { mode: MoneyMode; label: string }[] = [
+  { mode: 'nominal', label: 'Nominal $' },
+  { mode: 'real', label: 'Real $' }
+]
+
+const btnStyle = (active: boolean): React.CSSProperties => ({
+  border: '1px solid rgba(0,0,0,0.18)',
+  background: active ? 'rgba(0,0,0,0.85)' : 'rgba(255,255,255,0.92)',
+  color: active ? 'white' : 'rgba(0,0,0,0.8)',
+  padding: '5px 10px',
+  borderRadius: 8,
+  fontSize: 12,
+  fontWeight: 700,
+  cursor: 'pointer',
+  userSelect: 'none'
+})
+
+const labelStyle: React.CSSProperties = {
+  fontSize: 12,
+  fontWeight: 800,
+  color: 'rgba(0,0,0,0.65)'
+}
+
+/**
+ * Page-wide controls for the financial charts and the chart colors. Sticks to the top of the
+ * scroll container so the active money mode and profit model are always visible,
+ * along with whatever is selected across the charts and a link to the current view.
+ */
+export default function ChartSettingsBar() {
+  const { cpi } = useMcuData()
+  const { settings, money, profit, dispatch } = useChartSettings()
+  const years = cpiYears(cpi)
+  const { print } = usePrintMode()
+  const [copied, setCopied] = useState(false)
+
+  // The URL hash already holds the current view, so sharing is copying the address
+  const copyLink = () => {
+    navigator.clipboard
+      ?.writeText(window.location.href)
+      .then(() => {
+        setCopied(true)
+        window.setTimeout(() => setCopied(false), 1500)
+      })
+      .catch(() => setCopied(false))
+  }
+
+  return (
+    <div
+      className="print-hidden"
+      style={{
+        position: 'sticky',
+        top: 0,
+        zIndex: 50,
+        alignSelf: 'center',
+        display: 'flex',
+        alignItems: 'center',
+        gap: 8,
+        padding: '6px 12px',
+        borderRadius: 12,
+        background: 'rgba(255,255,255,0.88)',
+        backdropFilter: 'blur(6px)',
+        boxShadow: '0 6px 16px rgba(0,0,0,0.10)'
+      }}
+    >
+      <span style={labelStyle}>Money</span>
+      {MONEY_MODES.map(({ mode, label }) => (
+        <button
+          key={mode}
+          type="button"
+          style={btnStyle(money.mode === mode)}
+          onClick={() => dispatch({ type: SETTINGS_ACTIONS.SET_MONEY_MODE, mode })}
+        >
+          {label}
+        </button>
+      ))}
+      <label style={{ ...labelStyle, fontWeight: 600, opacity: money.mode === 'real' ? 1 : 0.45 }}>
+        base year{' '}
+        <select
+          value={money.baseYear}
+          disabled={money.mode !== 'real' || years.length === 0}
+          onChange={event => dispatch({ type: SETTINGS_ACTIONS.SET_BASE_YEAR, year: Number(event.target.value) })}
+          style={{ fontSize: 12 }}
+        >
+          {years.map(year => (
+            <option key={year} value={year}>
+              {year}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <span style={{ ...labelStyle, marginLeft: 12 }}>Profit</span>
+      {PROFIT_MODEL_IDS.map(id => (
+        <button
+          key={id}
+          type="button"
+          style={btnStyle(profit.id === id)}
+          onClick={() => dispatch({ type: SETTINGS_ACTIONS.SET_PROFIT_MODEL, model: id })}
+        >
+          {PROFIT_MODEL_LABELS[id]}
+        </button>
+      ))}
+      {profit.id === 'break-even' && (
+        <label style={{ ...labelStyle, fontWeight: 600 }}>
+          at{' '}
+          <select
+            value={profit.breakEvenMultiplier}
+            onChange={event =>
+              dispatch({ type: SETTINGS_ACTIONS.SET_BREAK_EVEN_MULTIPLIER, multiplier: Number(event.target.value) })
+            }
+            style={{ fontSize: 12 }}
+          >
+            {BREAK_EVEN_MULTIPLIERS.map(multiplier => (
+              <option key={multiplier} value={multiplier}>
+                {multiplier}× budget
+              </option>
+            ))}
+          </select>
+        </label>
+      )}
+      <span style={{ fontSize: 11, color: 'rgba(0,0,0,0.55)' }}>= {profit.formula}</span>
+      <label style={{ ...labelStyle, marginLeft: 12 }}>
+        Colors{' '}
+        <select
+          value={settings.palette}
+          onChange={event => dispatch({ type: SETTINGS_ACTIONS.SET_PALETTE, palette: event.target.value as PaletteId })}
+          style={{ fontSize: 12, fontWeight: 600 }}
+        >
+          {PALETTE_IDS.map(id => (
+            <option key={id} value={id}>
+              {PALETTE_LABELS[id]}
+            </option>
+          ))}
+        </select>
+      </label>
+      <CrossFilterChips />
+      <button type="button" style={{ ...btnStyle(false), marginLeft: 12 }} onClick={copyLink}>
+        {copied ? 'Link copied' : 'Copy link'}
+      </button>
+      <button type="button" style={btnStyle(false)} onClick={print}>
+        Print / PDF
+      </button>
+    </div>
+  )
+}
@@ -0,0 +1,59 @@
+import React from 'react'
+import { useMcuData } from '../stores/McuData'
+import { useCrossFilter } from '../stores/CrossFilter'
+import { CROSS_FILTER_ACTIONS, CrossFilterAction } from '../stores/Reducer'
+import { useChartPalette } from '../theme'
+
+const chipStyle = (background: string): React.CSSProperties => ({
+  border: '1px solid rgba(0,0,0,0.18)',
+  background,
+  color: 'rgba(0,0,0,0.85)',
+  padding: '3px 8px',
+  borderRadius: 999,
+  fontSize: 11,
+  fontWeight: 700,
+  cursor: 'pointer',
+  whiteSpace: 'nowrap'
+})
+
+/** The active cross-filter selection as removable chips, plus a clear button */
+export default function CrossFilterChips() {
+  const { registry } = useMcuData()
+  const { selection, dispatch, active } = useCrossFilter()
+  const palette = useChartPalette()
+  if (!active) return null
+
+  const chips: { key: string; label: string; remove: CrossFilterAction }[] = [
+    ...selection.phases.map(phase => ({
+      key: `phase-${phase}`,
+      label: `Phase ${phase}`,
+      remove: { type: CROSS_FILTER_ACTIONS.TOGGLE_PHASE, phase } as const
+    })),
+    ...(selection.year === null
+      ? []
+      : [{ key: 'year', label: String(selection.year), remove: { type: CROSS_FILTER_ACTIONS.TOGGLE_YEAR, year: selection.year } as const }]),
+    ...selection.titleIds.map(titleId => ({
+      key: titleId,
+      label: registry.resolve(titleId)?.title ?? titleId,
+      remove: { type: CROSS_FILTER_ACTIONS.TOGGLE_TITLE, titleId } as const
+    }))
+  ]
+
+  return (
+    <div style={{ display: 'flex', alignItems: 'center', gap: 6, marginLeft: 12, flexWrap: 'wrap' }}>
+      <span style={{ fontSize: 12, fontWeight: 800, color: 'rgba(0,0,0,0.65)' }}>Selected</span>
+      {chips.map(chip => (
+        <button key={chip.key} type="button" style={chipStyle(palette.highlight)} title="Remove" onClick={() => dispatch(chip.remove)}>
+          {chip.label} ×
+        </button>
+      ))}
+      <button
+        type="button"
+        style={chipStyle('rgba(255,255,255,0.92)')}
+        onClick={() => dispatch({ type: CROSS_FILTER_ACTIONS.CLEAR })}
+      >
+        Clear
+      </button>
+    </div>
+  )
+}
@@ -0,0 +1,105 @@
+import { useEffect, useRef, useState } from 'react'
+import {
+  DASHBOARD_TABLE_LABELS,
+  dashboardCsv,
+  dashboardJson,
+  DashboardSnapshot,
+  DashboardTable
+} from '../data/dashboardExport'
+import { downloadBlob } from './download'
+
+const TABLES: DashboardTable[] = ['titles', 'series', 'reviews']
+
+const itemStyle: React.CSSProperties = {
+  display: 'block',
+  width: '100%',
+  textAlign: 'left',
+  border: 'none',
+  background: 'transparent',
+  padding: '6px 10px',
+  borderRadius: 8,
+  fontSize: 12,
+  cursor: 'pointer'
+}
+
+type DashboardExportMenuProps = {
+  /** Builds the snapshot when a download is picked, so it matches the screen at that moment */
+  snapshot: () => DashboardSnapshot
+  /** Base of the downloaded file names */
+  fileName: string
+}
+
+export default function DashboardExportMenu({ snapshot, fileName }: DashboardExportMenuProps) {
+  const [open, setOpen] = useState(false)
+  const menuRef = useRef<HTMLDivElement | null>(null)
+
+  useEffect(() => {
+    if (!open) return
+    const onPointerDown = (event: PointerEvent) => {
+      if (!menuRef.current?.contains(event.target as Node)) setOpen(false)
+    }
+    document.addEventListener('pointerdown', onPointerDown)
+    return () => document.removeEventListener('pointerdown', onPointerDown)
+  }, [open])
+
+  const downloadCsv = (table: DashboardTable) => {
+    downloadBlob(new Blob([dashboardCsv(snapshot(), table)], { type: 'text/csv;charset=utf-8' }), `${fileName}-${table}.csv`)
+    setOpen(false)
+  }
+
+  const downloadJson = () => {
+    downloadBlob(new Blob([dashboardJson(snapshot())], { type: 'application/json' }), `${fileName}.json`)
+    setOpen(false)
+  }
+
+  return (
+    <div ref={menuRef} style={{ position: 'relative' }}>
+      <button
+        type="button"
+        onClick={() => setOpen(prev => !prev)}
+        aria-expanded={open}
+        style={{
+          cursor: 'pointer',
+          border: '1px solid rgba(0,0,0,0.18)',
+          borderRadius: 10,
+          background: open ? 'rgba(0,0,0,0.06)' : 'white',
+          color: 'rgba(0,0,0,0.85)',
+          padding: '7px 12px',
+          fontSize: 12,
+          fontWeight: 700,
+          whiteSpace: 'nowrap'
+        }}
+      >
+        Export data
+      </button>
+
+      {open ? (
+        <div
+          style={{
+            position: 'absolute',
+            right: 0,
+            top: 'calc(100% + 6px)',
+            zIndex: 40,
+            width: 220,
+            padding: 6,
+            background: 'white',
+            border: '1px solid rgba(0,0,0,0.12)',
+            borderRadius: 12,
+            boxShadow: '0 10px 24px rgba(0,0,0,0.14)'
+          }}
+        >
+          <div style={{ fontSize: 11, fontWeight: 700, color: 'rgba(0,0,0,0.55)', padding: '4px 10px' }}>CSV</div>
+          {TABLES.map(table => (
+            <button key={table} type="button" style={itemStyle} onClick={() => downloadCsv(table)}>
+              {DASHBOARD_TABLE_LABELS[table]}
+            </button>
+          ))}
+          <div style={{ height: 1, background: 'rgba(0,0,0,0.08)', margin: '4px 0' }} />
+          <button type="button" style={itemStyle} onClick={downloadJson}>
+            Everything as JSON
+          </button>
+        </div>
+      ) : null}
+    </div>
+  )
+}
@@ -0,0 +1,140 @@
+import { useMemo, useState } from 'react'
+import * as d3 from 'd3'
+import { useMcuData } from '../stores/McuData'
+import { DataIssue, DataIssueKind } from '../data/schemas'
+
+const KIND_LABELS: Record<DataIssueKind, string> = {
+  'missing-column': 'Missing columns',
+  rejected: 'Rejected rows',
+  coerced: 'Coerced values',
+  'missing-budget': 'Missing budgets',
+  'orphan-review': 'Orphan review imdb_ids',
+  'invalid-connection': 'Invalid connections',
+  'duplicate-connection': 'Duplicate connections',
+  'invalid-annotation': 'Invalid annotations'
+}
+
+const KIND_ORDER: DataIssueKind[] = [
+  'missing-column',
+  'rejected',
+  'missing-budget',
+  'orphan-review',
+  'invalid-connection',
+  'duplicate-connection',
+  'invalid-annotation',
+  'coerced'
+]
+
+const cellStyle: React.CSSProperties = {
+  padding: '4px 8px',
+  borderBottom: '1px solid #eee',
+  textAlign: 'left',
+  verticalAlign: 'top'
+}
+
+function IssueTable({ issues }: { issues: DataIssue[] }) {
+  return (
+    <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: 12 }}>
+      <thead>
+        <tr>
+          <th style={cellStyle}>File</th>
+          <th style={cellStyle}>Row</th>
+          <th style={cellStyle}>Column</th>
+          <th style={cellStyle}>Value</th>
+          <th style={cellStyle}>Detail</th>
+        </tr>
+      </thead>
+      <tbody>
+        {issues.map((issue, i) => (
+          <tr key={`${issue.file}-${issue.row}-${issue.column}-${i}`}>
+            <td style={cellStyle}>{issue.file}</td>
+            <td style={cellStyle}>{issue.row ?? '–'}</td>
+            <td style={cellStyle}>{issue.column ?? '–'}</td>
+            <td style={{ ...cellStyle, overflowWrap: 'anywhere' }}>{issue.value ?? '–'}</td>
+            <td style={cellStyle}>{issue.message}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  )
+}
+
+/**
+ * Developer-facing view of everything the load-time validation found.
+ * Only mounted in dev builds (see App.tsx).
+ */
+export default function DataQualityReport() {
+  const { quality, status } = useMcuData()
+  const [open, setOpen] = useState(false)
+
+  const byKind = useMemo(() => d3.group(quality.issues, d => d.kind), [quality])
+  const headline = KIND_ORDER.filter(kind => kind !== 'coerced')
+    .map(kind => `${byKind.get(kind)?.length ?? 0} ${KIND_LABELS[kind].toLowerCase()}`)
+    .join(' · ')
+
+  if (status !== 'ready') return null
+
+  return (
+    <div
+      style={{
+        margin: '0 auto',
+        width: '95vw',
+        maxWidth: 1800,
+        border: '1px dashed #c9a227',
+        borderRadius: 8,
+        background: '#fffdf3',
+        padding: 12,
+        fontSize: 13
+      }}
+    >
+      <button
+        type="button"
+        onClick={() => setOpen(v => !v)}
+        style={{ border: 'none', background: 'none', padding: 0, cursor: 'pointer', fontWeight: 800, fontSize: 13 }}
+      >
+        {open ? '▾' : '▸'} Data quality (dev) — {headline}
+      </button>
+
+      {open && (
+        <div style={{ marginTop: 10, display: 'flex', flexDirection: 'column', gap: 12 }}>
+          <table style={{ borderCollapse: 'collapse', fontSize: 12 }}>
+            <thead>
+              <tr>
+                <th style={cellStyle}>File</th>
+                <th style={cellStyle}>Rows</th>
+                <th style={cellStyle}>Accepted</th>
+                <th style={cellStyle}>Dropped</th>
+              </tr>
+            </thead>
+            <tbody>
+              {quality.files.map(f => (
+                <tr key={f.file}>
+                  <td style={cellStyle}>{f.file}</td>
+                  <td style={cellStyle}>{f.rows}</td>
+                  <td style={cellStyle}>{f.accepted}</td>
+                  <td style={cellStyle}>{f.rows - f.accepted}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          {KIND_ORDER.map(kind => {
+            const issues = byKind.get(kind) ?? []
+            return (
+              <details key={kind} open={kind !== 'coerced' && issues.length > 0}>
+                <summary style={{ cursor: 'pointer', fontWeight: 700 }}>
+                  {KIND_LABELS[kind]} ({issues.length})
+                </summary>
+                {issues.length > 0 ? (
+                  <IssueTable issues={issues} />
+                ) : (
+                  <div style={{ color: 'rgba(0,0,0,0.55)', padding: '4px 0' }}>None</div>
+                )}
+              </details>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,186 @@
+import { ReactNode, useEffect, useRef, useState } from 'react'
+import { CitationKey, NARRATION_SOURCES } from '../data/narrationContent'
+import { exportChartPng, exportChartSvg, ExportFrame, PNG_SCALES, PngScale } from './chartExport'
+
+type ExportFormat = 'svg' | PngScale
+
+const btnStyle = (active: boolean): React.CSSProperties => ({
+  border: '1px solid rgba(0,0,0,0.18)',
+  background: active ? 'rgba(0,0,0,0.85)' : 'rgba(255,255,255,0.92)',
+  color: active ? 'white' : 'rgba(0,0,0,0.8)',
+  padding: '5px 10px',
+  borderRadius: 8,
+  fontSize: 12,
+  fontWeight: 700,
+  cursor: 'pointer',
+  userSelect: 'none'
+})
+
+const inputStyle: React.CSSProperties = {
+  width: '100%',
+  boxSizing: 'border-box',
+  font: 'inherit',
+  fontSize: 12,
+  padding: '4px 6px',
+  border: '1px solid rgba(0,0,0,0.2)',
+  borderRadius: 6
+}
+
+const labelStyle: React.CSSProperties = {
+  display: 'block',
+  fontSize: 11,
+  fontWeight: 700,
+  color: 'rgba(0,0,0,0.6)',
+  marginBottom: 6
+}
+
+function sourceFooter(sources: CitationKey[]) {
+  return sources.length > 0 ? `Source: ${sources.map(key => NARRATION_SOURCES[key]).join('; ')}` : ''
+}
+
+// The chart's own figure is its biggest SVG; legends and icons are smaller
+function largestSvg(root: HTMLElement) {
+  let best: SVGSVGElement | null = null
+  let bestArea = 0
+  root.querySelectorAll('svg').forEach(svg => {
+    const { width, height } = svg.getBoundingClientRect()
+    if (width * height > bestArea) {
+      best = svg
+      bestArea = width * height
+    }
+  })
+  return best as SVGSVGElement | null
+}
+
+type ExportableChartProps = {
+  /** Base of the downloaded file name */
+  name: string
+  /** Suggested figure title; the reader can edit or clear it */
+  title?: string
+  /** Data sources listed in the suggested footer */
+  sources?: CitationKey[]
+  children: ReactNode
+}
+
+/**
+ * Wraps a chart panel with an Export menu that downloads the chart as a
+ * standalone SVG or a 1×/2×/4× PNG, framed by an optional title, caption and
+ * source footer.
+ */
+export default function ExportableChart({ name, title = '', sources = [], children }: ExportableChartProps) {
+  const rootRef = useRef<HTMLDivElement | null>(null)
+  const menuRef = useRef<HTMLDivElement | null>(null)
+  const [open, setOpen] = useState(false)
+  const [frame, setFrame] = useState<ExportFrame>(() => ({ title, caption: '', footer: sourceFooter(sources) }))
+  const [busy, setBusy] = useState<ExportFormat | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  // Close on a click anywhere outside the menu
+  useEffect(() => {
+    if (!open) return
+    const onPointerDown = (event: PointerEvent) => {
+      if (!menuRef.current?.contains(event.target as Node)) setOpen(false)
+    }
+    document.addEventListener('pointerdown', onPointerDown)
+    return () => document.removeEventListener('pointerdown', onPointerDown)
+  }, [open])
+
+  const runExport = async (format: ExportFormat) => {
+    const chart = rootRef.current && largestSvg(rootRef.current)
+    if (!chart) {
+      setError('Nothing to export yet')
+      return
+    }
+    setBusy(format)
+    setError(null)
+    try {
+      if (format === 'svg') await exportChartSvg(chart, frame, name)
+      else await exportChartPng(chart, frame, name, format)
+    } catch (err) {
+      console.error(err)
+      setError(err instanceof Error ? err.message : String(err))
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  const field = (key: keyof ExportFrame, label: string, multiline = false) => (
+    <label style={labelStyle}>
+      {label}
+      {multiline ? (
+        <textarea
+          rows={3}
+          value={frame[key]}
+          onChange={event => setFrame(prev => ({ ...prev, [key]: event.target.value }))}
+          style={{ ...inputStyle, resize: 'vertical' }}
+        />
+      ) : (
+        <input
+          value={frame[key]}
+          onChange={event => setFrame(prev => ({ ...prev, [key]: event.target.value }))}
+          style={inputStyle}
+        />
+      )}
+    </label>
+  )
+
+  return (
+    <div ref={rootRef} style={{ width: '100%', height: '100%', minWidth: 0 }}>
+      {children}
+
+      {/* A zero-height anchor keeps the wrapper itself unpositioned: several
+          charts place their tooltips with page coordinates */}
+      <div className="print-hidden" style={{ position: 'relative', height: 0 }}>
+        <div ref={menuRef} style={{ position: 'absolute', right: 6, bottom: 6, zIndex: 30 }}>
+          <button
+            type="button"
+            style={{ ...btnStyle(open), padding: '3px 8px', fontSize: 11, opacity: open ? 1 : 0.75 }}
+            onClick={() => setOpen(prev => !prev)}
+            aria-expanded={open}
+          >
+            Export
+          </button>
+
+          {open && (
+            <div
+              style={{
+                position: 'absolute',
+                right: 0,
+                bottom: 30,
+                width: 300,
+                padding: 10,
+                background: 'white',
+                border: '1px solid rgba(0,0,0,0.15)',
+                borderRadius: 10,
+                boxShadow: '0 8px 24px rgba(0,0,0,0.15)'
+              }}
+            >
+              {field('title', 'Title')}
+              {field('caption', 'Caption', true)}
+              {field('footer', 'Data source', true)}
+
+              <div style={{ display: 'flex', gap: 4, flexWrap: 'wrap', marginTop: 4 }}>
+                <button type="button" style={btnStyle(busy === 'svg')} disabled={busy !== null} onClick={() => runExport('svg')}>
+                  SVG
+                </button>
+                {PNG_SCALES.map(scale => (
+                  <button
+                    key={scale}
+                    type="button"
+                    style={btnStyle(busy === scale)}
+                    disabled={busy !== null}
+                    onClick={() => runExport(scale)}
+                  >
+                    PNG {scale}×
+                  </button>
+                ))}
+              </div>
+
+              {error && <div style={{ marginTop: 6, fontSize: 11, color: '#c62828' }}>Export failed: {error}</div>}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,21 @@
+import { ReactNode } from 'react'
+import { CitationKey, NARRATION_SOURCES } from '../data/narrationContent'
+import { usePrintMode } from '../stores/PrintMode'
+
+/**
+ * Caption under a chart in the print layout. The "Figure n." prefix comes from
+ * a CSS counter (see style.css), so figures number themselves in page order.
+ */
+export default function FigureCaption({ sources = [], children }: { sources?: CitationKey[]; children: ReactNode }) {
+  const { printing } = usePrintMode()
+  if (!printing) return null
+
+  return (
+    <p className="figure-caption">
+      {children}
+      {sources.length > 0 && (
+        <span className="figure-caption-source"> Source: {sources.map(key => NARRATION_SOURCES[key]).join('; ')}.</span>
+      )}
+    </p>
+  )
+}
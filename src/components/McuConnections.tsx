@@ -1,91 +1,43 @@
-import React, { useEffect, useRef, useState } from 'react'
+import React, { useEffect, useMemo, useRef, useState } from 'react'
 import * as d3 from 'd3'
 import { useResizeObserver, useDebounceCallback } from 'usehooks-ts'
-import { ComponentSize, Margin } from '../types'
-
-type Phase = 1 | 2 | 3 | 4 | 5 | 6
-
-type CsvRow = {
-  id: string
-  title: string
-  phase: string
-  release_date: string
-  poster_path: string
-}
+import { ArcSide, ComponentSize, ConnectionType, Margin, Phase } from '../types'
+import { useMcuData } from '../stores/McuData'
+import { usePermalinkState } from '../stores/Permalink'
+import { enumParam } from '../data/permalink'
+import { useCrossFilter } from '../stores/CrossFilter'
+import { CROSS_FILTER_ACTIONS } from '../stores/Reducer'
+import { keyboardMarks } from './chartA11y'
+import ChartDataTable from './ChartDataTable'
+import { useChartPalette } from '../theme'
 
 type Movie = {
   id: string
   title: string
   phase: Phase
+  year: number
   releaseDate: Date
   releaseDateStr: string
   posterUrl: string | null
 }
 
-type ArcSide = 'top' | 'bottom'
-type ArcType = 'sequel' | 'crossover' | 'carryover'
-type Connection = { type: ArcType; from: string; to: string; side?: ArcSide; label?: string }
-
-const TMDB_POSTER_BASE = 'https://image.tmdb.org/t/p/w185'
-
-const CONNECTIONS: Connection[] = [
-  { type: 'sequel', from: 'Iron Man', to: 'Iron Man 2', side: 'top' },
-  { type: 'sequel', from: 'Iron Man 2', to: 'Iron Man 3', side: 'bottom' },
-  { type: 'crossover', from: 'Iron Man 2', to: 'The Avengers', side: 'top' },
-  { type: 'sequel', from: 'Thor', to: 'Thor: The Dark World', side: 'bottom' },
-  { type: 'crossover', from: 'Thor', to: 'The Avengers', side: 'bottom' },
-  { type: 'sequel', from: 'Captain America: The First Avenger', to: 'Captain America: The Winter Soldier', side: 'top' },
-  { type: 'crossover', from: 'Captain America: The First Avenger', to: 'The Avengers', side: 'top' },
-  { type: 'sequel', from: 'The Avengers', to: 'Avengers: Age of Ultron', side: 'top' },
-  { type: 'carryover', from: 'The Avengers', to: 'Thor: The Dark World', side: 'bottom' },
-  { type: 'carryover', from: 'The Avengers', to: 'Captain America: The Winter Soldier', side: 'top' },
-  { type: 'crossover', from: 'Iron Man 3', to: 'Avengers: Age of Ultron', side: 'top' },
-  { type: 'sequel', from: 'Thor: The Dark World', to: 'Thor: Ragnarok', side: 'bottom' },
-  { type: 'crossover', from: 'Thor: The Dark World', to: 'Avengers: Age of Ultron', side: 'top' },
-  { type: 'sequel', from: 'Captain America: The Winter Soldier', to: 'Captain America: Civil War', side: 'bottom' },
-  { type: 'crossover', from: 'Captain America: The Winter Soldier', to: 'Avengers: Age of Ultron', side: 'top' },
-  { type: 'carryover', from: 'Captain America: The Winter Soldier', to: 'Avengers: Age of Ultron', side: 'bottom' },
-  { type: 'sequel', from: 'Guardians of the Galaxy', to: 'Guardians of the Galaxy Vol. 2', side: 'top' },
-  { type: 'sequel', from: 'Avengers: Age of Ultron', to: 'Avengers: Infinity War', side: 'top' },
-  { type: 'carryover', from: 'Avengers: Age of Ultron', to: 'Captain America: Civil War', side: 'top' },
-  { type: 'sequel', from: 'Ant-Man', to: 'Ant-Man and the Wasp', side: 'bottom' },
-  { type: 'crossover', from: 'Ant-Man', to: 'Captain America: Civil War', side: 'top' },
-  { type: 'crossover', from: 'Captain America: Civil War', to: 'Avengers: Infinity War', side: 'top' },
-  { type: 'carryover', from: 'Captain America: Civil War', to: 'Black Widow', side: 'top' },
-  { type: 'sequel', from: 'Captain America: Civil War', to: 'Captain America: Brave New World', side: 'bottom' },
-  { type: 'carryover', from: 'Captain America: Civil War', to: 'Spider-Man: Homecoming', side: 'bottom' },
-  { type: 'carryover', from: 'Captain America: Civil War', to: 'Black Panther', side: 'top' },
-  { type: 'sequel', from: 'Doctor Strange', to: 'Doctor Strange in the Multiverse of Madness', side: 'top' },
-  { type: 'crossover', from: 'Doctor Strange', to: 'Avengers: Infinity War', side: 'bottom' },
-  { type: 'sequel', from: 'Guardians of the Galaxy Vol. 2', to: 'Guardians of the Galaxy Vol. 3', side: 'top' },
-  { type: 'crossover', from: 'Guardians of the Galaxy Vol. 2', to: 'Avengers: Infinity War', side: 'top' },
-  { type: 'sequel', from: 'Spider-Man: Homecoming', to: 'Spider-Man: Far From Home', side: 'top' },
-  { type: 'crossover', from: 'Spider-Man: Homecoming', to: 'Avengers: Infinity War', side: 'bottom' },
-  { type: 'sequel', from: 'Thor: Ragnarok', to: 'Thor: Love and Thunder', side: 'top' },
-  { type: 'crossover', from: 'Thor: Ragnarok', to: 'Avengers: Infinity War', side: 'bottom' },
-  { type: 'sequel', from: 'Black Panther', to: 'Black Panther: Wakanda Forever', side: 'top' },
-  { type: 'crossover', from: 'Black Panther', to: 'Avengers: Infinity War', side: 'top' },
-  { type: 'sequel', from: 'Avengers: Infinity War', to: 'Avengers: Endgame', side: 'top' },
-  { type: 'sequel', from: 'Ant-Man and the Wasp', to: 'Ant-Man and the Wasp: Quantumania', side: 'bottom' },
-  { type: 'carryover', from: 'Ant-Man and the Wasp', to: 'Avengers: Endgame', side: 'top' },
-  { type: 'sequel', from: 'Captain Marvel', to: 'The Marvels', side: 'top' },
-  { type: 'crossover', from: 'Captain Marvel', to: 'Avengers: Endgame', side: 'bottom' },
-  { type: 'carryover', from: 'Avengers: Endgame', to: 'Spider-Man: Far From Home', side: 'top' },
-  { type: 'sequel', from: 'Spider-Man: Far From Home', to: 'Spider-Man: No Way Home', side: 'bottom' },
-  { type: 'carryover', from: 'Black Widow', to: 'Thunderbolts*', side: 'top' },
-]
-
-function parsePhase(raw: string): Phase | null {
-  const n = Number(String(raw).trim())
-  if (n >= 1 && n <= 6) return n as Phase
-  return null
-}
+type FilterMode = 'all' | ConnectionType
 
-function isValidDate(d: Date) {
-  return !Number.isNaN(d.getTime())
+// Singular names for screen-reader labels; the legend uses the plural ones in arcStyle
+const CONNECTION_NOUN: Record<ConnectionType, string> = {
+  sequel: 'direct sequel',
+  crossover: 'crossover',
+  carryover: 'story carryover'
 }
 
-type FilterMode = 'all' | ArcType
+const filterModeParam = enumParam<FilterMode>('links', ['all', 'sequel', 'crossover', 'carryover'], 'all')
+
+// Set on every draw so the cross-filter effect can restyle without redrawing
+type Highlighter = {
+  focusTitle: (title: string) => void
+  focusSet: (isFocused: (movie: Movie) => boolean) => void
+  clear: () => void
+}
 
 export default function McuConnections() {
   const containerRef = useRef<HTMLDivElement>(null)
@@ -95,57 +47,26 @@ export default function McuConnections() {
   const onResize = useDebounceCallback((s: ComponentSize) => setSize(s), 50)
   useResizeObserver({ ref: containerRef as React.RefObject<HTMLDivElement>, onResize })
 
-  const [movies, setMovies] = useState<Movie[]>([])
-  const [filterMode, setFilterMode] = useState<FilterMode>('all')
-
-  useEffect(() => {
-    let cancelled = false
-
-    async function load() {
-      const rows = (await d3.csv('/data/marvel_movies_tmdb.csv')) as unknown as CsvRow[]
-
-      const parsed: Movie[] = rows
-        .map(r => {
-          const phase = parsePhase(r.phase)
-          const date = new Date(r.release_date)
-          if (!phase) return null
-          if (!isValidDate(date)) return null
-
-          const title = (r.title ?? '').trim()
-          if (!title) return null
-          if (title === 'The Incredible Hulk') return null
-
-          const posterPath = (r.poster_path ?? '').trim()
-          const posterUrl = posterPath ? `${TMDB_POSTER_BASE}${posterPath}` : null
-
-          return {
-            id: String(r.id),
-            title,
-            phase,
-            releaseDate: date,
-            releaseDateStr: r.release_date,
-            posterUrl
-          } satisfies Movie
-        })
-        .filter((x): x is Movie => x !== null)
-        .sort((a, b) => a.releaseDate.getTime() - b.releaseDate.getTime())
-
-      if (!cancelled) {
-        setMovies(parsed)
-      }
-    }
-
-    load().catch(err => {
-      console.error('Failed to load CSV:', err)
-      if (!cancelled) {
-        setMovies([])
-      }
-    })
-
-    return () => {
-      cancelled = true
-    }
-  }, [])
+  const { movies: mcuMovies, connections } = useMcuData()
+  const [filterMode, setFilterMode] = usePermalinkState(filterModeParam)
+  const { selection, dispatch, emphasis } = useCrossFilter()
+  const palette = useChartPalette()
+  const highlighterRef = useRef<Highlighter | null>(null)
+
+  const movies: Movie[] = useMemo(
+    () =>
+      mcuMovies.map(m => ({
+        id: m.id,
+        title: m.title,
+        phase: m.phase,
+        year: m.year,
+        releaseDate: m.releaseDate,
+        releaseDateStr: m.releaseDateStr,
+        posterUrl: m.posterUrl
+      })),
+    [mcuMovies]
+  )
+  const movieIds = useMemo(() => new Set(movies.map(m => m.id)), [movies])
 
   useEffect(() => {
     if (!svgRef.current) return
@@ -172,21 +93,13 @@ export default function McuConnections() {
     const xPos = (title: string) => x(title) ?? x0
     const pointStep = orderedTitles.length > 1 ? xPos(orderedTitles[1]) - xPos(orderedTitles[0]) : 0
 
-    const phaseColors: Record<Phase, string> = {
-      1: '#1f77b4',
-      2: '#ff7f0e',
-      3: '#2ca02c',
-      4: '#d62728',
-      5: '#9467bd',
-      6: '#8c564b'
-    }
-
-    const dotColor = '#FFCC00'
+    const phaseColors = palette.phase
+    const dotColor = palette.title
     const dotR = 5
     const dotStrokeW = 1.5
 
     const arcStyle: Record<
-      ArcType,
+      ConnectionType,
       { label: string; stroke: string; strokeWidth: number; dash: string | null; opacity: number }
     > = {
       sequel: { label: 'Direct sequels', stroke: 'rgba(35,35,35,0.72)', strokeWidth: 1.9, dash: null, opacity: 0.92 },
@@ -267,13 +180,14 @@ export default function McuConnections() {
       .text(String(maxDate.getFullYear()))
 
     // Resolve connections
-    const byTitle = new Map<string, Movie>()
-    movies.forEach(m => byTitle.set(m.title, m))
+    const byId = new Map<string, Movie>()
+    movies.forEach(m => byId.set(m.id, m))
 
-    const resolvedAll = CONNECTIONS
+    // Edges come pre-validated; those whose endpoints aren't in this view are skipped
+    const resolvedAll = connections
       .map(c => {
-        const a = byTitle.get(c.from)
-        const b = byTitle.get(c.to)
+        const a = byId.get(c.fromId)
+        const b = byId.get(c.toId)
         if (!a || !b) return null
 
         const x1p = xPos(a.title)
@@ -492,17 +406,71 @@ export default function McuConnections() {
         .style('font-weight', d => (d.title === hoverTitle ? '700' : '600'))
     }
 
+    // Selected titles stay lit along with any arc that touches one of them
+    function applyFocusSet(isFocused: (movie: Movie) => boolean) {
+      const focusedTitles = new Set(movies.filter(isFocused).map(m => m.title))
+
+      svg
+        .selectAll<SVGCircleElement, Movie>('circle.movie-dot')
+        .interrupt()
+        .attr('r', d => (focusedTitles.has(d.title) ? dotR + 1 : dotR))
+        .attr('opacity', d => (focusedTitles.has(d.title) ? 1 : DOT_DIM_OPACITY))
+        .attr('stroke-width', d => (focusedTitles.has(d.title) ? dotStrokeW + 1.2 : dotStrokeW))
+
+      svg
+        .selectAll<SVGPathElement, (typeof arcsWithLane)[number]>('path.arc')
+        .interrupt()
+        .attr('opacity', d =>
+          focusedTitles.has(d.from) || focusedTitles.has(d.to) ? baseArcOpacity(d) : ARC_DIM_OPACITY
+        )
+        .attr('stroke-width', d => baseArcStrokeW(d))
+
+      svg
+        .selectAll<SVGTextElement, Movie>('text.movie-name')
+        .interrupt()
+        .style('opacity', d => (focusedTitles.has(d.title) ? 1 : 0.28))
+        .style('fill', 'rgba(0,0,0,0.84)')
+        .style('font-weight', d => (focusedTitles.has(d.title) ? '600' : '400'))
+    }
+
+    highlighterRef.current = { focusTitle: applyHighlight, focusSet: applyFocusSet, clear: clearHighlight }
+
     svg
       .selectAll<SVGCircleElement, Movie>('circle.movie-dot')
-      .on('mouseenter', (_evt, d) => applyHighlight(d.title))
-      .on('mouseleave', () => clearHighlight())
+      .on('mouseenter', (_evt, d) => dispatch({ type: CROSS_FILTER_ACTIONS.HOVER, titleId: d.id, year: d.year }))
+      .on('mouseleave', () => dispatch({ type: CROSS_FILTER_ACTIONS.HOVER, titleId: null, year: null }))
+      .on('click', (_evt, d) => dispatch({ type: CROSS_FILTER_ACTIONS.TOGGLE_TITLE, titleId: d.id }))
+
+    // Keyboard: focusing a dot highlights it the way hovering does, and its label lists the visible links
+    const linkSummary = (title: string) => {
+      const links = arcsWithLane
+        .filter(d => d.from === title || d.to === title)
+        .map(d => `${d.from === title ? d.to : d.from} (${CONNECTION_NOUN[d.type]})`)
+      return links.length > 0 ? `Connected to ${links.join(', ')}` : 'No connections shown'
+    }
+
+    keyboardMarks(gDots.selectAll<SVGCircleElement, Movie>('circle.movie-dot'), {
+      label: d => `${d.title}, ${d.releaseDateStr}, Phase ${d.phase}. ${linkSummary(d.title)}`,
+      key: d => d.id,
+      onFocus: (_element, d) => dispatch({ type: CROSS_FILTER_ACTIONS.HOVER, titleId: d.id, year: d.year }),
+      onBlur: () => dispatch({ type: CROSS_FILTER_ACTIONS.HOVER, titleId: null, year: null }),
+      onActivate: d => dispatch({ type: CROSS_FILTER_ACTIONS.TOGGLE_TITLE, titleId: d.id })
+    })
+
+    keyboardMarks(gArcs.selectAll<SVGPathElement, (typeof arcsWithLane)[number]>('path.arc'), {
+      label: d => `${d.from} to ${d.to}, ${CONNECTION_NOUN[d.type]}`,
+      key: d => `${d.type}:${d.fromId}:${d.toId}`,
+      order: (a, b) => a.x1 - b.x1 || a.x2 - b.x2,
+      onFocus: (_element, d) => highlighterRef.current?.focusSet(m => m.title === d.from || m.title === d.to),
+      onBlur: () => highlighterRef.current?.clear()
+    })
 
     // Legends (unchanged)
     const phaseLegendY = 516
     const arcLegendY = phaseLegendY - 5
 
     const arcLegend = svg.append('g').attr('transform', `translate(${margin.left}, ${arcLegendY})`)
-    const arcLegendItems: Array<{ type: ArcType }> = [{ type: 'sequel' }, { type: 'crossover' }, { type: 'carryover' }]
+    const arcLegendItems: Array<{ type: ConnectionType }> = [{ type: 'sequel' }, { type: 'crossover' }, { type: 'carryover' }]
 
     const aItem = arcLegend
       .selectAll('g.arc-item')
@@ -547,6 +515,8 @@ export default function McuConnections() {
       .join('g')
       .attr('class', 'item')
       .attr('transform', (_d, i) => `translate(${i * 120}, 0)`)
+      .style('cursor', 'pointer')
+      .on('click', (_evt, d) => dispatch({ type: CROSS_FILTER_ACTIONS.TOGGLE_PHASE, phase: d.phase }))
 
     pItem
       .append('circle')
@@ -564,7 +534,23 @@ export default function McuConnections() {
       .style('font-size', '12px')
       .style('fill', 'rgba(0,0,0,0.75)')
       .text(d => d.label)
-  }, [movies, size, filterMode])
+
+    keyboardMarks(pItem, {
+      label: d => `Select ${d.label}`,
+      key: d => String(d.phase),
+      onActivate: d => dispatch({ type: CROSS_FILTER_ACTIONS.TOGGLE_PHASE, phase: d.phase })
+    })
+  }, [movies, connections, size, filterMode, palette])
+
+  // A hovered movie lights up its connections, wherever it was hovered
+  useEffect(() => {
+    const highlighter = highlighterRef.current
+    if (!highlighter) return
+    const hoveredMovie = movies.find(m => m.id === selection.hoveredTitleId)
+    if (hoveredMovie) highlighter.focusTitle(hoveredMovie.title)
+    else if (movies.some(m => emphasis(m) === 'dimmed')) highlighter.focusSet(m => emphasis(m) !== 'dimmed')
+    else highlighter.clear()
+  }, [selection, emphasis, movies, connections, size, filterMode, palette])
 
   const btnStyle = (active: boolean): React.CSSProperties => ({
     border: '1px solid rgba(0,0,0,0.18)',
@@ -602,7 +588,7 @@ export default function McuConnections() {
           color: 'rgba(0,0,0,0.58)'
         }}
       >
-        Hover over the dot to highlight related movies
+        Hover over the dot to highlight related movies, click to select it
       </div>
 
       <div
@@ -650,7 +636,25 @@ export default function McuConnections() {
       </div>
 
       {/* SVG must be above overlay */}
-      <svg ref={svgRef} width="100%" height="100%" style={{ position: 'relative', zIndex: 10 }} />
+      <svg
+        ref={svgRef}
+        width="100%"
+        height="100%"
+        style={{ position: 'relative', zIndex: 10 }}
+        role="group"
+        aria-label="Connections between MCU movies: direct sequels, crossovers and story carryovers"
+      />
+      <ChartDataTable
+        caption="Connections between MCU movies"
+        columns={[
+          { label: 'From', value: (d: (typeof connections)[number]) => d.from },
+          { label: 'To', value: d => d.to },
+          { label: 'Connection', value: d => CONNECTION_NOUN[d.type] }
+        ]}
+        rows={connections.filter(
+          d => movieIds.has(d.fromId) && movieIds.has(d.toId) && (filterMode === 'all' || d.type === filterMode)
+        )}
+      />
     </div>
   )
 }
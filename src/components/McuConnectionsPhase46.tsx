@@ -1,26 +1,14 @@
-import React, { useEffect, useRef, useState } from 'react'
+import React, { useEffect, useMemo, useRef, useState } from 'react'
 import * as d3 from 'd3'
 import { useResizeObserver, useDebounceCallback } from 'usehooks-ts'
-import { ComponentSize, Margin } from '../types'
-
-type Phase = 1 | 2 | 3 | 4 | 5 | 6
-
-type CsvRow = {
-  id: string
-  title: string
-  phase: string
-  release_date: string
-  poster_path: string
-}
-
-type ShowCsvRow = {
-  title: string
-  phase: string
-  release_date: string
-  imdb_id: string
-}
-
-type MediaType = 'movie' | 'show'
+import { ArcSide, ComponentSize, ConnectionType, MediaType, Margin, Phase } from '../types'
+import { useMcuData } from '../stores/McuData'
+import { usePermalinkState } from '../stores/Permalink'
+import { useScrollytelling } from '../stores/Scrollytelling'
+import { enumParam } from '../data/permalink'
+import { keyboardMarks, motionMs } from './chartA11y'
+import ChartDataTable from './ChartDataTable'
+import { useChartPalette } from '../theme'
 
 type TimelineEntry = {
   id: string
@@ -32,137 +20,58 @@ type TimelineEntry = {
   mediaType: MediaType
 }
 
-type ArcSide = 'top' | 'bottom'
-type ArcType = 'sequel' | 'crossover' | 'carryover'
-type Connection = { type: ArcType; from: string; to: string; side?: ArcSide; label?: string }
-type FilterMode = 'all' | ArcType
+type FilterMode = 'all' | ConnectionType
 
-const TMDB_POSTER_BASE = 'https://image.tmdb.org/t/p/w185'
-const PHASES_TO_SHOW: Phase[] = [4, 5, 6]
+const filterModeParam = enumParam<FilterMode>('links-46', ['all', 'sequel', 'crossover', 'carryover'], 'all')
 
-const CONNECTIONS: Connection[] = [
-  { type: 'carryover', from: 'Captain America: Civil War', to: 'Black Widow', side: 'top' },
-  { type: 'sequel', from: 'Captain America: Civil War', to: 'Captain America: Brave New World', side: 'bottom' },
-  { type: 'sequel', from: 'Doctor Strange', to: 'Doctor Strange in the Multiverse of Madness', side: 'top' },
-  { type: 'sequel', from: 'Guardians of the Galaxy Vol. 2', to: 'Guardians of the Galaxy Vol. 3', side: 'top' },
-  { type: 'sequel', from: 'Spider-Man: Homecoming', to: 'Spider-Man: Far From Home', side: 'top' },
-  { type: 'sequel', from: 'Thor: Ragnarok', to: 'Thor: Love and Thunder', side: 'top' },
-  { type: 'sequel', from: 'Black Panther', to: 'Black Panther: Wakanda Forever', side: 'top' },
-  { type: 'sequel', from: 'Ant-Man and the Wasp', to: 'Ant-Man and the Wasp: Quantumania', side: 'bottom' },
-  { type: 'sequel', from: 'Captain Marvel', to: 'The Marvels', side: 'top' },
-  { type: 'carryover', from: 'Avengers: Endgame', to: 'Spider-Man: Far From Home', side: 'top' },
-  { type: 'sequel', from: 'Spider-Man: Far From Home', to: 'Spider-Man: No Way Home', side: 'bottom' },
-  { type: 'carryover', from: 'WandaVision', to: 'Agatha All Along', side: 'top' },
-  { type: 'carryover', from: 'WandaVision', to: 'Doctor Strange in the Multiverse of Madness', side: 'bottom' },
-  { type: 'crossover', from: 'WandaVision', to: 'The Marvels', side: 'top' },
-  { type: 'carryover', from: 'The Falcon and The Winter Soldier', to: 'Captain America: Brave New World', side: 'bottom' },
-  { type: 'sequel', from: 'Loki | Season 1', to: 'Loki | Season 2', side: 'bottom' },
-  { type: 'carryover', from: 'Hawkeye', to: 'Echo', side: 'bottom' },
-  { type: 'crossover', from: 'Ms. Marvel', to: 'The Marvels', side: 'top' },
-  { type: 'sequel', from: 'I am Groot | Season 1', to: 'I am Groot | Season 2', side: 'top' },
-  { type: 'sequel', from: 'What If...? | Season 1', to: 'What If...? | Season 2', side: 'top' },
-  { type: 'sequel', from: 'What If...? | Season 2', to: 'What If...? | Season 3', side: 'bottom' },
-  { type: 'crossover', from: 'Hawkeye', to: 'Thunderbolts*', side: 'bottom' },
-  { type: 'carryover', from: 'Black Widow', to: 'Thunderbolts*', side: 'top' },
-  { type: 'carryover', from: 'Loki | Season 1', to: 'Ant-Man and the Wasp: Quantumania', side: 'top' }
-]
-
-function parsePhase(raw: string): Phase | null {
-  const n = Number(String(raw).trim())
-  if (n >= 1 && n <= 6) return n as Phase
-  return null
+const CONNECTION_NOUN: Record<ConnectionType, string> = {
+  sequel: 'direct sequel',
+  crossover: 'crossover',
+  carryover: 'story carryover'
 }
 
-function isValidDate(d: Date) {
-  return !Number.isNaN(d.getTime())
+const PHASES_TO_SHOW: Phase[] = [4, 5, 6]
+const STORY_FOCUS_MS = 600
+
+type Highlighter = {
+  focusPhase: (phase: Phase, duration: number) => void
+  clear: () => void
 }
 
 export default function McuConnectionsPhase46() {
   const containerRef = useRef<HTMLDivElement>(null)
   const svgRef = useRef<SVGSVGElement | null>(null)
+  const highlighterRef = useRef<Highlighter | null>(null)
+  // Read by the draw-time hover handlers, so leaving a dot returns to the story's phase
+  const storyPhaseRef = useRef<Phase | null>(null)
 
   const [size, setSize] = useState<ComponentSize>({ width: 0, height: 0 })
   const onResize = useDebounceCallback((s: ComponentSize) => setSize(s), 50)
   useResizeObserver({ ref: containerRef as React.RefObject<HTMLDivElement>, onResize })
 
-  const [entries, setEntries] = useState<TimelineEntry[]>([])
-  const [filterMode, setFilterMode] = useState<FilterMode>('all')
-
-  useEffect(() => {
-    let cancelled = false
-
-    async function load() {
-      const [movieRows, showRows] = await Promise.all([
-        d3.csv('/data/marvel_movies_tmdb.csv') as unknown as Promise<CsvRow[]>,
-        d3.csv('/data/marvel_shows_data.csv') as unknown as Promise<ShowCsvRow[]>
-      ])
-
-      const parsedMovies: TimelineEntry[] = movieRows
-        .map((r): TimelineEntry | null => {
-          const phase = parsePhase(r.phase)
-          const date = new Date(r.release_date)
-          if (!phase || !PHASES_TO_SHOW.includes(phase)) return null
-          if (!isValidDate(date)) return null
-
-          const title = (r.title ?? '').trim()
-          if (!title || title === 'The Incredible Hulk') return null
-
-          const posterPath = (r.poster_path ?? '').trim()
-          const posterUrl = posterPath ? `${TMDB_POSTER_BASE}${posterPath}` : null
-
-          return {
-            id: String(r.id),
-            title,
-            phase,
-            releaseDate: date,
-            releaseDateStr: r.release_date,
-            posterUrl,
-            mediaType: 'movie'
-          } satisfies TimelineEntry
-        })
-        .filter((x): x is TimelineEntry => x !== null)
-
-      const parsedShows: TimelineEntry[] = showRows
-        .map((r): TimelineEntry | null => {
-          const phase = parsePhase(r.phase)
-          const date = new Date(r.release_date)
-          if (!phase || !PHASES_TO_SHOW.includes(phase)) return null
-          if (!isValidDate(date)) return null
-
-          const title = (r.title ?? '').trim()
-          if (!title) return null
-
-          return {
-            id: `show-${String(r.imdb_id ?? title)}`,
-            title,
-            phase,
-            releaseDate: date,
-            releaseDateStr: r.release_date,
-            posterUrl: null,
-            mediaType: 'show'
-          } satisfies TimelineEntry
-        })
-        .filter((x): x is TimelineEntry => x !== null)
-
-      const parsed = [...parsedMovies, ...parsedShows].sort((a, b) => {
-        const byDate = a.releaseDate.getTime() - b.releaseDate.getTime()
-        if (byDate !== 0) return byDate
-        if (a.mediaType !== b.mediaType) return a.mediaType === 'movie' ? -1 : 1
-        return a.title.localeCompare(b.title)
-      })
-
-      if (!cancelled) setEntries(parsed)
-    }
-
-    load().catch(err => {
-      console.error('Failed to load connection CSVs:', err)
-      if (!cancelled) setEntries([])
-    })
+  const { titles, connections } = useMcuData()
+  const [filterMode, setFilterMode] = usePermalinkState(filterModeParam)
+  const { target } = useScrollytelling()
+  const palette = useChartPalette()
+  const storyPhase = target.connectionsPhase ?? null
+
+  const entries: TimelineEntry[] = useMemo(
+    () =>
+      titles
+        .filter(t => PHASES_TO_SHOW.includes(t.phase))
+        .map(t => ({
+          id: t.id,
+          title: t.title,
+          phase: t.phase,
+          releaseDate: t.releaseDate,
+          releaseDateStr: t.releaseDateStr,
+          posterUrl: t.mediaType === 'movie' ? t.posterUrl : null,
+          mediaType: t.mediaType
+        })),
+    [titles]
+  )
 
-    return () => {
-      cancelled = true
-    }
-  }, [])
+  const phaseIds = useMemo(() => new Set(entries.map(e => e.id)), [entries])
 
   useEffect(() => {
     if (!svgRef.current) return
@@ -189,20 +98,13 @@ export default function McuConnectionsPhase46() {
     const xPos = (title: string) => x(title) ?? x0
     const pointStep = orderedTitles.length > 1 ? xPos(orderedTitles[1]) - xPos(orderedTitles[0]) : 0
 
-    const phaseColors: Record<Phase, string> = {
-      1: '#1f77b4',
-      2: '#ff7f0e',
-      3: '#2ca02c',
-      4: '#d62728',
-      5: '#9467bd',
-      6: '#8c564b'
-    }
+    const phaseColors = palette.phase
 
     const dotR = 5
     const dotStrokeW = 1.5
     const dotFill: Record<MediaType, string> = {
-      movie: '#FFCC00',
-      show: '#FFCC00'
+      movie: palette.title,
+      show: palette.title
     }
     const dotStroke: Record<MediaType, string> = {
       movie: 'black',
@@ -215,7 +117,7 @@ export default function McuConnectionsPhase46() {
         .size(mediaType === 'movie' ? Math.PI * radius * radius : Math.PI * radius * radius * 0.64)()
 
     const arcStyle: Record<
-      ArcType,
+      ConnectionType,
       { label: string; stroke: string; strokeWidth: number; dash: string | null; opacity: number }
     > = {
       sequel: { label: 'Direct sequels', stroke: 'rgba(35,35,35,0.72)', strokeWidth: 1.9, dash: null, opacity: 0.92 },
@@ -291,13 +193,14 @@ export default function McuConnectionsPhase46() {
       .style('fill', 'rgba(0,0,0,0.65)')
       .text(String(maxDate.getFullYear()))
 
-    const byTitle = new Map<string, TimelineEntry>()
-    entries.forEach(entry => byTitle.set(entry.title, entry))
+    const byId = new Map<string, TimelineEntry>()
+    entries.forEach(entry => byId.set(entry.id, entry))
 
-    const resolvedAll = CONNECTIONS
+    // Edges come pre-validated; those whose endpoints aren't in this view are skipped
+    const resolvedAll = connections
       .map(c => {
-        const a = byTitle.get(c.from)
-        const b = byTitle.get(c.to)
+        const a = byId.get(c.fromId)
+        const b = byId.get(c.toId)
         if (!a || !b) return null
 
         const x1p = xPos(a.title)
@@ -507,16 +410,70 @@ export default function McuConnectionsPhase46() {
         .style('font-weight', d => (d.title === hoverTitle ? '700' : '600'))
     }
 
+    // One phase's titles and every arc with an end in that phase
+    function applyPhaseFocus(phase: Phase, duration: number) {
+      const touchesPhase = (d: (typeof arcsWithLane)[number]) => d.a.phase === phase || d.b.phase === phase
+
+      svg
+        .selectAll<SVGPathElement, TimelineEntry>('path.media-dot')
+        .interrupt()
+        .transition()
+        .duration(duration)
+        .attr('d', d => markerPath(d.mediaType, d.phase === phase ? dotR + 1 : dotR))
+        .attr('opacity', d => (d.phase === phase ? 1 : DOT_DIM_OPACITY))
+        .attr('stroke-width', dotStrokeW)
+
+      svg
+        .selectAll<SVGPathElement, (typeof arcsWithLane)[number]>('path.arc')
+        .interrupt()
+        .transition()
+        .duration(duration)
+        .attr('opacity', d => (touchesPhase(d) ? Math.min(1, baseArcOpacity(d) + 0.15) : ARC_DIM_OPACITY))
+        .attr('stroke-width', d => (touchesPhase(d) ? baseArcStrokeW(d) + 1.2 : baseArcStrokeW(d)))
+
+      svg
+        .selectAll<SVGTextElement, TimelineEntry>('text.media-name')
+        .interrupt()
+        .transition()
+        .duration(duration)
+        .style('opacity', d => (d.phase === phase ? 1 : 0.28))
+        .style('fill', 'rgba(0,0,0,0.84)')
+        .style('font-weight', d => (d.phase === phase ? '600' : '400'))
+    }
+
+    highlighterRef.current = { focusPhase: applyPhaseFocus, clear: clearHighlight }
+
+    const restoreHighlight = () => {
+      if (storyPhaseRef.current === null) clearHighlight()
+      else applyPhaseFocus(storyPhaseRef.current, 0)
+    }
+
     svg
       .selectAll<SVGPathElement, TimelineEntry>('path.media-dot')
       .on('mouseenter', (_evt, d) => applyHighlight(d.title))
-      .on('mouseleave', () => clearHighlight())
+      .on('mouseleave', restoreHighlight)
+
+    const linkSummary = (title: string) => {
+      const links = arcsWithLane
+        .filter(d => d.from === title || d.to === title)
+        .map(d => `${d.from === title ? d.to : d.from} (${CONNECTION_NOUN[d.type]})`)
+      return links.length > 0 ? `Connected to ${links.join(', ')}` : 'No connections shown'
+    }
+
+    // No click action here, so the marks are read as images
+    keyboardMarks(gDots.selectAll<SVGPathElement, TimelineEntry>('path.media-dot'), {
+      label: d =>
+        `${d.title}, ${d.mediaType === 'movie' ? 'movie' : 'TV show'}, ${d.releaseDateStr}, Phase ${d.phase}. ${linkSummary(d.title)}`,
+      key: d => d.id,
+      onFocus: (_element, d) => applyHighlight(d.title),
+      onBlur: restoreHighlight
+    })
 
     const phaseLegendY = 530
     const arcLegendY = phaseLegendY - 5
 
     const arcLegend = svg.append('g').attr('transform', `translate(${margin.left}, ${arcLegendY})`)
-    const arcLegendItems: Array<{ type: ArcType }> = [{ type: 'sequel' }, { type: 'crossover' }, { type: 'carryover' }]
+    const arcLegendItems: Array<{ type: ConnectionType }> = [{ type: 'sequel' }, { type: 'crossover' }, { type: 'carryover' }]
 
     const aItem = arcLegend
       .selectAll('g.arc-item')
@@ -604,7 +561,16 @@ export default function McuConnectionsPhase46() {
       .style('font-size', '12px')
       .style('fill', 'rgba(0,0,0,0.75)')
       .text(d => d.label)
-  }, [entries, size, filterMode])
+  }, [entries, connections, size, filterMode, palette])
+
+  // A story step can light up one phase until the reader scrolls on
+  useEffect(() => {
+    storyPhaseRef.current = storyPhase
+    const highlighter = highlighterRef.current
+    if (!highlighter) return
+    if (storyPhase === null) highlighter.clear()
+    else highlighter.focusPhase(storyPhase, motionMs(STORY_FOCUS_MS))
+  }, [storyPhase, entries, connections, size, filterMode, palette])
 
   const btnStyle = (active: boolean): React.CSSProperties => ({
     border: '1px solid rgba(0,0,0,0.18)',
@@ -689,7 +655,25 @@ export default function McuConnectionsPhase46() {
         </button>
       </div>
 
-      <svg ref={svgRef} width="100%" height="100%" style={{ position: 'relative', zIndex: 10 }} />
+      <svg
+        ref={svgRef}
+        width="100%"
+        height="100%"
+        style={{ position: 'relative', zIndex: 10 }}
+        role="group"
+        aria-label="Connections between Phase 4 to 6 movies and TV shows"
+      />
+      <ChartDataTable
+        caption="Connections between Phase 4 to 6 titles"
+        columns={[
+          { label: 'From', value: (d: (typeof connections)[number]) => d.from },
+          { label: 'To', value: d => d.to },
+          { label: 'Connection', value: d => CONNECTION_NOUN[d.type] }
+        ]}
+        rows={connections.filter(
+          d => phaseIds.has(d.fromId) && phaseIds.has(d.toId) && (filterMode === 'all' || d.type === filterMode)
+        )}
+      />
     </div>
   )
 }
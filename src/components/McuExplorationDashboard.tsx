@@ -1,45 +1,25 @@
 import React, { useEffect, useMemo, useRef, useState } from 'react'
 import * as d3 from 'd3'
-
-type Anchor = 'top' | 'bottom'
-type Phase = 1 | 2 | 3 | 4 | 5 | 6
-type MediaType = 'movie' | 'show'
-
-type ImportantMeta = { anchor: Anchor; note: string }
-
-type MovieRow = {
-  id: string
-  title: string
-  phase: string
-  release_date: string
-  revenue: string
-  budget: string
-  poster_path: string
-  imdb_id: string
-  imdb_average_rating: string
-  overview: string
-}
-
-type ShowRow = {
-  title: string
-  phase: string
-  release_date: string
-  imdb_id: string
-  imdb_average_rating: string
-  poster_path: string
-}
-
-type ReviewRow = {
-  title: string
-  imdb_id: string
-  author: string
-  date: string
-  review_rating: string
-  review_title: string
-  review: string
-  likes: string
-  dislikes: string
-}
+import { AnnotationAnchor, AnnotationCategory, AnnotationSeverity, MediaType, Phase, Review } from '../types'
+import { annotationsForView, CATEGORY_LABELS, SEVERITY_RANK } from '../data/annotations'
+import { useMcuData } from '../stores/McuData'
+import { useChartSettings } from '../stores/ChartSettings'
+import { useCrossFilter } from '../stores/CrossFilter'
+import { CROSS_FILTER_ACTIONS } from '../stores/Reducer'
+import { formatRatio } from '../data/profit'
+import { applyReviewOptions, reviewOptionsParam } from '../data/reviewList'
+import { nullableIntParam, nullableStringParam } from '../data/permalink'
+import { usePermalinkState } from '../stores/Permalink'
+import ReviewSearch from './ReviewSearch'
+import ReviewListControls from './ReviewListControls'
+import DashboardExportMenu from './DashboardExportMenu'
+import ExportableChart from './ExportableChart'
+import { scrollBehavior } from './chartA11y'
+import { useChartPalette } from '../theme'
+import { ChartPalette } from '../data/palettes'
+import { dashboardSnapshot } from '../data/dashboardExport'
+import { RATING_VALUES, RatingDistribution, ratingDistribution } from '../data/ratingDistribution'
+import { RatingDrift, ratingDrift, ratingShares, ROLLING_WINDOW } from '../data/ratingDrift'
 
 type Entry = {
   id: string
@@ -56,37 +36,10 @@ type Entry = {
   posterUrl: string | null
   overview: string
   important: boolean
-  anchor?: Anchor
+  anchor?: AnnotationAnchor
   note?: string
-}
-
-type Review = {
-  author: string
-  date: string
-  rating: number | null
-  title: string
-  body: string
-  likes: number
-  dislikes: number
-}
-
-function reviewKey(review: Review) {
-  return [review.author, review.date, review.title, review.body].join('||')
-}
-
-function reviewEngagement(review: Review) {
-  return review.likes + review.dislikes
-}
-
-function normalizeTitle(raw: string) {
-  return String(raw ?? '')
-    .trim()
-    .toLowerCase()
-    .replace(/\s+/g, ' ')
-}
-
-function baseShowTitle(raw: string) {
-  return String(raw ?? '').split('|')[0].trim()
+  category?: AnnotationCategory
+  severity?: AnnotationSeverity
 }
 
 type YearMetric = {
@@ -94,62 +47,11 @@ type YearMetric = {
   value: number | null
 }
 
-const TMDB_POSTER_BASE = 'https://image.tmdb.org/t/p/w185'
-
-const IMPORTANT: Record<string, ImportantMeta> = {
-  'Iron Man': { anchor: 'bottom', note: 'Kickstarts the MCU and defines its tone' },
-  'Iron Man 2': { anchor: 'bottom', note: 'Sequel to Iron Man' },
-  'Captain America: The First Avenger': { anchor: 'bottom', note: 'Introduces the Captain America' },
-  'Avengers: Age of Ultron': { anchor: 'bottom', note: 'Second Avenger movie in the MCU' },
-  'Spider-Man: Homecoming': { anchor: 'bottom', note: 'Introduces the Spider-Man' },
-  'Thor: Love and Thunder': { anchor: 'bottom', note: 'Worst IMDB rating Thor movie' },
-  'Deadpool & Wolverine': { anchor: 'bottom', note: 'Deadpool returns in the MCU + Good audience reception' },
-  'The Avengers': { anchor: 'top', note: 'First major crossover event + Huge box office success' },
-  'Iron Man 3': { anchor: 'bottom', note: 'Phase 2 starts' },
-  'Captain America: The Winter Soldier': { anchor: 'top', note: 'Political thriller tone + Elevated storytelling' },
-  'Captain America: Civil War': { anchor: 'bottom', note: 'Phase 3 starts + Setting up the next Avengers movie' },
-  'Black Panther': { anchor: 'top', note: 'First superhero movie nominated for Best Picture' },
-  'Avengers: Endgame': { anchor: 'bottom', note: 'Infinity Saga finale + Peak MCU + Huge cultural moment + Highest box office/IMDB rating' },
-  'Black Widow': { anchor: 'top', note: 'Phase 4 starts + Weak rating/box office + Soft restart after Endgame' },
-  'Spider-Man: No Way Home': { anchor: 'bottom', note: 'Global success + Last Endgame-level cultural moment' },
-  'Ant-Man and the Wasp: Quantumania': { anchor: 'bottom', note: 'Phase 5 starts + Turning point in audience fatigue' },
-  'The Marvels': { anchor: 'bottom', note: 'Worst profit/rating MCU movie in history' },
-  'The Fantastic 4: First Steps': { anchor: 'top', note: 'Phase 6 starts + Slight underperformance in rating/box office' }
-}
-
-const YEAR_HIGHLIGHT_TITLE: Partial<Record<number, string>> = {
-  2021: 'Spider-Man: No Way Home',
-  2023: 'The Marvels'
-}
-
 const YEAR_TIMELINE_MESSAGE: Partial<Record<number, string>> = {
   2009: 'No MCU movie or show was released in 2009.',
   2020: 'No MCU movie or show was released in 2020.'
 }
 
-function parsePhase(raw: string): Phase | null {
-  const n = Number(String(raw).trim())
-  if (n >= 1 && n <= 6) return n as Phase
-  return null
-}
-
-function parseDate(raw: string) {
-  const d = new Date(String(raw ?? '').trim())
-  return Number.isNaN(d.getTime()) ? null : d
-}
-
-function parseNumber(raw: string) {
-  const cleaned = String(raw ?? '').replace(/,/g, '').trim()
-  if (!cleaned) return null
-  const match = cleaned.match(/^(-?\d+(?:\.\d+)?)\s*([kK])?$/)
-  if (!match) return null
-  const base = Number(match[1])
-  if (!Number.isFinite(base)) return null
-  const multiplier = match[2] ? 1_000 : 1
-  const n = base * multiplier
-  return Number.isFinite(n) ? n : null
-}
-
 function clamp(value: number, min: number, max: number) {
   return Math.max(min, Math.min(max, value))
 }
@@ -255,6 +157,8 @@ function MetricChart({
         background: '#fff',
         padding: 12,
         boxShadow: '0 10px 24px rgba(0,0,0,0.05)',
+        height: '100%',
+        boxSizing: 'border-box',
         minHeight: 0,
         overflow: 'hidden'
       }}
@@ -327,180 +231,321 @@ function MetricChart({
   )
 }
 
-export default function McuExplorationDashboard() {
+/** Key for the drift chart's burst shading, drawn a little stronger than the shading so it reads at text size */
+function BurstSwatch({ color }: { color: string }) {
+  return (
+    <span
+      style={{
+        display: 'inline-block',
+        width: 9,
+        height: 9,
+        background: color,
+        opacity: 0.45,
+        border: '1px solid rgba(0,0,0,0.35)',
+        verticalAlign: 'middle'
+      }}
+    />
+  )
+}
+
+function ratingBarColor(palette: ChartPalette, rating: number) {
+  if (rating <= 4) return palette.rating.low
+  if (rating <= 7) return palette.rating.mid
+  return palette.rating.high
+}
+
+function RatingDistributionChart({
+  distribution,
+  imdbRating,
+  seriesWide
+}: {
+  distribution: RatingDistribution
+  imdbRating: number | null
+  seriesWide: boolean
+}) {
+  const palette = useChartPalette()
+  const width = 320
+  const height = 120
+  const padding = { top: 14, right: 10, bottom: 22, left: 10 }
+  const x = d3
+    .scaleBand<number>()
+    .domain(RATING_VALUES)
+    .range([padding.left, width - padding.right])
+    .padding(0.18)
+  const y = d3
+    .scaleLinear()
+    .domain([0, Math.max(1, d3.max(distribution.counts) ?? 1)])
+    .range([height - padding.bottom, padding.top])
+  // Ratings sit at band centres, so a mean of 1 lands on the first bar
+  const xOfRating = (rating: number) => (x(1) ?? 0) + x.bandwidth() / 2 + (rating - 1) * x.step()
+  const { mean, gap } = distribution
+
+  return (
+    <div style={{ display: 'grid', gap: 6 }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'baseline', gap: 8 }}>
+        <div style={{ fontSize: 14, fontWeight: 800 }}>Review Ratings</div>
+        {distribution.polarized ? (
+          <span
+            title={`${Math.round(distribution.lowShare * 100)}% rated 1–2 and ${Math.round(distribution.highShare * 100)}% rated 9–10`}
+            style={{
+              fontSize: 11,
+              fontWeight: 800,
+              color: `color-mix(in srgb, ${palette.rating.low} 65%, black)`,
+              background: `color-mix(in srgb, ${palette.rating.low} 12%, transparent)`,
+              borderRadius: 999,
+              padding: '2px 8px'
+            }}
+          >
+            Polarized
+          </span>
+        ) : null}
+      </div>
+      <svg viewBox={`0 0 ${width} ${height}`} width="100%" height={height}>
+        <line
+          x1={padding.left}
+          x2={width - padding.right}
+          y1={height - padding.bottom}
+          y2={height - padding.bottom}
+          stroke="rgba(0,0,0,0.18)"
+        />
+        {distribution.counts.map((count, index) => {
+          const rating = index + 1
+          return (
+            <g key={rating}>
+              <rect
+                x={x(rating)}
+                y={y(count)}
+                width={x.bandwidth()}
+                height={height - padding.bottom - y(count)}
+                fill={ratingBarColor(palette, rating)}
+                rx="2"
+              >
+                <title>{`${count} review${count === 1 ? '' : 's'} rated ${rating}`}</title>
+              </rect>
+              <text
+                x={(x(rating) ?? 0) + x.bandwidth() / 2}
+                y={height - padding.bottom + 14}
+                textAnchor="middle"
+                fontSize="10"
+                fill="rgba(0,0,0,0.6)"
+              >
+                {rating}
+              </text>
+            </g>
+          )
+        })}
+        {mean !== null ? (
+          <line x1={xOfRating(mean)} x2={xOfRating(mean)} y1={padding.top - 6} y2={height - padding.bottom} stroke="#111" strokeWidth="2" />
+        ) : null}
+        {imdbRating !== null ? (
+          <line
+            x1={xOfRating(imdbRating)}
+            x2={xOfRating(imdbRating)}
+            y1={padding.top - 6}
+            y2={height - padding.bottom}
+            stroke={palette.metric}
+            strokeWidth="2"
+            strokeDasharray="4,3"
+          />
+        ) : null}
+      </svg>
+      <div style={{ fontSize: 12, color: 'rgba(0,0,0,0.7)', display: 'flex', flexWrap: 'wrap', gap: '2px 12px' }}>
+        <span>
+          <strong style={{ color: '#111' }}>━</strong> Review mean {formatRating(mean)}
+        </span>
+        <span>
+          <strong style={{ color: palette.metric }}>┅</strong> IMDb {formatRating(imdbRating)}
+        </span>
+        <span>
+          Gap {gap === null ? 'N/A' : `${gap >= 0 ? '+' : ''}${gap.toFixed(1)}`}
+        </span>
+      </div>
+      <div style={{ fontSize: 11, color: 'rgba(0,0,0,0.55)', lineHeight: 1.35 }}>
+        {distribution.rated} rated review{distribution.rated === 1 ? '' : 's'}
+        {seriesWide ? ' across the whole series' : ''}. Scraped reviews are the most-voted ones, so they lean to strong
+        opinions more than IMDb's overall average.
+      </div>
+    </div>
+  )
+}
+
+const DRIFT_TICKS = [-4, -1, 0, 1, 4, 12, 52, 260]
+
+function formatWeeks(weeks: number) {
+  if (weeks === 0) return 'Release'
+  if (Math.abs(weeks) >= 52) return `${Math.round(weeks / 52)}y`
+  return `${weeks}w`
+}
+
+function RatingDriftChart({ drift, seriesWide }: { drift: RatingDrift; seriesWide: boolean }) {
+  const palette = useChartPalette()
+  const width = 320
+  const height = 140
+  const padding = { top: 10, right: 10, bottom: 24, left: 24 }
+  const weekExtent = d3.extent(drift.points, p => p.weeks) as [number, number]
+  // Symlog keeps launch week readable next to reviews posted years later
+  const x = d3
+    .scaleSymlog()
+    .constant(1)
+    .domain([Math.min(-1, weekExtent[0]), Math.max(4, weekExtent[1])])
+    .range([padding.left, width - padding.right])
+  const y = d3
+    .scaleLinear()
+    .domain([1, 10])
+    .range([height - padding.bottom, padding.top])
+  const [minWeek, maxWeek] = x.domain()
+  const rollingPath = d3.line<{ weeks: number; mean: number }>().x(d => x(d.weeks)).y(d => y(d.mean))(drift.rolling) ?? ''
+  const { launch, later } = drift
+
+  return (
+    <div style={{ display: 'grid', gap: 6 }}>
+      <div style={{ fontSize: 14, fontWeight: 800 }}>Ratings Since Release</div>
+      <svg viewBox={`0 0 ${width} ${height}`} width="100%" height={height}>
+        {drift.bursts.map(burst => (
+          <rect
+            key={`${burst.kind}-${burst.week}`}
+            x={x(burst.week)}
+            y={padding.top}
+            width={Math.max(3, x(burst.week + 1) - x(burst.week))}
+            height={height - padding.top - padding.bottom}
+            fill={burst.kind === 'low' ? palette.rating.low : palette.rating.high}
+            fillOpacity="0.16"
+          >
+            <title>
+              {`Week ${burst.week}: ${burst.matches} of ${burst.reviews} reviews rated ${burst.kind === 'low' ? '1–2' : '9–10'} (p = ${burst.pValue.toFixed(3)})`}
+            </title>
+          </rect>
+        ))}
+        <line
+          x1={padding.left}
+          x2={width - padding.right}
+          y1={height - padding.bottom}
+          y2={height - padding.bottom}
+          stroke="rgba(0,0,0,0.18)"
+        />
+        <line x1={x(0)} x2={x(0)} y1={padding.top} y2={height - padding.bottom} stroke="rgba(0,0,0,0.35)" strokeDasharray="3,3" />
+        {[1, 5, 10].map(rating => (
+          <text key={rating} x={padding.left - 6} y={y(rating)} dy="0.32em" textAnchor="end" fontSize="10" fill="rgba(0,0,0,0.6)">
+            {rating}
+          </text>
+        ))}
+        {DRIFT_TICKS.filter(week => week >= minWeek && week <= maxWeek).map(week => (
+          <text key={week} x={x(week)} y={height - padding.bottom + 14} textAnchor="middle" fontSize="10" fill="rgba(0,0,0,0.6)">
+            {formatWeeks(week)}
+          </text>
+        ))}
+        {drift.points.map(point => (
+          <circle
+            key={point.review.key}
+            cx={x(point.weeks)}
+            cy={y(point.rating)}
+            r="3"
+            fill={ratingBarColor(palette, point.rating)}
+            opacity="0.75"
+          >
+            <title>{`${point.review.date}: rated ${point.rating}`}</title>
+          </circle>
+        ))}
+        <path d={rollingPath} fill="none" stroke="#111" strokeWidth="2" />
+      </svg>
+      <div style={{ fontSize: 12, color: 'rgba(0,0,0,0.7)', display: 'flex', flexWrap: 'wrap', gap: '2px 12px' }}>
+        <span>
+          Launch window {formatRating(launch.mean)} <span style={{ color: 'rgba(0,0,0,0.5)' }}>({launch.count})</span>
+        </span>
+        <span>
+          Later {formatRating(later.mean)} <span style={{ color: 'rgba(0,0,0,0.5)' }}>({later.count})</span>
+        </span>
+        {drift.bursts.length > 0 ? (
+          <span style={{ fontWeight: 700 }}>
+            {drift.bursts.length} rating burst{drift.bursts.length === 1 ? '' : 's'}
+          </span>
+        ) : null}
+      </div>
+      <div style={{ fontSize: 11, color: 'rgba(0,0,0,0.55)', lineHeight: 1.35 }}>
+        Weeks since {seriesWide ? 'the series premiere' : 'release'}; the line is a rolling mean of the last {ROLLING_WINDOW}{' '}
+        reviews. The launch window runs to the end of the first week. Shaded weeks hold more low (1–2{' '}
+        <BurstSwatch color={palette.rating.low} />) or high (9–10 <BurstSwatch color={palette.rating.high} />) ratings than the
+        MCU-wide share would explain.
+      </div>
+    </div>
+  )
+}
+
+// Permalink keys for the dashboard's selection; review options add sort, band, from and to
+const yearParam = nullableIntParam('year')
+const titleParam = nullableStringParam('title')
+const reviewParam = nullableStringParam('review')
+
+/** A request from elsewhere on the page to open a title; requestId lets the same title be opened again */
+export type DashboardFocus = { titleId: string; requestId: number }
+
+export default function McuExplorationDashboard({ focus = null }: { focus?: DashboardFocus | null }) {
   const TIMELINE_SIDE_PADDING = 28
   const TIMELINE_THUMB_SIZE = 16
   const TIMELINE_BASE_TOP_PERCENT = 80
   const TIMELINE_STACK_STEP = 13
   const TIMELINE_TYPE_GAP_UNITS = 0.3
   const TIMELINE_INFO_TOP_OFFSET = 220
-  const [entries, setEntries] = useState<Entry[]>([])
-  const [reviewsByImdbId, setReviewsByImdbId] = useState<Map<string, Review[]>>(new Map())
-  const [reviewsByTitle, setReviewsByTitle] = useState<Map<string, Review[]>>(new Map())
-  const [selectedYear, setSelectedYear] = useState<number | null>(null)
-  const [selectedEntryId, setSelectedEntryId] = useState<string | null>(null)
-  const [expandedReviewKey, setExpandedReviewKey] = useState<string | null>(null)
+  const { titles, reviews, registry, annotations } = useMcuData()
+  const { money, profit } = useChartSettings()
+  const { dispatch: dispatchCrossFilter, emphasis } = useCrossFilter()
+  const palette = useChartPalette()
+  const [selectedYear, setSelectedYear] = usePermalinkState(yearParam)
+  const [selectedEntryId, setSelectedEntryId] = usePermalinkState(titleParam)
+  const [expandedReviewKey, setExpandedReviewKey] = usePermalinkState(reviewParam)
+  const [pinnedReviewKey, setPinnedReviewKey] = useState<string | null>(expandedReviewKey)
+  const [searchOpen, setSearchOpen] = useState(false)
+  const [reviewOptions, setReviewOptions] = usePermalinkState(reviewOptionsParam)
   const [timelineHover, setTimelineHover] = useState<{ title: string; left: number; top: number } | null>(null)
-  const [hoveredTimelineMarkerId, setHoveredTimelineMarkerId] = useState<string | null>(null)
   const timelineRef = useRef<HTMLDivElement | null>(null)
   const timelineTooltipRef = useRef<HTMLDivElement | null>(null)
+  // A review opened from search, applied once its title becomes selected
+  const pendingReviewKey = useRef<string | null>(null)
 
-  useEffect(() => {
-    let cancelled = false
-
-    async function load() {
-      const [movieRows, showRows, movieReviewRows, showReviewRows] = await Promise.all([
-        d3.csv('/data/marvel_movies_tmdb.csv') as unknown as Promise<MovieRow[]>,
-        d3.csv('/data/marvel_shows_data.csv') as unknown as Promise<ShowRow[]>,
-        d3.csv('/data/marvel_movies_imdb_reviews.csv') as unknown as Promise<ReviewRow[]>,
-        (d3.csv('/data/marvel_shows_imdb_reviews.csv').catch(() => []) as unknown as Promise<ReviewRow[]>)
-      ])
-
-      const movies = movieRows
-        .map((row): Entry | null => {
-          const phase = parsePhase(row.phase)
-          const releaseDate = parseDate(row.release_date)
-          if (!phase || !releaseDate) return null
-
-          const title = String(row.title ?? '').trim()
-          if (!title || title === 'The Incredible Hulk') return null
-
-          const meta = IMPORTANT[title]
-          const posterPath = String(row.poster_path ?? '').trim()
-          const revenue = parseNumber(row.revenue)
-          const budget = parseNumber(row.budget)
-          return {
-            id: `movie-${row.id}`,
-            title,
-            phase,
-            mediaType: 'movie',
-            releaseDate,
-            year: releaseDate.getFullYear(),
-            imdbId: String(row.imdb_id ?? '').trim(),
-            rating: parseNumber(row.imdb_average_rating),
-            revenue,
-            budget,
-            profit: revenue !== null && budget !== null ? revenue - budget : null,
-            posterUrl: posterPath ? `${TMDB_POSTER_BASE}${posterPath}` : null,
-            overview: String(row.overview ?? '').trim(),
-            important: !!meta,
-            anchor: meta?.anchor,
-            note: meta?.note
-          }
-        })
-        .filter((entry): entry is Entry => entry !== null)
-
-      const shows = showRows
-        .map((row, index): Entry | null => {
-          const phase = parsePhase(row.phase)
-          const releaseDate = parseDate(row.release_date)
-          if (!phase || !releaseDate) return null
-
-          const title = String(row.title ?? '').trim()
-          if (!title) return null
-
-          const posterPath = String(row.poster_path ?? '').trim()
-          return {
-            id: `show-${row.id || index}`,
-            title,
-            phase,
-            mediaType: 'show',
-            releaseDate,
-            year: releaseDate.getFullYear(),
-            imdbId: String(row.imdb_id ?? '').trim(),
-            rating: parseNumber(row.imdb_average_rating),
-            revenue: null,
-            budget: null,
-            profit: null,
-            posterUrl: posterPath ? `${TMDB_POSTER_BASE}${posterPath}` : null,
-            overview: String(row.overview ?? '').trim(),
-            important: false
-          }
-        })
-        .filter((entry): entry is Entry => entry !== null)
-
-      const allEntries = [...movies, ...shows].sort((a, b) => a.releaseDate.getTime() - b.releaseDate.getTime())
-      const allReviewRows = [...movieReviewRows, ...showReviewRows]
-      const dedupe = new Set<string>()
-      const parsedReviews = allReviewRows
-        .map(row => {
-          const review: Review = {
-            author: String(row.author ?? 'Anonymous').trim() || 'Anonymous',
-            date: String(row.date ?? '').trim(),
-            rating: parseNumber(row.review_rating),
-            title: String(row.review_title ?? '').trim(),
-            body: String(row.review ?? '').trim(),
-            likes: parseNumber(row.likes) ?? 0,
-            dislikes: parseNumber(row.dislikes) ?? 0
-          }
-          const imdbId = String(row.imdb_id ?? '').trim()
-          const titleKey = normalizeTitle(baseShowTitle(String(row.title ?? '')))
-          const fingerprint = [
-            imdbId,
-            titleKey,
-            review.author,
-            review.date,
-            review.title,
-            review.body
-          ].join('||')
-
-          if (dedupe.has(fingerprint)) return null
-          dedupe.add(fingerprint)
-
-          return { imdbId, titleKey, review }
-        })
-        .filter((entry): entry is { imdbId: string; titleKey: string; review: Review } => entry !== null)
-
-      const normalizedReviewsByImdbId = new Map<string, Review[]>()
-      d3.group(
-        parsedReviews.filter(entry => !!entry.imdbId),
-        entry => entry.imdbId
-      ).forEach((items, imdbId) => {
-        normalizedReviewsByImdbId.set(
-          imdbId,
-          items
-            .map(item => item.review)
-            .sort((a, b) => reviewEngagement(b) - reviewEngagement(a))
-        )
-      })
+  const importantById = useMemo(() => annotationsForView(annotations, 'dashboard'), [annotations])
 
-      const normalizedReviewsByTitle = new Map<string, Review[]>()
-      d3.group(
-        parsedReviews.filter(entry => !!entry.titleKey),
-        entry => entry.titleKey
-      ).forEach((items, titleKey) => {
-        normalizedReviewsByTitle.set(
-          titleKey,
-          items
-            .map(item => item.review)
-            .sort((a, b) => reviewEngagement(b) - reviewEngagement(a))
-        )
-      })
-
-      if (!cancelled) {
-        setEntries(allEntries)
-        setReviewsByImdbId(normalizedReviewsByImdbId)
-        setReviewsByTitle(normalizedReviewsByTitle)
-        if (allEntries.length > 0) {
-          setSelectedYear(allEntries[0].year)
-          setSelectedEntryId(allEntries[0].id)
+  const entries: Entry[] = useMemo(
+    () =>
+      titles.map(t => {
+        const meta = t.mediaType === 'movie' ? importantById.get(t.id) : undefined
+        const revenue = t.mediaType === 'movie' && t.revenue !== null ? money.adjust(t.revenue, t.year) : null
+        const budget = t.mediaType === 'movie' && t.budget !== null ? money.adjust(t.budget, t.year) : null
+        return {
+          id: t.id,
+          title: t.title,
+          phase: t.phase,
+          mediaType: t.mediaType,
+          releaseDate: t.releaseDate,
+          year: t.year,
+          imdbId: t.imdbId,
+          rating: t.rating,
+          revenue,
+          budget,
+          profit: revenue !== null && budget !== null ? profit.compute(revenue, budget) : null,
+          posterUrl: t.posterUrl,
+          overview: t.overview,
+          important: !!meta,
+          anchor: meta?.anchor,
+          note: meta?.note,
+          category: meta?.category,
+          severity: meta?.severity
         }
-      }
-    }
+      }),
+    [titles, importantById, money, profit]
+  )
 
-    load().catch(err => {
-      console.error('Failed to load exploration dashboard data:', err)
-      if (!cancelled) {
-        setEntries([])
-        setReviewsByImdbId(new Map())
-        setReviewsByTitle(new Map())
+  // Reviews are scraped per series, so every season of a show shares them
+  const reviewsByEntryId = useMemo(() => {
+    const byId = new Map<string, Review[]>()
+    for (const review of reviews) {
+      for (const title of registry.titlesForReview(review)) {
+        const list = byId.get(title.id)
+        if (list) list.push(review)
+        else byId.set(title.id, [review])
       }
-    })
-
-    return () => {
-      cancelled = true
     }
-  }, [])
+    return byId
+  }, [reviews, registry])
 
   const minYear = entries[0]?.year ?? 2008
   const maxYear = entries[entries.length - 1]?.year ?? 2025
@@ -512,6 +557,8 @@ export default function McuExplorationDashboard() {
   )
 
   useEffect(() => {
+    // Keep a restored title until the data it refers to has loaded
+    if (entries.length === 0) return
     if (yearEntries.length === 0) {
       setSelectedEntryId(null)
       return
@@ -519,33 +566,75 @@ export default function McuExplorationDashboard() {
     if (!yearEntries.some(entry => entry.id === selectedEntryId)) {
       setSelectedEntryId(yearEntries[0].id)
     }
-  }, [yearEntries, selectedEntryId])
+  }, [entries, yearEntries, selectedEntryId])
 
+  // Title and year the open review belongs to; a review restored from a permalink starts open
+  const shownEntryKey = useRef(`${selectedEntryId}:${currentYear}`)
   useEffect(() => {
-    setExpandedReviewKey(null)
+    const shown = `${selectedEntryId}:${currentYear}`
+    if (shown === shownEntryKey.current) return
+    shownEntryKey.current = shown
+    setExpandedReviewKey(pendingReviewKey.current)
+    setPinnedReviewKey(pendingReviewKey.current)
+    pendingReviewKey.current = null
   }, [selectedEntryId, currentYear])
 
+  useEffect(() => {
+    if (!expandedReviewKey) return
+    document
+      .querySelector(`[data-review-key="${CSS.escape(expandedReviewKey)}"]`)
+      ?.scrollIntoView({ block: 'nearest', behavior: scrollBehavior() })
+  }, [expandedReviewKey])
+
   const selectedEntry = yearEntries.find(entry => entry.id === selectedEntryId) ?? yearEntries[0] ?? null
   const selectedReviews = useMemo(() => {
     if (!selectedEntry) return []
 
-    const baseTitle = selectedEntry.mediaType === 'show' ? baseShowTitle(selectedEntry.title) : selectedEntry.title
-    const titleKey = normalizeTitle(baseTitle)
-    const imdbReviews = selectedEntry.imdbId ? reviewsByImdbId.get(selectedEntry.imdbId) ?? [] : []
-    const titleReviews = reviewsByTitle.get(titleKey) ?? []
-
-    const merged = [...imdbReviews, ...titleReviews]
-    const dedupe = new Set<string>()
-    return merged
-      .filter(review => {
-        const fingerprint = reviewKey(review)
-        if (dedupe.has(fingerprint)) return false
-        dedupe.add(fingerprint)
-        return true
-      })
-      .sort((a, b) => reviewEngagement(b) - reviewEngagement(a))
-      .slice(0, 4)
-  }, [selectedEntry, reviewsByImdbId, reviewsByTitle])
+    const all = reviewsByEntryId.get(selectedEntry.id) ?? []
+    const top = applyReviewOptions(all, reviewOptions).slice(0, 4)
+    // A review opened from search stays listed even outside the top four
+    const pinned = pinnedReviewKey ? all.find(review => review.key === pinnedReviewKey) : undefined
+    return pinned && !top.includes(pinned) ? [pinned, ...top] : top
+  }, [selectedEntry, reviewsByEntryId, pinnedReviewKey, reviewOptions])
+
+  // MCU-wide share of extreme ratings, the baseline for spotting bursts
+  const baselineShares = useMemo(() => ratingShares(reviews), [reviews])
+
+  const selectedDrift = useMemo(() => {
+    const entryReviews = selectedEntry ? reviewsByEntryId.get(selectedEntry.id) ?? [] : []
+    if (!selectedEntry || entryReviews.length === 0) return null
+    // Show reviews cover the whole series, so time runs from its first season
+    const release = registry.titleOfReview(entryReviews[0])?.releaseDate ?? selectedEntry.releaseDate
+    return ratingDrift(entryReviews, release, baselineShares)
+  }, [selectedEntry, reviewsByEntryId, registry, baselineShares])
+
+  const selectedDistribution = useMemo(
+    () => (selectedEntry ? ratingDistribution(reviewsByEntryId.get(selectedEntry.id) ?? [], selectedEntry.rating) : null),
+    [selectedEntry, reviewsByEntryId]
+  )
+
+  const openReview = (review: Review) => {
+    const title = registry.titleOfReview(review)
+    setSearchOpen(false)
+    if (!title) return
+
+    if (title.id === selectedEntry?.id && title.year === currentYear) {
+      setExpandedReviewKey(review.key)
+      setPinnedReviewKey(review.key)
+      return
+    }
+    pendingReviewKey.current = review.key
+    setSelectedYear(title.year)
+    setSelectedEntryId(title.id)
+  }
+
+  useEffect(() => {
+    if (!focus) return
+    const entry = entries.find(e => e.id === focus.titleId)
+    if (!entry) return
+    setSelectedYear(entry.year)
+    setSelectedEntryId(entry.id)
+  }, [focus, entries])
 
   const moviesOnly = useMemo(
     () => entries.filter(entry => entry.mediaType === 'movie'),
@@ -576,15 +665,27 @@ export default function McuExplorationDashboard() {
     return out
   }, [moviesOnly, minYear, maxYear])
 
+  // Exactly what the dashboard shows: this year's releases, both mini-chart series and the listed reviews
+  const exportSnapshot = () =>
+    dashboardSnapshot({
+      year: currentYear,
+      entries: yearEntries,
+      selectedEntry,
+      ratingSeries: ratingData,
+      profitSeries: profitData,
+      reviews: selectedReviews,
+      reviewOptions,
+      money,
+      profit
+    })
+
+  const moneyNote = profit.kind === 'money' && money.mode === 'real' ? ` (${money.unit})` : ''
+  const profitTitle = `Average MCU Movie ${profit.name} over Years${moneyNote}`
+  const formatProfit = (value: number | null) =>
+    profit.kind === 'money' ? formatRevenue(value) : value == null ? 'N/A' : formatRatio(value)
+
   const yearSpan = Math.max(1, maxYear - minYear)
-  const phaseColors: Record<Phase, string> = {
-    1: '#1f77b4',
-    2: '#ff7f0e',
-    3: '#2ca02c',
-    4: '#d62728',
-    5: '#9467bd',
-    6: '#8c564b'
-  }
+  const phaseColors = palette.phase
 
   const phaseRanges = useMemo(() => {
     const phases = ([1, 2, 3, 4, 5, 6] as Phase[])
@@ -625,23 +726,32 @@ export default function McuExplorationDashboard() {
   const timelineWidth = (ratio: number) =>
     `calc(${(ratio * 100).toFixed(6)}% - ${(2 * TIMELINE_SIDE_PADDING * ratio).toFixed(3)}px)`
 
+  // The year's most severe annotated movie; ties go to the earlier release
   const selectedTimelineHighlight = useMemo(() => {
-    const preferredTitle = YEAR_HIGHLIGHT_TITLE[currentYear]
-    if (preferredTitle) {
-      const preferred = entries.find(entry => entry.year === currentYear && entry.title === preferredTitle)
-      if (preferred) return preferred
-    }
-    return entries.find(entry => entry.year === currentYear && entry.important && entry.mediaType === 'movie') ?? null
+    const candidates = entries.filter(entry => entry.year === currentYear && entry.important && entry.mediaType === 'movie')
+    return candidates.reduce<Entry | null>(
+      (best, entry) =>
+        !best || SEVERITY_RANK[entry.severity ?? 'low'] > SEVERITY_RANK[best.severity ?? 'low'] ? entry : best,
+      null
+    )
   }, [currentYear, entries])
 
   const selectedTimelineMessage = YEAR_TIMELINE_MESSAGE[currentYear] ?? null
-  const fantasticFourEntry = useMemo(
-    () => entries.find(entry => entry.title === 'The Fantastic 4: First Steps') ?? null,
-    [entries]
-  )
+  const fantasticFourEntry = useMemo(() => {
+    const id = registry.resolve('The Fantastic 4: First Steps')?.id
+    return entries.find(entry => entry.id === id) ?? null
+  }, [entries, registry])
   const timelineMarkers = useMemo(() => {
     const byYear = d3.group(entries, entry => entry.year)
-    const out: Array<{ id: string; title: string; mediaType: MediaType; ratio: number; stackUnit: number }> = []
+    const out: Array<{
+      id: string
+      title: string
+      mediaType: MediaType
+      phase: Phase
+      year: number
+      ratio: number
+      stackUnit: number
+    }> = []
 
     for (let year = minYear; year <= maxYear; year++) {
       const list = (byYear.get(year) ?? []).slice().sort((a, b) => a.releaseDate.getTime() - b.releaseDate.getTime())
@@ -653,6 +763,8 @@ export default function McuExplorationDashboard() {
           id: entry.id,
           title: entry.title,
           mediaType: entry.mediaType,
+          phase: entry.phase,
+          year,
           ratio: (year - minYear) / yearSpan,
           stackUnit: index + 1
         })
@@ -663,6 +775,8 @@ export default function McuExplorationDashboard() {
           id: entry.id,
           title: entry.title,
           mediaType: entry.mediaType,
+          phase: entry.phase,
+          year,
           ratio: (year - minYear) / yearSpan,
           stackUnit: movies.length + TIMELINE_TYPE_GAP_UNITS + (index + 1)
         })
@@ -706,7 +820,8 @@ export default function McuExplorationDashboard() {
         boxSizing: 'border-box',
         display: 'grid',
         gridTemplateRows: 'auto 1fr',
-        gap: 12
+        gap: 12,
+        position: 'relative'
       }}
     >
       <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start', gap: 16 }}>
@@ -716,8 +831,48 @@ export default function McuExplorationDashboard() {
             Click, hold and slide the black dot through the MCU timeline, inspect year-by-year rating and profit trends, and click any movie or show released in the selected year at Poster Gallery to view the details.
           </div>
         </div>
+        <div style={{ display: 'flex', gap: 8 }}>
+          <DashboardExportMenu snapshot={exportSnapshot} fileName={`mcu-dashboard-${currentYear}`} />
+          <button
+            type="button"
+            onClick={() => setSearchOpen(true)}
+            style={{
+              cursor: 'pointer',
+              border: '1px solid rgba(0,0,0,0.18)',
+              borderRadius: 10,
+              background: 'rgba(0,0,0,0.85)',
+              color: 'white',
+              padding: '7px 12px',
+              fontSize: 12,
+              fontWeight: 700,
+              whiteSpace: 'nowrap'
+            }}
+          >
+            Search reviews
+          </button>
+        </div>
       </div>
 
+      {searchOpen ? (
+        <div
+          style={{
+            position: 'absolute',
+            inset: 20,
+            zIndex: 30,
+            border: '1px solid #e6e6e6',
+            borderRadius: 18,
+            background: '#fff',
+            padding: 16,
+            boxShadow: '0 16px 40px rgba(0,0,0,0.14)',
+            display: 'flex',
+            flexDirection: 'column',
+            minHeight: 0
+          }}
+        >
+          <ReviewSearch onOpenReview={openReview} onClose={() => setSearchOpen(false)} />
+        </div>
+      ) : null}
+
         <div
           style={{
             display: 'grid',
@@ -828,18 +983,22 @@ export default function McuExplorationDashboard() {
               ) : null}
 
               {timelineMarkers.map(marker => {
-                const isHovered = hoveredTimelineMarkerId === marker.id
+                const markerEmphasis = emphasis(marker)
+                const isHovered = markerEmphasis === 'hovered'
+                const isPicked = markerEmphasis === 'selected'
                 return (
                 <div
                   key={marker.id}
+                  // Hover-only preview; the slider and the poster gallery reach the same titles
+                  aria-hidden
                   onMouseEnter={event => {
-                    setHoveredTimelineMarkerId(marker.id)
+                    dispatchCrossFilter({ type: CROSS_FILTER_ACTIONS.HOVER, titleId: marker.id, year: marker.year })
                     updateTimelineHover(event, marker.title)
                   }}
                   onMouseMove={event => updateTimelineHover(event, marker.title)}
                   onMouseLeave={() => {
                     setTimelineHover(null)
-                    setHoveredTimelineMarkerId(null)
+                    dispatchCrossFilter({ type: CROSS_FILTER_ACTIONS.HOVER, titleId: null, year: null })
                   }}
                   style={{
                     position: 'absolute',
@@ -850,13 +1009,14 @@ export default function McuExplorationDashboard() {
                     height: 12,
                     borderRadius: marker.mediaType === 'movie' ? '50%' : 0,
                     clipPath: marker.mediaType === 'show' ? 'polygon(50% 0%, 0% 100%, 100% 100%)' : undefined,
-                    background: '#FFCC00',
-                    border: `${isHovered ? 1.4 : 1}px solid rgba(0,0,0,0.78)`,
+                    background: palette.title,
+                    border: `${isHovered || isPicked ? 2 : 1}px solid rgba(0,0,0,0.78)`,
                     boxShadow: isHovered ? '0 5px 12px rgba(0,0,0,0.35)' : 'none',
                     boxSizing: 'border-box',
+                    opacity: markerEmphasis === 'dimmed' ? 0.3 : 1,
                     zIndex: isHovered ? 11 : 8,
                     cursor: 'pointer',
-                    transition: 'transform 120ms ease, box-shadow 120ms ease, border-width 120ms ease'
+                    transition: 'transform 120ms ease, box-shadow 120ms ease, border-width 120ms ease, opacity 120ms ease'
                   }}
                 />
                 )
@@ -954,6 +1114,7 @@ export default function McuExplorationDashboard() {
                     </div>
                     <div style={{ fontSize: 11, color: 'rgba(0,0,0,0.58)', marginBottom: 6 }}>
                       Phase {selectedTimelineHighlight.phase} • {selectedTimelineHighlight.year}
+                      {selectedTimelineHighlight.category ? ` • ${CATEGORY_LABELS[selectedTimelineHighlight.category]}` : ''}
                     </div>
                     <div style={{ fontSize: 11, lineHeight: 1.3, color: 'rgba(0,0,0,0.74)' }}>
                       {selectedTimelineHighlight.note}
@@ -985,7 +1146,7 @@ export default function McuExplorationDashboard() {
                       width: 10,
                       height: 10,
                       borderRadius: '50%',
-                      background: '#FFCC00',
+                      background: palette.title,
                       border: '1px solid rgba(0,0,0,0.72)',
                       display: 'inline-block'
                     }}
@@ -997,7 +1158,7 @@ export default function McuExplorationDashboard() {
                     style={{
                       width: 10,
                       height: 10,
-                      background: '#FFCC00',
+                      background: palette.title,
                       border: '1px solid rgba(0,0,0,0.72)',
                       clipPath: 'polygon(50% 0%, 0% 100%, 100% 100%)',
                       display: 'inline-block'
@@ -1015,6 +1176,8 @@ export default function McuExplorationDashboard() {
                 step={1}
                 value={currentYear}
                 onChange={event => setSelectedYear(Number(event.target.value))}
+                aria-label="Selected year"
+                aria-valuetext={`${currentYear}, ${yearEntries.length} release${yearEntries.length === 1 ? '' : 's'}`}
                 style={{
                   position: 'absolute',
                   left: TIMELINE_SIDE_PADDING - TIMELINE_THUMB_SIZE / 2,
@@ -1033,21 +1196,31 @@ export default function McuExplorationDashboard() {
           </div>
 
           <div style={{ display: 'grid', gridTemplateRows: 'minmax(0, 1fr) minmax(0, 1fr)', gap: 12, minHeight: 0 }}>
-            <MetricChart
-              title="Average IMDb Rating for MCU Movie over Years"
-              data={ratingData}
-              selectedYear={currentYear}
-              formatter={formatRating}
-              stroke="#111"
-              yDomainMode="tight"
-            />
-            <MetricChart
-              title="Average MCU Movie Profit over Years"
-              data={profitData}
-              selectedYear={currentYear}
-              formatter={formatRevenue}
-              stroke="#d62828"
-            />
+            <ExportableChart name="dashboard-average-rating" title="Average IMDb Rating for MCU Movie over Years" sources={['tmdb']}>
+              <MetricChart
+                title="Average IMDb Rating for MCU Movie over Years"
+                data={ratingData}
+                selectedYear={currentYear}
+                formatter={formatRating}
+                stroke="#111"
+                yDomainMode="tight"
+              />
+            </ExportableChart>
+            {/* Keyed by title so the suggested export title follows the profit model */}
+            <ExportableChart
+              key={profitTitle}
+              name="dashboard-average-profit"
+              title={profitTitle}
+              sources={['tmdb']}
+            >
+              <MetricChart
+                title={profitTitle}
+                data={profitData}
+                selectedYear={currentYear}
+                formatter={formatProfit}
+                stroke={palette.accent}
+              />
+            </ExportableChart>
           </div>
         </div>
 
@@ -1082,14 +1255,21 @@ export default function McuExplorationDashboard() {
               <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fill, minmax(110px, 1fr))', gap: 12, overflowY: 'auto', paddingRight: 4 }}>
                 {yearEntries.map(entry => {
                   const active = selectedEntry?.id === entry.id
+                  const entryEmphasis = emphasis(entry)
                   return (
                     <button
                       key={entry.id}
                       onClick={() => setSelectedEntryId(entry.id)}
+                      onMouseEnter={() =>
+                        dispatchCrossFilter({ type: CROSS_FILTER_ACTIONS.HOVER, titleId: entry.id, year: entry.year })
+                      }
+                      onMouseLeave={() => dispatchCrossFilter({ type: CROSS_FILTER_ACTIONS.HOVER, titleId: null, year: null })}
                       style={{
                         border: active ? '2px solid #111' : '1px solid rgba(0,0,0,0.12)',
                         borderRadius: 14,
                         background: active ? 'rgba(0,0,0,0.04)' : '#fafafa',
+                        boxShadow: entryEmphasis === 'hovered' || entryEmphasis === 'selected' ? `0 0 0 3px ${palette.highlight}` : 'none',
+                        opacity: entryEmphasis === 'dimmed' ? 0.45 : 1,
                         padding: 8,
                         cursor: 'pointer',
                         textAlign: 'left'
@@ -1185,7 +1365,11 @@ export default function McuExplorationDashboard() {
                       <div style={{ fontSize: 13 }}><strong>Release date:</strong> {selectedEntry.releaseDate.toLocaleDateString()}</div>
                       <div style={{ fontSize: 13 }}><strong>IMDb rating:</strong> {formatRating(selectedEntry.rating)}</div>
                       <div style={{ fontSize: 13 }}><strong>Revenue:</strong> {selectedEntry.mediaType === 'movie' ? formatRevenue(selectedEntry.revenue) : 'N/A'}</div>
-                      <div style={{ fontSize: 13 }}><strong>Profit:</strong> {selectedEntry.mediaType === 'movie' ? formatRevenue(selectedEntry.profit) : 'N/A'}</div>
+                      <div style={{ fontSize: 13 }}><strong>Budget:</strong> {selectedEntry.mediaType === 'movie' ? formatRevenue(selectedEntry.budget) : 'N/A'}</div>
+                      <div style={{ fontSize: 13 }}><strong>{profit.name}:</strong> {selectedEntry.mediaType === 'movie' ? formatProfit(selectedEntry.profit) : 'N/A'}</div>
+                      {selectedEntry.mediaType === 'movie' && money.mode === 'real' ? (
+                        <div style={{ fontSize: 11, color: 'rgba(0,0,0,0.55)' }}>Amounts in {money.baseYear} dollars</div>
+                      ) : null}
                     </div>
                   </div>
 
@@ -1194,6 +1378,32 @@ export default function McuExplorationDashboard() {
                       {selectedEntry.overview}
                     </div>
                   ) : null}
+
+                  {selectedDistribution && selectedDistribution.rated > 0 ? (
+                    <ExportableChart
+                      key={selectedEntry.id}
+                      name={`${selectedEntry.id}-review-ratings`}
+                      title={`Review Ratings: ${selectedEntry.title}`}
+                      sources={['reviews', 'tmdb']}
+                    >
+                      <RatingDistributionChart
+                        distribution={selectedDistribution}
+                        imdbRating={selectedEntry.rating}
+                        seriesWide={selectedEntry.mediaType === 'show'}
+                      />
+                    </ExportableChart>
+                  ) : null}
+
+                  {selectedDrift && selectedDrift.points.length > 0 ? (
+                    <ExportableChart
+                      key={selectedEntry.id}
+                      name={`${selectedEntry.id}-ratings-since-release`}
+                      title={`Ratings Since Release: ${selectedEntry.title}`}
+                      sources={['reviews']}
+                    >
+                      <RatingDriftChart drift={selectedDrift} seriesWide={selectedEntry.mediaType === 'show'} />
+                    </ExportableChart>
+                  ) : null}
                 </div>
               ) : (
                 <div style={{ fontSize: 14, color: 'rgba(0,0,0,0.6)' }}>No release is available for the selected year.</div>
@@ -1213,21 +1423,25 @@ export default function McuExplorationDashboard() {
                 minHeight: 0
               }}
             >
-              <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'baseline', gap: 8, marginBottom: 12 }}>
+              <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'baseline', gap: 8, marginBottom: 6 }}>
                 <div style={{ fontSize: 17, fontWeight: 800 }}>Top User Reviews</div>
                 <div style={{ fontSize: 11, color: 'rgba(0,0,0,0.55)' }}>Click a review to expand/collapse</div>
               </div>
+              <div style={{ marginBottom: 10 }}>
+                <ReviewListControls options={reviewOptions} onChange={setReviewOptions} />
+              </div>
               {selectedEntry ? (
                 selectedReviews.length > 0 ? (
                   <div style={{ display: 'grid', gap: 10, overflowY: 'auto', overflowX: 'hidden', paddingRight: 4 }}>
                     {selectedReviews.map((review, index) => {
-                      const key = reviewKey(review)
+                      const key = review.key
                       const expanded = expandedReviewKey === key
                       return (
                       <button
                         type="button"
                         onClick={() => setExpandedReviewKey(expanded ? null : key)}
                         key={`${key}-${index}`}
+                        data-review-key={key}
                         style={{
                           cursor: 'pointer',
                           border: '1px solid rgba(0,0,0,0.1)',
@@ -1243,7 +1457,7 @@ export default function McuExplorationDashboard() {
                           minHeight: expanded ? 260 : 170
                         }}
                       >
-                        <div style={{ fontSize: 13, fontWeight: 800, overflowWrap: 'anywhere', wordBreak: 'break-word' }}>{review.title || 'Untitled review'}</div>
+                        <div style={{ fontSize: 13, fontWeight: 800, overflowWrap: 'anywhere', wordBreak: 'break-word' }}>{review.reviewTitle || 'Untitled review'}</div>
                         <div style={{ fontSize: 12, color: 'rgba(0,0,0,0.55)', margin: '4px 0 6px', display: 'flex', flexWrap: 'wrap', gap: 8 }}>
                           <span>{review.author}</span>
                           <span>•</span>
@@ -1290,7 +1504,9 @@ export default function McuExplorationDashboard() {
                   </div>
                 ) : (
                   <div style={{ fontSize: 13, color: 'rgba(0,0,0,0.6)' }}>
-                    No review data is available for this title.
+                    {(reviewsByEntryId.get(selectedEntry.id) ?? []).length > 0
+                      ? 'No reviews match these filters.'
+                      : 'No review data is available for this title.'}
                   </div>
                 )
               ) : (
@@ -1349,6 +1565,28 @@ export default function McuExplorationDashboard() {
           box-shadow: 0 0 0 3px rgba(17,17,17,0.18);
           background: #2b2b2b;
         }
+
+        .timeline-slider:focus {
+          outline: none;
+        }
+
+        .timeline-slider:focus-visible::-webkit-slider-thumb {
+          box-shadow: 0 0 0 3px #1565c0;
+        }
+
+        .timeline-slider:focus-visible::-moz-range-thumb {
+          box-shadow: 0 0 0 3px #1565c0;
+        }
+
+        @media (prefers-reduced-motion: reduce) {
+          .timeline-slider::-webkit-slider-thumb {
+            transition: none;
+          }
+
+          .timeline-slider::-moz-range-thumb {
+            transition: none;
+          }
+        }
       `}</style>
     </div>
   )
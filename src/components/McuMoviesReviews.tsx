@@ -1,82 +1,115 @@
-import { useEffect, useState, useRef} from "react";
+import { useEffect, useMemo, useState, useRef} from "react";
 import * as d3 from "d3";
 import { useResizeObserver, useDebounceCallback } from "usehooks-ts";
-import { ComponentSize, Margin } from "../types";
-import { filter } from "lodash";
+import { ComponentSize, Margin, MediaFilter, MediaType } from "../types";
+import { useMcuData } from "../stores/McuData";
+import { applyReviewOptions, DEFAULT_REVIEW_OPTIONS, REVIEW_SORT_LABELS, ReviewListOptions } from "../data/reviewList";
+import ReviewListControls from "./ReviewListControls";
+import MediaFilterToggle from "./MediaFilterToggle";
+import { splitSeason } from "../data/registry";
+import { useCrossFilter } from "../stores/CrossFilter";
+import { CROSS_FILTER_ACTIONS } from "../stores/Reducer";
 
+type Season = {
+    label: string;
+    releaseYear: number;
+    imdbAverageRating: number | null;
+};
+
+// A movie, or a show series with its seasons grouped underneath
 type Movie = {
     id: string;
     title: string;
-    releaseYear: number;
+    mediaType: MediaType;
+    releaseYears: number[];
     imdbAverageRating: number;
     numberVotes: number;
+    seasons: Season[];
 };
 
 type Review = {
     movie: string;
-    imdbId: string;
+    movieId: string | null;
     author: string;
     date: string;
     reviewRating: number;
     reviewTitle: string;
     review: string;
-    likes: string;
-    dislikes: string;
+    likes: number;
+    dislikes: number;
 };
 
-export default function McuMoviesReviews({ selectedReviewsYear }) {
+// One-off specials and single-season shows have no "| Season N" suffix
+function seasonLabel(title: string) {
+    const { season } = splitSeason(title);
+    return season == null ? "Released" : `Season ${season}`;
+}
+
+const PANEL_TITLES: Record<MediaFilter, string> = {
+    movie: "MCU Movies IMDB Reviews",
+    show: "MCU Shows IMDB Reviews",
+    both: "MCU Movies and Shows IMDB Reviews"
+};
+
+const REVIEWS_PER_MOVIE = 8;
+
+export default function McuMoviesReviews() {
     const reviewsRef = useRef<HTMLDivElement> (null);
+    // Movies whose reviews are open, so changing the sort or filters doesn't collapse them
+    const openMovieIds = useRef<Set<string>>(new Set());
     const margin: Margin = { top: 60, right: 40, bottom: 40, left: 60 };
     const [size, setSize] = useState<ComponentSize>({width: 0, height: 0});
     const onResize = useDebounceCallback((size: ComponentSize) => setSize(size), 200);
-    const [movies, setMovies] = useState<Movie[]>([]);
-    const [reviews, setReviews] = useState<Review[]>([]);
+    const { movies: mcuMovies, shows: mcuShows, reviews: mcuReviews, registry } = useMcuData();
+    const { selection, dispatch } = useCrossFilter();
+    const selectedReviewsYear = selection.year;
+    const mediaFilter = selection.mediaFilter;
     const [filteredMovies, setFilteredMoves] = useState<Movie[]>([]);
     const [filteredReviews, setFilteredReviews] = useState<Review[]>([]);
+    const [reviewOptions, setReviewOptions] = useState<ReviewListOptions>(DEFAULT_REVIEW_OPTIONS);
 
     useResizeObserver({ ref: reviewsRef as React.RefObject<HTMLDivElement>, onResize });
     
-    useEffect(() => {
-        const loadData = async () => {
-            const movieData = (await d3.csv("./data/marvel_movies_tmdb.csv"))
-            .sort((a, b) => new Date(a.release_date) - new Date(b.release_date));
-            const reviewData = await d3.csv("./data/marvel_movies_imdb_reviews.csv");
-            let parsedMovies: Movie[] = [];
-            let parsedReviews: Review[] = [];
-            for (const movie of movieData) {
-                if (movie.title == "The Incredible Hulk") {
-                  continue;
-                }
-                const parsedMovie: Movie = {
-                    id: movie.id,
-                    title: movie.title,
-                    releaseYear: Number(movie.release_date.split("-")[0]),
-                    imdbAverageRating: Number(movie.imdb_average_rating),
-                    numberVotes: Number(movie.imdb_vote_count),
-                }
-                parsedMovies.push(parsedMovie);
-            }
-
-            for (const review of reviewData) {
-                const parsedReview: Review = {
-                    movie: review.title,
-                    imdbId: review.imdb_id,
-                    author: review.author,
-                    date: review.date,
-                    reviewRating: Number(review.review_rating),
-                    reviewTitle: review.review_title,
-                    review: review.review,
-                    likes: review.likes,
-                    dislikes: review.dislikes,
-                }
-                parsedReviews.push(parsedReview)
+    const movies: Movie[] = useMemo(() => {
+        let items: Movie[] = [];
+        if (mediaFilter != "show") {
+            items = items.concat(mcuMovies.map((movie) => ({
+                id: movie.id,
+                title: movie.title,
+                mediaType: "movie" as const,
+                releaseYears: [movie.year],
+                imdbAverageRating: movie.rating ?? 0,
+                numberVotes: movie.voteCount ?? 0,
+                seasons: [],
+            })));
+        }
+        if (mediaFilter != "movie") {
+            // Reviews are scraped per series, so seasons share one card keyed by the first season
+            for (const seasons of d3.group(mcuShows, (show) => registry.seriesOf(show)).values()) {
+                const first = seasons[0];
+                items.push({
+                    id: first.id,
+                    title: registry.seriesOf(first),
+                    mediaType: "show",
+                    releaseYears: seasons.map((season) => season.year),
+                    imdbAverageRating: first.rating ?? 0,
+                    numberVotes: d3.sum(seasons, (season) => season.voteCount ?? 0),
+                    seasons: seasons.map((season) => ({
+                        label: seasonLabel(season.title),
+                        releaseYear: season.year,
+                        imdbAverageRating: season.rating,
+                    })),
+                });
             }
-            setMovies(parsedMovies);
-            setReviews(parsedReviews);
-        };
+        }
+        return items;
+    }, [mcuMovies, mcuShows, registry, mediaFilter]);
 
-        loadData();
-    }, []);
+    // Rated reviews, grouped by movie (or first season) id; sorting and filtering happen per card below
+    const reviewsByMovie = useMemo(() => d3.group(
+        mcuReviews.filter((review) => (mediaFilter == "both" || review.mediaType == mediaFilter) && !!review.rating),
+        (review) => registry.titleOfReview(review)?.id ?? null
+    ), [mcuReviews, registry, mediaFilter]);
 
     useEffect(() => {
         if (selectedReviewsYear == null) {
@@ -84,54 +117,61 @@ export default function McuMoviesReviews({ selectedReviewsYear }) {
             setFilteredReviews([]);
         }
         else {
-            const moviesFromSelectedYear = movies.filter((movie) => movie.releaseYear == selectedReviewsYear)
-            .sort((a, b) => a.releaseYear - b.releaseYear);
-            const movieTitles = moviesFromSelectedYear.map((movie) => movie.title);
+            const moviesFromSelectedYear = movies.filter((movie) => movie.releaseYears.includes(selectedReviewsYear));
 
             let allFilteredReviews: Review[] = []
-            for (const title of movieTitles) {
-                let movieFilteredReviews = reviews.filter((review) => review.movie == title && review.reviewRating != 0);
-                if (movieFilteredReviews.length > 8) {
-                    allFilteredReviews = allFilteredReviews.concat(movieFilteredReviews.slice(0, 8));
-                }
-                else {
-                    allFilteredReviews = allFilteredReviews.concat(movieFilteredReviews);
-                }
+            for (const movie of moviesFromSelectedYear) {
+                const movieFilteredReviews = applyReviewOptions(reviewsByMovie.get(movie.id) ?? [], reviewOptions)
+                .slice(0, REVIEWS_PER_MOVIE)
+                .map((review) => ({
+                    movie: review.title,
+                    movieId: movie.id,
+                    author: review.author,
+                    date: review.date,
+                    reviewRating: review.rating ?? 0,
+                    reviewTitle: review.reviewTitle,
+                    review: review.body,
+                    likes: review.likes,
+                    dislikes: review.dislikes,
+                }));
+                allFilteredReviews = allFilteredReviews.concat(movieFilteredReviews);
             }
             setFilteredMoves(moviesFromSelectedYear);
             setFilteredReviews(allFilteredReviews)
         }
-    }, [selectedReviewsYear])
+    }, [selectedReviewsYear, movies, reviewsByMovie, reviewOptions])
 
     useEffect(() => {
         if (size.width == 0 || size.height == 0) {
           return;
         }
 
+        d3.select("#reviews-section-header").selectAll("*").remove();
         d3.select("#reviews-section-containter").selectAll("*").remove();
 
         generateReviews();
     }, [filteredMovies, filteredReviews, size])
 
     function generateReviews() {
+        const header = d3.select("#reviews-section-header");
         const container = d3.select("#reviews-section-containter");
-        let title = "MCU Movies IMDB Reviews";
+        let title = PANEL_TITLES[mediaFilter];
         if (selectedReviewsYear != null) {
-            title = `${selectedReviewsYear} MCU Movies IMDB Reviews`;
+            title = `${selectedReviewsYear} ${PANEL_TITLES[mediaFilter]}`;
         }
         // Add title
-        container.append("div")
+        header.append("div")
         .attr("id", "reviews-title")
         .style("text-anchor", "middle")
         .style("font-size", '15px')
         .style("font-weight", 900)
         .text(title);
 
-        container.append("div")
+        header.append("div")
         .style("font-size", "11px")
         .style("color", "rgba(0, 0, 0, 0.62)")
-        .html(`Click a dot on ratings or profit line chart to view the movies released that year. 
-            Click a movie to display the top voted IMDB reviews for that movie.
+        .html(`Click a dot on ratings or profit line chart to view the titles released that year. 
+            Click a title to display up to ${REVIEWS_PER_MOVIE} of its IMDB reviews, ${REVIEW_SORT_LABELS[reviewOptions.sort].toLowerCase()} first.
             Click a review to display the body of the review.`
         )
 
@@ -162,24 +202,32 @@ export default function McuMoviesReviews({ selectedReviewsYear }) {
         .style("box-shadow", "0 1px 4px rgba(0, 0, 0, 0.04)")
         .style("display", "block")
         .style("font-size", '13px')
-        .html((dataPoint) => `<strong>${dataPoint.title}</strong>
-        <br/>
-        Rating: <strong>${dataPoint.imdbAverageRating}/10</strong>
-        `)
+        .html((dataPoint) => dataPoint.mediaType == "movie"
+            ? `<strong>${dataPoint.title}</strong>
+            <br/>
+            Rating: <strong>${dataPoint.imdbAverageRating}/10</strong>
+            `
+            : `<strong>${dataPoint.title}</strong>
+            <span style = "margin-left: 8px; font-size: 11px; color: rgba(0, 0, 0, 0.55)">TV series</span>
+            ${dataPoint.seasons.map((season) => `<br/>
+            <span style = "${season.releaseYear == selectedReviewsYear ? "font-weight: 700" : ""}">${season.label} (${season.releaseYear}): <strong>${season.imdbAverageRating ?? "N/A"}/10</strong></span>`).join("")}
+            `)
         .on("mouseover", function(event) {
             d3.select(this)
             .style("cursor", "pointer");
         })
         // Toggle if review titles are shown
-        .on("click", function(event) {
+        .on("click", function(event, dataPoint) {
             const reviewTitlesContainer = d3.select(this).select(".movie-review-titles-container");
             if (reviewTitlesContainer.style("display") == "none") {
+                openMovieIds.current.add(dataPoint.id);
                 reviewTitlesContainer.raise();
                 reviewTitlesContainer
                 .style("gap", "12px")
                 .style("display", "flex");  
             }
             else {
+                openMovieIds.current.delete(dataPoint.id);
                 reviewTitlesContainer.lower();
                 reviewTitlesContainer.style("display", "none"); 
             }
@@ -187,8 +235,8 @@ export default function McuMoviesReviews({ selectedReviewsYear }) {
         
         // Loop through each movie block
         for (const element of movieElements) {
-            const title = d3.select(element).data()[0]["title"];
-            const movieReviews = filteredReviews.filter((review) => review.movie == title);
+            const movieId = d3.select(element).data()[0]["id"];
+            const movieReviews = filteredReviews.filter((review) => review.movieId == movieId);
             // Container for review title blocks
             const reviewTitlesContainers = d3.select(element)        
             .append("div")
@@ -198,8 +246,16 @@ export default function McuMoviesReviews({ selectedReviewsYear }) {
             .style("overflow-y", "auto")
             .style("flex-direction", "column")
             .style("margin-top", "10px")
-            .style("display", "none")
+            .style("gap", "12px")
+            .style("display", openMovieIds.current.has(movieId) ? "flex" : "none")
             
+            if (movieReviews.length == 0) {
+                reviewTitlesContainers.append("div")
+                .style("font-size", "12px")
+                .style("color", "rgba(0, 0, 0, 0.6)")
+                .text("No reviews match these filters.");
+            }
+
             // Create review title block for each review
             const reviewTitleElements = reviewTitlesContainers.selectAll("div.review-title-item")
             .data(movieReviews)
@@ -249,7 +305,14 @@ export default function McuMoviesReviews({ selectedReviewsYear }) {
 
     return (
       <>
-          <div ref = {reviewsRef} id = "reviews-section-containter" style = {{width: "100%", height: "100%", display: "flex", flexDirection: "column", gap: "6px"}}>
+          <div style = {{width: "100%", height: "100%", display: "flex", flexDirection: "column", gap: "6px"}}>
+              <div id = "reviews-section-header"></div>
+              <div style = {{display: "flex", flexWrap: "wrap", alignItems: "center", justifyContent: "space-between", gap: "6px"}}>
+                  <ReviewListControls options = {reviewOptions} onChange = {setReviewOptions} />
+                  <MediaFilterToggle value = {mediaFilter} onChange = {(value) => dispatch({ type: CROSS_FILTER_ACTIONS.SET_MEDIA_FILTER, mediaFilter: value })} />
+              </div>
+              <div ref = {reviewsRef} id = "reviews-section-containter" style = {{width: "100%", flex: 1, minHeight: 0, display: "flex", flexDirection: "column", gap: "6px"}}>
+              </div>
           </div>
       </>
   )
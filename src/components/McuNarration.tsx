@@ -1,299 +1,112 @@
-function introduction() {
+import { NarrationSection } from "../types";
+import { NarrationBlock, NarrationInline } from "../data/narration";
+import { NARRATION_DOCS, NARRATION_SOURCES, NarrationContentKeys } from "../data/narrationContent";
+import { ClaimKey, NARRATION_CLAIMS, NARRATION_VALUES, ValueKey } from "../data/narrationFacts";
+import { useMcuData } from "../stores/McuData";
+import { useCrossFilter } from "../stores/CrossFilter";
+import { CROSS_FILTER_ACTIONS } from "../stores/Reducer";
+import { useStoryStep } from "../stores/Scrollytelling";
+
+// Hovering a title in the text lights it up in every chart, like hovering its dot
+function TitleReference({reference}: {reference: string}) {
+    const { registry } = useMcuData();
+    const { dispatch } = useCrossFilter();
+    const title = registry.resolve(reference);
+
+    if (!title) {
+        return <cite>{reference}</cite>;
+    }
     return (
-        <div style = {{paddingLeft: "140px", paddingRight: "140px"}}>
-            <p style = {{marginTop: "10px"}}>
-                The MCU’s rise occurred during Phase 1 through Phase 3, spanning from 2008 to 2019 and peaking with <cite>Avengers: Endgame</cite> in 2019. 
-                Since the start of Phase 4 in 2021, however, the MCU has shown signs of decline. To understand this shift, we first analyze the financial and structural factors that contributed to the MCU’s early success. 
-                We then examine recent trends to explain why the performance of MCU movies has weakened in recent years.
-            </p>
-        </div>
-    )
+        <cite
+            className = "mcu-narration-title"
+            onMouseEnter = {() => dispatch({type: CROSS_FILTER_ACTIONS.HOVER, titleId: title.id, year: title.year})}
+            onMouseLeave = {() => dispatch({type: CROSS_FILTER_ACTIONS.HOVER, titleId: null, year: null})}
+        >
+            {reference}
+        </cite>
+    );
 }
 
-function introAboveTimeline() {
-    return (
-        <div style = {{paddingLeft: "140px", paddingRight: "140px"}}>
-            <p style = {{marginTop: "0px"}}>
-                For over a decade, the Marvel Cinematic Universe (MCU) dominated blockbuster cinema. From the release of <cite>Iron Man</cite> in 2008 to <cite>Avengers: Endgame</cite> in 2019, 
-                Marvel built an interconnected franchise that was not only financially successful but also culturally influential. 
-                However, in recent years, many audiences have begun asking: “Is the MCU falling off?” While discussions about the MCU’s decline often mention box office numbers, 
-                inconsistent ratings, and “superhero fatigue,” these claims are frequently based on personal opinions rather than systematic analysis.
-                <br /><br />
-                To better understand whether the MCU is truly declining and why it may feel that way, we analyze data from both the rise and the recent fall of the MCU. 
-                By examining financial performance, release patterns, and structural changes in the franchise, we can evaluate whether these perceptions are supported by concrete evidence.
-                <br /><br />
-                The timeline below provides an overview of MCU movies released from 2008 to 2026. Important films are highlighted with annotations, and each movie is categorized by the MCU phaseit belongs to. 
-                Phases are what Marvel uses to organize their movies based on the stages of the storyline.
-                
-            </p>
-        </div>
-    )
+function FactValue({valueKey}: {valueKey: ValueKey}) {
+    const data = useMcuData();
+    if (data.status !== "ready") {
+        return <span style = {{color: "rgba(0,0,0,0.4)"}}>…</span>;
+    }
+    return <>{NARRATION_VALUES[valueKey](data)}</>;
 }
 
-function RiseofMCUIntro(){
+// Dev builds only: a green or red mark after every checked claim
+function ClaimMark({claimKey}: {claimKey: ClaimKey}) {
+    const data = useMcuData();
+    if (data.status !== "ready") {
+        return null;
+    }
+    const claim = NARRATION_CLAIMS[claimKey];
+    const result = claim.check(data);
     return (
-        <div style = {{paddingLeft: "140px", paddingRight: "140px"}}>
-            <p style = {{marginTop: "0px"}}>
-                The MCU’s rise to prominence was driven by its interconnected storytelling, global appeal, and effective marketing strategies. 
-                These elements combined to create a franchise that not only attracted a large audience but also kept fans engaged across multiple movies and storylines.
-            </p>
-        </div>
-    )
+        <sup
+            className = "mcu-narration-claim"
+            style = {{color: result.ok ? "#2e7d32" : "#c62828"}}
+            title = {`${claimKey}: ${claim.statement} (${result.detail})`}
+        >
+            {result.ok ? "●" : "✗"}
+        </sup>
+    );
 }
 
-function connectionsNarration() {
-    return (
-        <div style = {{paddingLeft: "140px", paddingRight: "140px"}}>
-            <p style = {{marginTop: "40px"}}>
-                The connections that make MCU movies stand out are the crossover and carryover relationships. Most movies tell their stories within a single film or within a small series, 
-                which is usually around three movies. Instead of limiting the story to a single series, Marvel built one large overarching narrative that spanned Phase 1 through Phase 3, covering 21 movies.
-                <br /><br />
-                This approach helped build anticipation among fans for each new release, since every movie contributed to the larger story and gradually built toward a major climax.
-                 The crossover movies, such as the Avengers films and Captain America: Civil War became some of the biggest highlights and climax of the MCU. These films bring together heroes 
-                 from different series and focus heavily on the central storyline of the universe.
-                <br /><br />
-                Carryover connections also play an important role in maintaining continuity between movies. Events, characters, or story developments from one series often continue in another series, 
-                allowing the story to progress across multiple films rather than being confined to a single franchise. A good example is the consequence of events and conflict between Iron Man and 
-                Captain America in Avengers: Age of Ultron directly leads to the story of Captain America: Civil War. Together, crossover and carryover connections help create the feeling that all 
-                MCU movies are part of the same interconnected universe.
-            </p>
-
-        </div>
-    )
+function renderInline(inline: NarrationInline<NarrationContentKeys>, key: number) {
+    switch (inline.kind) {
+        case "text":
+            return inline.text;
+        case "emphasis":
+            return <em key = {key}>{inline.text}</em>;
+        case "title":
+            return <TitleReference key = {key} reference = {inline.ref}/>;
+        case "citation":
+            return (
+                <sup key = {key} className = "mcu-narration-citation" title = {NARRATION_SOURCES[inline.source]}>
+                    [{inline.number}]
+                </sup>
+            );
+        case "value":
+            return <FactValue key = {key} valueKey = {inline.key}/>;
+        case "claim":
+            return import.meta.env.DEV ? <ClaimMark key = {key} claimKey = {inline.key}/> : null;
+    }
 }
 
-function connectionsIntroAboveChart() {
-    return (
-        <div style = {{paddingLeft: "140px", paddingRight: "140px"}}>
-            <p style = {{marginTop: "0px"}}>
-                One of the main attractions of MCU movies is their interconnected universe.
-                The timeline below displays connections between all MCU movies that have been released.
-                <br /><br />  
-                The timeline shows 3 types of connections:
-            </p>
-            <ul style = {{marginTop: "12px"}}>
-                <li>Direct sequel: The next movie in a series that continues the story of the previous movie.</li>
-                <li>Crossover: A movie where main characters from different MCU movie series appear together and play major roles in the story (mainly Avengers movies).</li>
-                <li>Carryover: A movie that continues some aspects of the story of a previous movie from a different series.</li>
+function renderBlock(block: NarrationBlock<NarrationContentKeys>, key: number) {
+    if (block.kind === "list") {
+        return (
+            <ul key = {key}>
+                {block.items.map((item, i) => <li key = {i}>{item.map(renderInline)}</li>)}
             </ul>
-            <p style = {{marginTop: "12px"}}>
-                The timeline clearly shows many connections between movies in Phase 1 to Phase 3, highlighting how tightly linked the movies are.
-                The usual type of connection, seen in all types of movies, is a direct sequel.
-                The appeal of a movie sequel is that it is a continuation of the previous movie(s) in the series, which is usually effective in bringing back audience members who enjoyed the previous movie(s).
-                Throughout Phase 1 to Phase 3, Marvel created multiple movie series for popular superheroes, like the Iron Man, Captain America, and Thor movies.
-                By creating sequels for these series, Marvel was able to continuously release movies that starred popular superheros.
-                This was an effective strategy to attract fans to watch movies, since regardless of the story or other aspects of the movie, the superhero being focused on is already a main attraction for many fans.
-            </p>
-        </div>
-    )
-}
-
-function boxOfficeNarration() {
-    return (
-        <>
-            <p>
-                A key reason for the success of MCU movies is that Marvel’s marketing strategy and movie format were effective not only in the United States but also globally. 
-                By creating blockbuster superhero films and consistently promoting them worldwide, Marvel was able to attract audiences from many different countries. 
-                This global appeal allowed MCU movies to reach a much larger audience and generate high revenues internationally.
-            </p>
-            <p style = {{marginTop: "12px"}}>
-                The stacked bar chart supports this idea by displaying, for each year from 2008 to 2019, the total revenue of the top 10 highest-grossing movies and the portion 
-                of that revenue contributed by MCU movies. Since the chart uses worldwide box office revenue, it reflects the global popularity of these films. In most of these years, 
-                MCU movies not only appeared in the top 10 but also contributed a significant portion of the total revenue. The chart also shows that the revenue contribution from MCU movies 
-                generally increased over time and peaked in 2019.
-            </p>
-        </>
-    )
-}
-
-function boxOfficeFallNarration() {
-    return (
-        <>
-            <p>
-                After 2019, the performance of MCU movies begins to decline. One major sign of this decline is the drop in the global box office performance of MCU movies. 
-                The stacked bar chart shows the contribution of MCU movies to the total revenue of the top 10 highest-grossing movies each year from 2008 to 2025.
-            </p>
-            <p style = {{marginTop: "12px"}}>
-                A key takeaway from the chart is that after Marvel’s peak in 2019, the contribution of MCU movies steadily declines in the following years. Notably, 
-                in 2023 and 2024, the contribution of MCU movies becomes relatively small, similar to the early years of the MCU. In 2025, none of the MCU movies appear 
-                in the top 10 highest-grossing films, even though three MCU movies were released that year.
-                <br /><br />
-                This drop in box office performance suggests that fewer people are paying to watch MCU movies, indicating that recent MCU films may be less appealing to audiences. 
-                In the following section, we analyze several possible reasons behind this decline, including oversaturation of Marvel content, "lack" of connection in recent Marvel stories, 
-                and inconsistent movie quality.
-            </p>
-        </>
-    )
-}
-
-function oversaturationNarration() {
-    return (
-        <>
-            <p>
-                The dot plot on the right displays all Marvel movies and TV shows released each year from 2008 to 2026. The plot highlights that after 2019, Marvel 
-                began releasing roughly double the amount of content compared to earlier years. This can be seen from the much denser distribution of dots between 2021 and 2026, 
-                which is largely due to the addition of multiple TV shows. 
-            </p>
-            <p style = {{marginTop: "12px"}}>
-                Increasing the amount of content can sometimes benefit a franchise by helping keep audiences engaged. However, in the case of the MCU, the increase in content 
-                led to an oversaturation of Marvel releases, contributing to what is often called “superhero fatigue,” where audiences become overwhelmed by the large volume of similar 
-                content and gradually lose interest.
-                <br /><br />
-                A key factor behind this effect is the contrast with earlier years of the MCU. From 2017 to 2019, only three MCU movies were released each year, with even fewer releases in earlier phases. 
-                This relatively limited number of releases made each movie feel more special and increased fans’ excitement, since audiences had to wait longer between releases. In recent years, however, 
-                the abundance of Marvel content has made each new release feel less significant, which may have contributed to the growing fatigue among audiences.
-            </p>
-        </>
-    )
-}
-
-function connectionBarriersNarration() {
-    return (
-        <div style = {{paddingLeft: "140px", paddingRight: "140px"}}>
-        
-        <p style = {{marginTop: "40px"}}>
-            Since Phase 4 began, there has only been one direct connection between two movies: a crossover between <cite>Black Widow</cite> and <cite>Thunderbolts</cite>. The lack of strong movie-to-movie connections may reduce excitement 
-            for future films, since the interconnected storyline between movies was one of the main factors that attracted audiences during the early phases of the MCU.
-        </p>
-        <p style = {{marginTop: "12px"}}>
-            In addition, Marvel’s storytelling now frequently carries across both movies and TV shows. Missing even one piece of content can make it harder for audiences to fully understand the story of a movie. 
-            For viewers who only watch MCU movies in theaters, important plot points may appear in TV shows that they have not seen, which can lead to confusion and a less enjoyable viewing experience.
-            <br /><br />
-            Combined with the large increase in Marvel content, this financial and narrative barrier makes it more difficult and time-consuming for audiences to follow the MCU storyline, 
-            which may contribute to declining interest in newer MCU movies.
-        </p>
-        </div>
-    )
-}
-
-function connectionBarriersAboveChart() {
-    return (
-        <div style = {{paddingLeft: "140px", paddingRight: "140px"}}>
-        <p style = {{marginTop: "0px"}}>
-            As mentioned earlier, one of the key factors behind the success of early MCU movies was how strongly the films were connected to one another. The timeline below shows the connections between all 
-            MCU movies and TV shows released in Phase 4 to Phase 6, categorized as direct sequels, crossovers, and carryover connections.
-        </p>
-        <p style = {{marginTop: "12px"}}>
-            In the previous connection diagram, we saw that movies in Phase 1 to Phase 3 were highly interconnected. In contrast, there are far fewer connections directly between movies 
-            in Phase 4 to Phase 6. While the diagram still shows a reasonable number of connections overall, many of them now occur between TV shows and movies rather than between movies themselves.
-            <br /><br />
-            This shift creates a barrier for audiences who want to follow the MCU storyline. Marvel’s TV shows are primarily available through Disney’s subscription service, Disney+. 
-            As a result, viewers who want to fully follow the interconnected story may need to pay for both movie tickets and a Disney+ subscription. For audiences who are only interested in Marvel content, 
-            it may be difficult to justify paying for a subscription service just to watch a small portion of its content. In this way, the expansion of MCU storytelling into TV shows introduces a financial 
-            barrier that limits some audiences’ access to the full story.
-        </p>
-        </div>
-    )
-}
-
-function inconsistencyNarration() {
-    return (
-        <div style = {{paddingLeft: "140px", paddingRight: "140px"}}>
-            <p style = {{marginTop: "12px"}}>
-                Inconsistent quality has not only affected ratings and profit but has also influenced fan perception of MCU movies. 
-                When examining the top IMDb reviews of recent MCU movies, many reviews frequently complain about the quality of the films, especially for movies with lower ratings. 
-                Common criticisms include weaker storytelling, less engaging characters, and a feeling that some movies are rushed or poorly written.
-                <br /><br />
-                These recurring complaints suggest that audiences have become more dissatisfied with recent MCU movies. As more viewers express concerns about the quality of new releases, 
-                it becomes harder for new MCU films to generate the same excitement and positive reception that earlier MCU movies received. 
-                This negative perception further contributes to the decline in the overall performance of MCU movies in recent years.
-            </p>
-        </div>
-    )
+        );
+    }
+    return <p key = {key}>{block.inlines.map(renderInline)}</p>;
 }
 
-function inconsistencyAboveCharts() {
-    return (
-        <div style = {{paddingLeft: "140px", paddingRight: "140px"}}>
-            <p style = {{marginTop: "0px"}}>
-                Lastly, a key reason why recent MCU movies have not performed as well is their inconsistent quality of the recent movies.
-                The inconsistent movie quality is a direct consequence of the oversaturation of content, as Marvel has been releasing more movies and shows with less time and resources to ensure high quality.
-            </p>
-            <p style = {{marginTop: "12px"}}>
-                The following line chart showing the average IMDb rating of MCU movies over time, along with the range of ratings each year, suggests that movie quality has become both lower and more inconsistent after 2019. 
-                The chart shows a drop in the average rating as well as a wider range of ratings, indicating that some movies are rated much lower than others. 
-                Although larger variations in ratings began appearing around 2018, the negative impact on movie performance did not become clear until 2021.
-            </p>
-            <p style = {{marginTop: "12px"}}>
-                This trend is supported by the second line chart, which shows the change in the average profit of MCU movies over time. 
-                The chart indicates that a noticeable drop in profit also begins around 2021. One reason for the delay is that in 2018 and 2019, Marvel released 
-                two of its most successful films: <cite>Avengers: Infinity War</cite> and <cite>Avengers: Endgame</cite>. These highly successful movies helped offset weaker films released during that period. 
-                After 2019, however, Marvel has not released many exceptionally well-received movies, with <cite>Spider-Man: No Way Home</cite> being a notable exception. 
-                As a result, the release of several average or poorly received movies has had a greater impact on the overall performance of the MCU.
-            </p>
-        </div>
-    )
-}
+export default function McuNarration({section}: {section: NarrationSection}) {
+    const stepRef = useStoryStep(section);
+    const doc = NARRATION_DOCS[section];
 
-function conclusion() {
     return (
-        <div style = {{paddingLeft: "140px", paddingRight: "140px"}}>
-            <p style = {{marginTop: "0px"}}>
-                In recent years, the MCU has clearly experienced a decline in performance. Factors such as oversaturation of content, "lack" of connections between Marvel stories, 
-                and inconsistent movie quality have all contributed to this downturn. These issues weakened some of the core elements that originally made the MCU successful, such as
-                a steady release of high-quality films with broad global appeal and a strongly interconnected storyline that kept audiences invested across multiple movies. 
-                As these strengths diminished, audience interest and box office performance also began to decline.
-                <br /><br />
-                Although the MCU has lost some of its dominance in the film industry, the franchise still has the potential to recover. 
-                By focusing on higher-quality storytelling, reducing content oversaturation, and strengthening connections between movies, 
-                Marvel may be able to rebuild audience excitement and restore the success that defined the earlier phases of the MCU.
-            </p>
-        </div>
-    )
-}
-
-
-export default function McuNarration({section}) {
-    let content;
-
-    if (section == "intro above timeline") {
-        content = introAboveTimeline();
-    }
-    else if (section == "introduction") {
-        content = introduction();
-    }
-    else if (section == "rise of mcu" || section == "RiseofMCUIntro") {
-        content = RiseofMCUIntro();
-    }
-    else if (section == "connections") {
-        content = connectionsNarration();
-    }
-    else if (section == "connections intro above chart") {
-        content = connectionsIntroAboveChart();
-    }
-    else if (section == "box office") {
-        content = boxOfficeNarration();
-    }
-    else if (section == "box office fall") {
-        content = boxOfficeFallNarration();
-    }
-    else if (section == "oversaturation") {
-        content = oversaturationNarration();
-    }
-    else if (section == "connection barriers") {
-        content = connectionBarriersNarration();
-    }
-    else if (section == "connection barriers above chart") {
-        content = connectionBarriersAboveChart();
-    }
-    else if (section == "inconsistency") {
-        content = inconsistencyNarration();
-    }
-    else if (section == "inconsistency above charts") {
-        content = inconsistencyAboveCharts();
-    }
-    else if (section == "conclusion") {
-        content = conclusion();
-    }
-
-    return (
-        <div className="mcu-narration">
-            <style>{`
-                .mcu-narration p { font-size: 15px; }
-                .mcu-narration li { font-size: 15px; }
-            `}</style>
-
-            {content}
+        <div
+            className = {`mcu-narration mcu-narration--${doc.layout}`}
+            style = {{paddingTop: doc.spaceAbove}}
+            ref = {stepRef}
+        >
+            {doc.blocks.map(renderBlock)}
+
+            {doc.citations.length > 0 && (
+                <p className = "mcu-narration-sources">
+                    {doc.citations.map((source, i) => (
+                        <span key = {source} style = {{display: "block"}}>
+                            [{i + 1}] {NARRATION_SOURCES[source]}
+                        </span>
+                    ))}
+                </p>
+            )}
         </div>
-    )
+    );
 }
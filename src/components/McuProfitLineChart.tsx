@@ -1,8 +1,16 @@
-import {useEffect, useRef, useState} from "react";
+import {useEffect, useMemo, useRef, useState} from "react";
 import * as d3 from "d3"
 import { useResizeObserver, useDebounceCallback } from "usehooks-ts";
 import { ComponentSize, Margin } from "../types";
 import { isEmpty } from "lodash";
+import { useMcuData } from "../stores/McuData";
+import { useChartSettings } from "../stores/ChartSettings";
+import { formatRatio } from "../data/profit";
+import { useCrossFilter } from "../stores/CrossFilter";
+import { CROSS_FILTER_ACTIONS } from "../stores/Reducer";
+import { focusPoint, keyboardMarks, motionMs } from "./chartA11y";
+import ChartDataTable from "./ChartDataTable";
+import { useChartPalette } from "../theme";
 
 
 type Movie = {
@@ -20,17 +28,18 @@ type YearlyProfitData = {
     minProfit: number
 }
 
-type McuProfitsLineChartProps = {
-    selectedReviewsYear: Number | null
-    setReviewsYear: (year: Number | null) => void
-}
-
-export default function McuProfitsLineChart({selectedReviewsYear, setReviewsYear}: McuProfitsLineChartProps) {
+export default function McuProfitsLineChart() {
     const lineRef = useRef<HTMLDivElement> (null);
     const margin: Margin = { top: 45, right: 40, bottom: 40, left: 60 }
     const [size, setSize] = useState<ComponentSize>({width: 0, height: 0});
     const onResize = useDebounceCallback((size: ComponentSize) => setSize(size), 200);
-    const [movies, setMovies] = useState<Movie[]>([]);
+    const { movies: mcuMovies } = useMcuData();
+    const { money, profit } = useChartSettings();
+    const { selection, dispatch } = useCrossFilter();
+    const palette = useChartPalette();
+    const isMoney = profit.kind == "money";
+    // Dollar models are plotted in billions, ROI as a ratio of the budget
+    const formatProfit = (value: number, digits: number = 2) => isMoney ? `$${value.toFixed(digits)}B` : formatRatio(value);
     const container = d3.select("#average-profits-container");
     const svg = d3.select("#average-profits-svg");
     const profitCapWidth = 10;
@@ -59,33 +68,33 @@ export default function McuProfitsLineChart({selectedReviewsYear, setReviewsYear
     const normalTextFontSize = 13;
     const pointRadius = 5;
     const pointStrokeWidth  = 1.5;
-    const pointFill = "#DBA506"
+    const pointFill = palette.metric
+
+    // Latest selection for the redraw, which doesn't rerun on hover
+    const selectionRef = useRef(selection);
+    selectionRef.current = selection;
+    const isFocusYear = (year: number) => year == selectionRef.current.year || year == selectionRef.current.hoveredYear;
 
     useResizeObserver({ ref: lineRef as React.RefObject<HTMLDivElement>, onResize });
 
-    useEffect(() => {
-        // Read dataset for top 10 grossing movies
-        const loadData = async() => {
-            const data = await d3.csv("./data/marvel_movies_tmdb.csv")
-            let moviesData: Movie[] = [];
-            for (const dataPoint of data) {
-                if (dataPoint.title == "The Incredible Hulk") {
-                    continue;
-                }
-                const movieData: Movie = {
-                    id: dataPoint.id,
-                    title: dataPoint.title,
-                    releaseYear: Number(dataPoint.release_date.split("-")[0]),
-                    profit: (Number(dataPoint.revenue) - Number(dataPoint.budget)) / 100000000,
-                    numberVotes: Number(dataPoint.imdb_vote_count)
-                }
-                moviesData.push(movieData);
+    const movies: Movie[] = useMemo(() => {
+        let moviesData: Movie[] = [];
+        for (const movie of mcuMovies) {
+            if (movie.revenue === null || movie.budget === null) {
+                continue;
             }
-            setMovies(moviesData);            
+            moviesData.push({
+                id: movie.tmdbId,
+                title: movie.title,
+                releaseYear: movie.year,
+                profit: isMoney
+                    ? money.adjust(profit.compute(movie.revenue, movie.budget), movie.year) / 100000000
+                    : profit.compute(movie.revenue, movie.budget),
+                numberVotes: movie.voteCount ?? 0
+            });
         }
-
-        loadData();
-    }, []);
+        return moviesData;
+    }, [mcuMovies, money, profit]);
 
     useEffect(() => {
         if (isEmpty(movies)) {
@@ -98,68 +107,20 @@ export default function McuProfitsLineChart({selectedReviewsYear, setReviewsYear
         d3.select("#average-profits-svg").selectAll("*").remove();
 
         generateLineChart();
-    }, [movies, size]);
+    }, [movies, size, palette]);
 
-    function highlightPoints(year: number) {
-        d3.select(`#average-rating-${year}`)
-        .transition()
-        .duration(300)
-        .ease(d3.easeCubicInOut)
-        .attr("r", pointRadius + 3)
-        .attr("stroke-width", pointStrokeWidth + 2);
-    
-        d3.select(`#average-profit-${year}`)
-        .transition()
-        .duration(300)
-        .ease(d3.easeCubicInOut)
-        .attr("r", pointRadius + 3)
-        .attr("stroke-width", pointStrokeWidth + 2);
-    }
-    
-    function resetHighlightedPoints(year: number) {
-        d3.select(`#average-rating-${year}`)
-        .transition()
-        .duration(300)
-        .ease(d3.easeCubicInOut)
-        .attr("r", pointRadius)
-        .attr("stroke-width", pointStrokeWidth);
-    
-        d3.select(`#average-profit-${year}`)
+    // Enlarge the points for the selected and hovered years
+    useEffect(() => {
+        d3.selectAll<SVGCircleElement, YearlyProfitData>("#average-profits-svg .average-profit")
+        .attr("aria-pressed", (dataPoint) => dataPoint.year == selection.year)
         .transition()
-        .duration(300)
+        .duration(motionMs(300))
         .ease(d3.easeCubicInOut)
-        .attr("r", pointRadius)
-        .attr("stroke-width", pointStrokeWidth);
-    }
+        .attr("r", (dataPoint) => isFocusYear(dataPoint.year) ? pointRadius + 3 : pointRadius)
+        .attr("stroke-width", (dataPoint) => isFocusYear(dataPoint.year) ? pointStrokeWidth + 2 : pointStrokeWidth);
+    }, [selection.year, selection.hoveredYear])
 
-    useEffect(() => {
-        const selectedPoints = d3.selectAll(".average-profit.point-selected");
-
-        if (selectedPoints.size() == 0) {
-            d3.select(`#average-profit-${selectedReviewsYear}`).attr("class", "average-profit point-selected");
-            highlightPoints(selectedReviewsYear);
-        }
-        else {
-            const previousSelectedYear = selectedPoints.data()[0].year;
-            if (previousSelectedYear != selectedReviewsYear) {
-                // Unhighlight previously selected point
-                selectedPoints.attr("class", "average-profit point");
-                resetHighlightedPoints(previousSelectedYear)
-
-                // Highlight selected point
-                d3.select(`#average-profit-${selectedReviewsYear}`).attr("class", "average-profit point-selected");
-                highlightPoints(selectedReviewsYear);
-            }
-            else {
-                // Unhighlight previously selected point
-                selectedPoints.attr("class", "average-profit point");
-                resetHighlightedPoints(previousSelectedYear)
-            }
-        }
-
-    }, [selectedReviewsYear])
-
-    function generateLineChart() {
+    function yearlyProfits() {
         let formattedData: YearlyProfitData[] = [];
         const years = [... new Set(movies.map((movie) => movie.releaseYear))].sort((a, b) => a - b);
         for (const year of years) {
@@ -173,6 +134,26 @@ export default function McuProfitsLineChart({selectedReviewsYear, setReviewsYear
             };
             formattedData.push(dataPoint);
         }
+        return formattedData;
+    }
+
+    function showProfitTooltip(dataPoint: YearlyProfitData, pageX: number, pageY: number) {
+        d3.select("#average-profits-tooltip")
+        .html(`<strong>${profit.name}</strong><br/>Max: ${formatProfit(dataPoint.maxProfit)}<br/>Average: ${formatProfit(dataPoint.averageProfit)}<br/>Min: ${formatProfit(dataPoint.minProfit)}${isMoney && money.mode == "real" ? `<br/>In ${money.baseYear} dollars` : ""}`)
+        .style("left", `${pageX + 10}px`)
+        .style("top", `${pageY - 10}px`)
+        .style("opacity", 1)
+        .style("visibility", "visible");
+    }
+
+    function hideProfitTooltip() {
+        d3.select("#average-profits-tooltip")
+        .style("opacity", 0)
+        .style("visibility", "hidden");
+    }
+
+    function generateLineChart() {
+        const formattedData = yearlyProfits();
 
 
         // Get years for x-axis ticks
@@ -204,13 +185,13 @@ export default function McuProfitsLineChart({selectedReviewsYear, setReviewsYear
 
         const yAxis = svg.append("g")
         .attr("transform", `translate(${margin.left}, 0)`)
-        .call(d3.axisLeft(yScale).ticks(6).tickFormat((dataPoint) => `$${Number(dataPoint).toFixed(1)}B`));
+        .call(d3.axisLeft(yScale).ticks(6).tickFormat((dataPoint) => formatProfit(Number(dataPoint), 1)));
 
         // Generte y-axis label
         svg.append("g")
         .attr("transform", `translate(${margin.left / 5}, ${margin.top + ((size.height - margin.top - margin.bottom) / 2)}) rotate(-90)`)
         .append("text")
-        .text("Profit (Billion $)")
+        .text(profit.axisLabel(money.unit))
         .attr("text-anchor", "middle")
         .style("font-size", `${normalTextFontSize}px`);
 
@@ -274,22 +255,17 @@ export default function McuProfitsLineChart({selectedReviewsYear, setReviewsYear
         .attr("id", (dataPoint) => `average-profit-${dataPoint.year}`)
         .attr("cx", (dataPoint) => xScale(dataPoint.year) + xScale.bandwidth() / 2)
         .attr("cy", (dataPoint) => yScale(dataPoint.averageProfit))
-        .attr("r", pointRadius)
+        .attr("r", (dataPoint) => isFocusYear(dataPoint.year) ? pointRadius + 3 : pointRadius)
         .attr("stroke", "black")
-        .attr("stroke-width", pointStrokeWidth)
+        .attr("stroke-width", (dataPoint) => isFocusYear(dataPoint.year) ? pointStrokeWidth + 2 : pointStrokeWidth)
         .style("fill", pointFill)
         .on("mouseover", function(event, dataPoint) {
             d3.select(this)
             .style("cursor", "pointer");
 
-            highlightPoints(dataPoint.year);
+            dispatch({ type: CROSS_FILTER_ACTIONS.HOVER, titleId: null, year: dataPoint.year });
 
-            d3.select("#average-profits-tooltip")
-            .html(`Max: $${dataPoint.maxProfit.toFixed(2)}B<br/>Average:$${dataPoint.averageProfit.toFixed(2)}B<br/>Min: $${dataPoint.minProfit.toFixed(2)}B`)
-            .style("left", `${event.pageX + 10}px`)
-            .style("top", `${event.pageY - 10}px`)
-            .style("opacity", 1)
-            .style("visibility", "visible");
+            showProfitTooltip(dataPoint, event.pageX, event.pageY);
         })
         .on("mousemove", function(event) {
             d3.select("#average-profits-tooltip")
@@ -297,34 +273,30 @@ export default function McuProfitsLineChart({selectedReviewsYear, setReviewsYear
             .style("top", `${event.pageY - 10}px`)
         })
         .on("mouseout", function(event, dataPoint) {
-            if (d3.select(this).attr("class") == "average-profit point") {
-                resetHighlightedPoints(dataPoint.year)
-            }
+            dispatch({ type: CROSS_FILTER_ACTIONS.HOVER, titleId: null, year: null });
 
-            d3.select("#average-profits-tooltip")
-            .style("opacity", 0)
-            .style("visibility", "hidden");
+            hideProfitTooltip();
         })
         .on("click", function(event, dataPoint) {
-            const selectedPoints = d3.selectAll(".average-profit.point-selected");
-            // If there is a point already selected
-            if (selectedPoints.size() > 0) {
-                const selectedYear: number = selectedPoints.data()[0].year;
-                // If the already selected point is the point clicked
-                if (selectedYear == dataPoint.year) {
-                    setReviewsYear(null)
-                }
-                else {
-                    setReviewsYear(dataPoint.year);
-                }
-            }
-            // If there are no points already selected
-            else {
-                selectedReviewsYear = dataPoint.year;
-                setReviewsYear(dataPoint.year);
-            }
+            // Clicking the selected year again unselects it
+            dispatch({ type: CROSS_FILTER_ACTIONS.TOGGLE_YEAR, year: dataPoint.year });
         })
 
+        keyboardMarks(pointsContainer.selectAll<SVGCircleElement, YearlyProfitData>("circle.average-profit"), {
+            label: (dataPoint) => `${dataPoint.year}, ${profit.name}: average ${formatProfit(dataPoint.averageProfit)}, ranging from ${formatProfit(dataPoint.minProfit)} to ${formatProfit(dataPoint.maxProfit)}`,
+            key: (dataPoint) => String(dataPoint.year),
+            onFocus: (element, dataPoint) => {
+                const point = focusPoint(element);
+                dispatch({ type: CROSS_FILTER_ACTIONS.HOVER, titleId: null, year: dataPoint.year });
+                showProfitTooltip(dataPoint, point.clientX + window.scrollX, point.clientY + window.scrollY);
+            },
+            onBlur: () => {
+                dispatch({ type: CROSS_FILTER_ACTIONS.HOVER, titleId: null, year: null });
+                hideProfitTooltip();
+            },
+            onActivate: (dataPoint) => dispatch({ type: CROSS_FILTER_ACTIONS.TOGGLE_YEAR, year: dataPoint.year })
+        });
+
         const data2018 = formattedData.find((dataPoint) => dataPoint.year == 2018);
         const data2019 = formattedData.find((dataPoint) => dataPoint.year == 2019);
         const data2021 = formattedData.find((dataPoint) => dataPoint.year == 2021);
@@ -433,7 +405,7 @@ export default function McuProfitsLineChart({selectedReviewsYear, setReviewsYear
         .style("text-anchor", "middle")
         .style("font-size", '15px')
         .style("font-weight", 900)
-        .text("Average MCU Movie Profit Over Time"); 
+        .text(chartTitle); 
 
         const hint = svg.append("text")
         .attr("x", margin.left + 20)
@@ -449,10 +421,22 @@ export default function McuProfitsLineChart({selectedReviewsYear, setReviewsYear
 
     }
 
+    const chartTitle = `Average MCU Movie ${profit.name} Over Time`;
+
     return (
         <>
             <div ref = {lineRef} id = "average-profits-container" style = {{width: "100%", height: "100%"}}>
-                <svg id = "average-profits-svg" width = "100%" height = "100%"></svg>
+                <svg id = "average-profits-svg" width = "100%" height = "100%" role = "group" aria-label = {chartTitle}></svg>
+                <ChartDataTable
+                    caption = {isMoney && money.mode == "real" ? `${chartTitle}, in ${money.baseYear} dollars` : chartTitle}
+                    columns = {[
+                        { label: "Year", value: (dataPoint: YearlyProfitData) => dataPoint.year },
+                        { label: "Average", value: (dataPoint) => formatProfit(dataPoint.averageProfit) },
+                        { label: "Lowest", value: (dataPoint) => formatProfit(dataPoint.minProfit) },
+                        { label: "Highest", value: (dataPoint) => formatProfit(dataPoint.maxProfit) }
+                    ]}
+                    rows = {yearlyProfits()}
+                />
             </div>
         </>
     )
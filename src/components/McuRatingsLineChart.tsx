@@ -1,32 +1,55 @@
-import {useEffect, useRef, useState} from "react";
+import {useEffect, useMemo, useRef, useState} from "react";
 import * as d3 from "d3"
 import { useResizeObserver, useDebounceCallback } from "usehooks-ts";
-import { ComponentSize, Margin } from "../types";
+import { ComponentSize, Margin, MediaFilter, MediaType } from "../types";
 import { isEmpty } from "lodash";
+import { useMcuData } from "../stores/McuData";
+import { useCrossFilter } from "../stores/CrossFilter";
+import { CROSS_FILTER_ACTIONS } from "../stores/Reducer";
+import MediaFilterToggle from "./MediaFilterToggle";
+import { focusPoint, keyboardMarks, motionMs } from "./chartA11y";
+import ChartDataTable from "./ChartDataTable";
+import { useChartPalette } from "../theme";
 
 
-type Movie = {
+type RatedTitle = {
     id: string
     title: string
+    mediaType: MediaType
     releaseYear: number
     imdbAverageRating: number
     numberVotes: number
 };
 
 type YearlyRatingData = {
+    mediaType: MediaType
     year: number
     averageRating: number
     maxRating: number
     minRating: number
 }
 
+// Colors come from the chart palette
+const SERIES_LABELS: Record<MediaType, string> = {
+    movie: "Movies",
+    show: "Shows (per series)"
+};
+
+const CHART_TITLES: Record<MediaFilter, string> = {
+    movie: "Average MCU Movie IMDB Rating Over Time",
+    show: "Average MCU Show IMDB Rating Over Time",
+    both: "Average MCU Movie and Show IMDB Rating Over Time"
+};
 
-export default function McuRatingsLineChart({selectedReviewsYear, setReviewsYear}) {
+export default function McuRatingsLineChart() {
     const lineRef = useRef<HTMLDivElement> (null);
     const margin: Margin = { top: 45, right: 40, bottom: 40, left: 60 }
     const [size, setSize] = useState<ComponentSize>({width: 0, height: 0});
     const onResize = useDebounceCallback((size: ComponentSize) => setSize(size), 200);
-    const [movies, setMovies] = useState<Movie[]>([]);
+    const { movies: mcuMovies, shows: mcuShows, registry } = useMcuData();
+    const { selection, dispatch } = useCrossFilter();
+    const palette = useChartPalette();
+    const mediaFilter = selection.mediaFilter;
     const container = d3.select("#average-ratings-container");
     const svg = d3.select("#average-ratings-svg");
     const ratingCapWidth = 10;
@@ -56,125 +79,129 @@ export default function McuRatingsLineChart({selectedReviewsYear, setReviewsYear
     const normalTextFontSize = 13;
     const pointRadius = 5;
     const pointStrokeWidth  = 1.5;
-    const pointFill = "#DBA506"
+
+    // The chart is drawn once per data change, so it reads the current
+    // selection through a ref instead of a stale closure
+    const selectionRef = useRef(selection);
+    selectionRef.current = selection;
+    const isFocusYear = (year: number) => year == selectionRef.current.year || year == selectionRef.current.hoveredYear;
 
     useResizeObserver({ ref: lineRef as React.RefObject<HTMLDivElement>, onResize });
 
-    useEffect(() => {
-        // Read dataset for top 10 grossing movies
-        const loadData = async() => {
-            const data = await d3.csv("./data/marvel_movies_tmdb.csv")
-            let moviesData: Movie[] = [];
-            for (const dataPoint of data) {
-                if (dataPoint.title == "The Incredible Hulk") {
+    // Seasons are grouped under their series as in the reviews panel: a series
+    // is one point in the year of its first season, rated by the vote-weighted
+    // mean of its seasons' IMDb ratings
+    const ratedTitles: RatedTitle[] = useMemo(() => {
+        let titlesData: RatedTitle[] = [];
+        if (mediaFilter != "show") {
+            for (const movie of mcuMovies) {
+                if (movie.rating === null) {
                     continue;
                 }
-                const movieData: Movie = {
-                    id: dataPoint.id,
-                    title: dataPoint.title,
-                    releaseYear: Number(dataPoint.release_date.split("-")[0]),
-                    imdbAverageRating: Number(dataPoint.imdb_average_rating),
-                    numberVotes: Number(dataPoint.imdb_vote_count)
+                titlesData.push({
+                    id: movie.tmdbId,
+                    title: movie.title,
+                    mediaType: "movie",
+                    releaseYear: movie.year,
+                    imdbAverageRating: movie.rating,
+                    numberVotes: movie.voteCount ?? 0
+                });
+            }
+        }
+        if (mediaFilter != "movie") {
+            for (const seasons of d3.group(mcuShows, (show) => registry.seriesOf(show)).values()) {
+                const rated = seasons.filter((season) => season.rating !== null);
+                if (rated.length == 0) {
+                    continue;
                 }
-                moviesData.push(movieData);
+                const votes = d3.sum(rated, (season) => season.voteCount ?? 0);
+                titlesData.push({
+                    id: seasons[0].tmdbId,
+                    title: registry.seriesOf(seasons[0]),
+                    mediaType: "show",
+                    releaseYear: seasons[0].year,
+                    imdbAverageRating: votes > 0
+                        ? d3.sum(rated, (season) => season.rating! * (season.voteCount ?? 0)) / votes
+                        : d3.mean(rated, (season) => season.rating!)!,
+                    numberVotes: votes
+                });
             }
-            setMovies(moviesData);            
         }
-
-        loadData();
-    }, []);
+        return titlesData;
+    }, [mcuMovies, mcuShows, registry, mediaFilter]);
 
     useEffect(() => {
-        if (isEmpty(movies)) {
+        d3.select("#average-ratings-svg").selectAll("*").remove();
+        if (isEmpty(ratedTitles)) {
             return;
         }
         if (size.width == 0 || size.height == 0) {
             return;
         }
-        
-        d3.select("#average-ratings-svg").selectAll("*").remove();
 
         generateLineChart();
-    }, [movies, size]);
+    }, [ratedTitles, size, palette]);
 
-    function highlightPoints(year) {
-        d3.select(`#average-rating-${year}`)
-        .transition()
-        .duration(300)
-        .ease(d3.easeCubicInOut)
-        .attr("r", pointRadius + 3)
-        .attr("stroke-width", pointStrokeWidth + 2);
-    
-        d3.select(`#average-profit-${year}`)
-        .transition()
-        .duration(300)
-        .ease(d3.easeCubicInOut)
-        .attr("r", pointRadius + 3)
-        .attr("stroke-width", pointStrokeWidth + 2);
-    }
-    
-    function resetHighlightedPoints(year) {
-        d3.select(`#average-rating-${year}`)
-        .transition()
-        .duration(300)
-        .ease(d3.easeCubicInOut)
-        .attr("r", pointRadius)
-        .attr("stroke-width", pointStrokeWidth);
-    
-        d3.select(`#average-profit-${year}`)
+    // Selected and hovered years come from the cross-filter store, so hovering
+    // a title in any other chart lifts its year here too
+    useEffect(() => {
+        d3.selectAll<SVGCircleElement, YearlyRatingData>("#average-ratings-svg .average-rating")
+        .attr("aria-pressed", (dataPoint) => dataPoint.year == selection.year)
         .transition()
-        .duration(300)
+        .duration(motionMs(300))
         .ease(d3.easeCubicInOut)
-        .attr("r", pointRadius)
-        .attr("stroke-width", pointStrokeWidth);
-    }
+        .attr("r", (dataPoint) => isFocusYear(dataPoint.year) ? pointRadius + 3 : pointRadius)
+        .attr("stroke-width", (dataPoint) => isFocusYear(dataPoint.year) ? pointStrokeWidth + 2 : pointStrokeWidth);
+    }, [selection.year, selection.hoveredYear])
 
-    useEffect(() => {
-        const selectedPoints = d3.selectAll(".average-rating.point-selected");
-        // No previously selected point
-        if (selectedPoints.size() == 0) {
-            // Highlight selected point
-            d3.select(`#average-rating-${selectedReviewsYear}`).attr("class", "average-rating point-selected");
-            highlightPoints(selectedReviewsYear);
-        }
-        else {
-            const previousSelectedYear = selectedPoints.data()[0].year;
-            if (previousSelectedYear != selectedReviewsYear) {
-                // Unhighlight previously selected point
-                selectedPoints.attr("class", "average-rating point");
-                resetHighlightedPoints(previousSelectedYear)
-
-                // Highlight selected point
-                d3.select(`#average-rating-${selectedReviewsYear}`).attr("class", "average-rating point-selected");
-                highlightPoints(selectedReviewsYear);
-            }
-            else {
-                // Unhighlight previously selected point
-                selectedPoints.attr("class", "average-rating point");
-                resetHighlightedPoints(previousSelectedYear)
-            }
-        }
-    }, [selectedReviewsYear])
-
-    function generateLineChart() {
+    function yearlyRatings(mediaType: MediaType) {
         let formattedData: YearlyRatingData[] = [];
-        const years = [... new Set(movies.map((movie) => movie.releaseYear))].sort((a, b) => a - b);
+        const seriesTitles = ratedTitles.filter((title) => title.mediaType == mediaType);
+        const years = [... new Set(seriesTitles.map((title) => title.releaseYear))].sort((a, b) => a - b);
         for (const year of years) {
-            const yearMovies = movies.filter((movie) => movie.releaseYear == year);
+            const yearTitles = seriesTitles.filter((title) => title.releaseYear == year);
             const dataPoint: YearlyRatingData = {
+                mediaType: mediaType,
                 year: year,
-                averageRating: d3.mean(yearMovies, (dataPoint) => dataPoint.imdbAverageRating),
-                maxRating: d3.max(yearMovies, (dataPoint) => dataPoint.imdbAverageRating),
-                minRating: d3.min(yearMovies, (dataPoint) => dataPoint.imdbAverageRating),
+                averageRating: d3.mean(yearTitles, (dataPoint) => dataPoint.imdbAverageRating),
+                maxRating: d3.max(yearTitles, (dataPoint) => dataPoint.imdbAverageRating),
+                minRating: d3.min(yearTitles, (dataPoint) => dataPoint.imdbAverageRating),
 
             };
             formattedData.push(dataPoint);
         }
+        return formattedData;
+    }
+
+    function showRatingTooltip(dataPoint: YearlyRatingData, pageX: number, pageY: number) {
+        d3.select("#average-ratings-tooltip")
+        .html(`<strong>${SERIES_LABELS[dataPoint.mediaType]} · ${dataPoint.year}</strong>
+        <br/>
+        Max: ${dataPoint.maxRating.toFixed(2)}
+        <br/>
+        Average: ${dataPoint.averageRating.toFixed(2)}
+        <br/>
+        Min: ${dataPoint.minRating.toFixed(2)}`)
+        .style("left", `${pageX + 10}px`)
+        .style("top", `${pageY - 10}px`)
+        .style("opacity", 1)
+        .style("visibility", "visible");
+    }
+
+    function hideRatingTooltip() {
+        d3.select("#average-ratings-tooltip")
+        .style("opacity", 0)
+        .style("visibility", "hidden");
+    }
 
+    function generateLineChart() {
+        const mediaTypes: MediaType[] = mediaFilter == "both" ? ["movie", "show"] : [mediaFilter];
+        const seriesData = mediaTypes.map((mediaType) => ({ mediaType: mediaType, data: yearlyRatings(mediaType) }));
+        const formattedData: YearlyRatingData[] = seriesData.flatMap((series) => series.data);
 
         // Get years for x-axis ticks
-        const minYear: number = d3.min(movies.map((movie) => movie.releaseYear));
-        const maxYear: number = d3.max(movies.map((movie) => movie.releaseYear));
+        const minYear: number = d3.min(ratedTitles.map((title) => title.releaseYear));
+        const maxYear: number = d3.max(ratedTitles.map((title) => title.releaseYear));
         let allYears: number[] = [];
         for (let i = minYear; i < maxYear + 1; i++) {
             allYears.push(i);
@@ -195,8 +222,12 @@ export default function McuRatingsLineChart({selectedReviewsYear, setReviewsYear
         .text("Year")
         .style("font-size", `${normalTextFontSize}px`);
 
+        // With both series side by side, each sits a little off the year's centre
+        const seriesOffset = (mediaType: MediaType) => mediaTypes.length == 1 ? 0 : (mediaType == "movie" ? -1 : 1) * xScale.bandwidth() * 0.15;
+        const xOf = (dataPoint: YearlyRatingData) => xScale(dataPoint.year) + xScale.bandwidth() / 2 + seriesOffset(dataPoint.mediaType);
+
         const yScale = d3.scaleLinear()
-        .domain([5, d3.max(formattedData.map((dataPoint) => dataPoint.maxRating))])
+        .domain([Math.min(5, Math.floor(d3.min(formattedData.map((dataPoint) => dataPoint.minRating)))), d3.max(formattedData.map((dataPoint) => dataPoint.maxRating))])
         .range([size.height - margin.bottom, margin.top + plotTopPadding]);
 
         const yAxis = svg.append("g")
@@ -212,18 +243,20 @@ export default function McuRatingsLineChart({selectedReviewsYear, setReviewsYear
         .style("font-size", `${normalTextFontSize}px`);
 
         const lineGenerator = d3.line()
-        .x((dataPoint) => xScale(dataPoint.year) + xScale.bandwidth() / 2)
+        .x((dataPoint) => xOf(dataPoint))
         .y((dataPoint => yScale(dataPoint.averageRating)))
 
         const pathContainer = svg.append("g")
         .attr("id", "path-container");
 
-        pathContainer.append("path")
-        .datum(formattedData)
-        .attr("fill", "none")
-        .attr("stroke", "black")
-        .attr("stroke-width", 2)
-        .attr("d", lineGenerator);
+        for (const series of seriesData) {
+            pathContainer.append("path")
+            .datum(series.data)
+            .attr("fill", "none")
+            .attr("stroke", palette.series[series.mediaType].stroke)
+            .attr("stroke-width", 2)
+            .attr("d", lineGenerator);
+        }
 
         const pointsContainer = svg.append("g")
         .attr("id", "average-rating-points-container")
@@ -232,7 +265,7 @@ export default function McuRatingsLineChart({selectedReviewsYear, setReviewsYear
         .data(formattedData)
         .enter()
         .append("g")
-        .attr("id", (dataPoint) => `ratings-range-container-${dataPoint.year}`)
+        .attr("id", (dataPoint) => `ratings-range-container-${dataPoint.mediaType}-${dataPoint.year}`)
         .attr("class", "ratings-range-container");
 
 
@@ -240,9 +273,9 @@ export default function McuRatingsLineChart({selectedReviewsYear, setReviewsYear
         yearPointsContainers.append("line")
         .attr("stroke", "black")
         .attr("stroke-width", 1)
-        .attr("x1", (dataPoint) => xScale(dataPoint.year) + xScale.bandwidth() / 2)
+        .attr("x1", (dataPoint) => xOf(dataPoint))
         .attr("y1", (dataPoint) => yScale(dataPoint.minRating))
-        .attr("x2", (dataPoint) => xScale(dataPoint.year) + xScale.bandwidth() / 2)
+        .attr("x2", (dataPoint) => xOf(dataPoint))
         .attr("y2", (dataPoint) => yScale(dataPoint.maxRating))
         .style("stroke-dasharray", ("3, 3"));
 
@@ -250,47 +283,37 @@ export default function McuRatingsLineChart({selectedReviewsYear, setReviewsYear
         yearPointsContainers.append("line")
         .attr("stroke", "black")
         .attr("stroke-width", 1)
-        .attr("x1", (dataPoint) => xScale(dataPoint.year) + (xScale.bandwidth() / 2) - (ratingCapWidth / 2))
+        .attr("x1", (dataPoint) => xOf(dataPoint) - (ratingCapWidth / 2))
         .attr("y1", (dataPoint) => yScale(dataPoint.minRating))
-        .attr("x2", (dataPoint) => xScale(dataPoint.year) + (xScale.bandwidth() / 2) + (ratingCapWidth / 2))
+        .attr("x2", (dataPoint) => xOf(dataPoint) + (ratingCapWidth / 2))
         .attr("y2", (dataPoint) => yScale(dataPoint.minRating))
 
         // Max rating caps
         yearPointsContainers.append("line")
         .attr("stroke", "black")
         .attr("stroke-width", 1)
-        .attr("x1", (dataPoint) => xScale(dataPoint.year) + (xScale.bandwidth() / 2) - (ratingCapWidth / 2))
+        .attr("x1", (dataPoint) => xOf(dataPoint) - (ratingCapWidth / 2))
         .attr("y1", (dataPoint) => yScale(dataPoint.maxRating))
-        .attr("x2", (dataPoint) => xScale(dataPoint.year) + (xScale.bandwidth() / 2) + (ratingCapWidth / 2))
+        .attr("x2", (dataPoint) => xOf(dataPoint) + (ratingCapWidth / 2))
         .attr("y2", (dataPoint) => yScale(dataPoint.maxRating))
 
         yearPointsContainers.append("circle")
-        .attr("class", "average-rating point")
-        .attr("id", (dataPoint) => `average-rating-${dataPoint.year}`)
-        .attr("cx", (dataPoint) => xScale(dataPoint.year) + xScale.bandwidth() / 2)
+        .attr("class", (dataPoint) => `average-rating point average-rating-year-${dataPoint.year}`)
+        .attr("id", (dataPoint) => dataPoint.mediaType == "movie" ? `average-rating-${dataPoint.year}` : `average-rating-${dataPoint.mediaType}-${dataPoint.year}`)
+        .attr("cx", (dataPoint) => xOf(dataPoint))
         .attr("cy", (dataPoint) => yScale(dataPoint.averageRating))
-        .attr("r", pointRadius)
+        .attr("r", (dataPoint) => isFocusYear(dataPoint.year) ? pointRadius + 3 : pointRadius)
         .attr("stroke", "black")
-        .attr("stroke-width", pointStrokeWidth)
-        .style("fill", pointFill)
+        .attr("stroke-width", (dataPoint) => isFocusYear(dataPoint.year) ? pointStrokeWidth + 2 : pointStrokeWidth)
+        .style("fill", (dataPoint) => palette.series[dataPoint.mediaType].fill)
         .on("mouseover", function(event, dataPoint) {
             d3.select(this)
             .style("cursor", "pointer");
 
-            highlightPoints(dataPoint.year);
-
+            dispatch({ type: CROSS_FILTER_ACTIONS.HOVER, titleId: null, year: dataPoint.year });
 
             // Show ratings tooltip
-            d3.select("#average-ratings-tooltip")
-            .html(`Max: ${dataPoint.maxRating.toFixed(2)}
-            <br/>
-            Average: ${dataPoint.averageRating.toFixed(2)}
-            <br/>
-            Min: ${dataPoint.minRating.toFixed(2)}`)
-            .style("left", `${event.pageX + 10}px`)
-            .style("top", `${event.pageY - 10}px`)
-            .style("opacity", 1)
-            .style("visibility", "visible");
+            showRatingTooltip(dataPoint, event.pageX, event.pageY);
         })
         .on("mousemove", function(event, dataPoint) {
             d3.select("#average-ratings-tooltip")
@@ -298,41 +321,88 @@ export default function McuRatingsLineChart({selectedReviewsYear, setReviewsYear
             .style("top", `${event.pageY - 10}px`)
         })
         .on("mouseout", function(event, dataPoint) {
-            if (d3.select(this).attr("class") == "average-rating point") {
-                resetHighlightedPoints(dataPoint.year);
-            }
-            d3.select("#average-ratings-tooltip")
-            .style("opacity", 0)
-            .style("visibility", "hidden");
+            dispatch({ type: CROSS_FILTER_ACTIONS.HOVER, titleId: null, year: null });
+            hideRatingTooltip();
         })
         .on("click", function(event, dataPoint) {
-            const selectedPoints = d3.selectAll(".average-rating.point-selected");
-            // If there is a point already selected
-            if (selectedPoints.size() > 0) {
-                const selectedYear: number = selectedPoints.data()[0].year;
-                // If the already selected point is the point clicked
-                if (selectedYear == dataPoint.year) {
-                    // Unselect the point
-                    setReviewsYear(null)
-                }
-                else {
-                    setReviewsYear(dataPoint.year);
-                }
-            }
-            // If there are no points already selected
-            else {
-                selectedReviewsYear = dataPoint.year;
-                setReviewsYear(dataPoint.year);
-            }
-            
+            // Clicking the selected year again unselects it
+            dispatch({ type: CROSS_FILTER_ACTIONS.TOGGLE_YEAR, year: dataPoint.year });
         })
 
+        // Keyboard: walk the points year by year, movies before shows
+        keyboardMarks(pointsContainer.selectAll<SVGCircleElement, YearlyRatingData>("circle.average-rating"), {
+            label: (dataPoint) => `${SERIES_LABELS[dataPoint.mediaType]}, ${dataPoint.year}: average IMDb rating ${dataPoint.averageRating.toFixed(2)}, ranging from ${dataPoint.minRating.toFixed(2)} to ${dataPoint.maxRating.toFixed(2)}`,
+            key: (dataPoint) => `${dataPoint.mediaType}-${dataPoint.year}`,
+            order: (a, b) => a.year - b.year || a.mediaType.localeCompare(b.mediaType),
+            onFocus: (element, dataPoint) => {
+                const point = focusPoint(element);
+                dispatch({ type: CROSS_FILTER_ACTIONS.HOVER, titleId: null, year: dataPoint.year });
+                showRatingTooltip(dataPoint, point.clientX + window.scrollX, point.clientY + window.scrollY);
+            },
+            onBlur: () => {
+                dispatch({ type: CROSS_FILTER_ACTIONS.HOVER, titleId: null, year: null });
+                hideRatingTooltip();
+            },
+            onActivate: (dataPoint) => dispatch({ type: CROSS_FILTER_ACTIONS.TOGGLE_YEAR, year: dataPoint.year })
+        });
+
+        // Legend, only needed when both series are drawn
+        if (mediaTypes.length > 1) {
+            const legend = svg.append("g")
+            .attr("id", "average-ratings-legend")
+            .selectAll("g")
+            .data(mediaTypes)
+            .enter()
+            .append("g")
+            .attr("transform", (mediaType, index) => `translate(${margin.left + 20 + index * 130}, ${margin.top + 4})`);
+
+            legend.append("circle")
+            .attr("r", pointRadius)
+            .attr("stroke", "black")
+            .attr("stroke-width", pointStrokeWidth)
+            .style("fill", (mediaType) => palette.series[mediaType].fill);
+
+            legend.append("text")
+            .attr("x", 10)
+            .attr("dy", "0.32em")
+            .style("font-size", "11px")
+            .text((mediaType) => SERIES_LABELS[mediaType]);
+        }
+
+        // The story annotations describe the movie series
+        if (mediaFilter != "show") {
+            generateAnnotations(seriesData[0].data, (year: number) => xScale(year) + xScale.bandwidth() / 2 + seriesOffset("movie"), yScale);
+        }
+
+        // Generate title
+        const title = svg.append('g')
+        .append("text")
+        .attr("transform", `translate(${margin.left + ((size.width - margin.left) / 2)}, ${margin.top - titleGraphPadding + 10})`)
+        .style("text-anchor", "middle")
+        .style("font-size", '15px')
+        .style("font-weight", 900)
+        .text(CHART_TITLES[mediaFilter]); 
+
+        const hint = svg.append("text")
+        .attr("x", margin.left + 20)
+        .attr("y", margin.top + 170)
+        .style("text-anchor", "start")
+        .style("font-size", "10px")
+        .style("font-weight", 500)
+        .style("fill", "rgba(0,0,0,0.55)");
+
+        hint.append("tspan").attr("x", margin.left + 20).attr("dy", 0).text("Hover over the dot for max, min,")
+        hint.append("tspan").attr("x", margin.left + 20).attr("dy", "1.15em").text("and average ratings.")
+        hint.append("tspan").attr("x", margin.left + 20).attr("dy", "1.15em").text("Click the dot to view reviews")
+    }
+
+    function generateAnnotations(formattedData: YearlyRatingData[], xOfYear: (year: number) => number, yScale: d3.ScaleLinear<number, number>) {
         const data2018 = formattedData.find((dataPoint) => dataPoint.year == 2018);
         const data2019 = formattedData.find((dataPoint) => dataPoint.year == 2019);
         const data2021 = formattedData.find((dataPoint) => dataPoint.year == 2021);
 
-        const x2018 = xScale(2018) + xScale.bandwidth() / 2;
-        const x2020 = xScale(2020) + xScale.bandwidth() / 2;
+        const x2018 = xOfYear(2018);
+        const x2020 = xOfYear(2020);
     
         const y2018 = yScale(data2018.averageRating);
         const yMax2018 = yScale(data2018.maxRating);
@@ -404,34 +474,30 @@ export default function McuRatingsLineChart({selectedReviewsYear, setReviewsYear
         .attr("x", x2020)
         .attr("dy", "1.2em")
         .text("of fall");
-
-
-        // Generate title
-        const title = svg.append('g')
-        .append("text")
-        .attr("transform", `translate(${margin.left + ((size.width - margin.left) / 2)}, ${margin.top - titleGraphPadding + 10})`)
-        .style("text-anchor", "middle")
-        .style("font-size", '15px')
-        .style("font-weight", 900)
-        .text("Average MCU Movie IMDB Rating Over Time"); 
-
-        const hint = svg.append("text")
-        .attr("x", margin.left + 20)
-        .attr("y", margin.top + 170)
-        .style("text-anchor", "start")
-        .style("font-size", "10px")
-        .style("font-weight", 500)
-        .style("fill", "rgba(0,0,0,0.55)");
-
-        hint.append("tspan").attr("x", margin.left + 20).attr("dy", 0).text("Hover over the dot for max, min,")
-        hint.append("tspan").attr("x", margin.left + 20).attr("dy", "1.15em").text("and average ratings.")
-        hint.append("tspan").attr("x", margin.left + 20).attr("dy", "1.15em").text("Click the dot to view reviews")
     }
 
+    const tableRows = (mediaFilter == "both" ? ["movie", "show"] as MediaType[] : [mediaFilter]).flatMap(yearlyRatings);
+
     return (
         <>
-            <div ref = {lineRef} id = "average-ratings-container" style = {{width: "100%", height: "100%"}}>
-                <svg id = "average-ratings-svg" width = "100%" height = "100%"></svg>
+            <div id = "average-ratings-container" style = {{width: "100%", height: "100%", display: "flex", flexDirection: "column"}}>
+                <div style = {{display: "flex", justifyContent: "flex-end", padding: "6px 12px 0"}}>
+                    <MediaFilterToggle value = {mediaFilter} onChange = {(value) => dispatch({ type: CROSS_FILTER_ACTIONS.SET_MEDIA_FILTER, mediaFilter: value })} />
+                </div>
+                <div ref = {lineRef} style = {{flex: 1, minHeight: 0}}>
+                    <svg id = "average-ratings-svg" width = "100%" height = "100%" role = "group" aria-label = {CHART_TITLES[mediaFilter]}></svg>
+                </div>
+                <ChartDataTable
+                    caption = {CHART_TITLES[mediaFilter]}
+                    columns = {[
+                        { label: "Series", value: (dataPoint: YearlyRatingData) => SERIES_LABELS[dataPoint.mediaType] },
+                        { label: "Year", value: (dataPoint) => dataPoint.year },
+                        { label: "Average rating", value: (dataPoint) => dataPoint.averageRating.toFixed(2) },
+                        { label: "Lowest rating", value: (dataPoint) => dataPoint.minRating.toFixed(2) },
+                        { label: "Highest rating", value: (dataPoint) => dataPoint.maxRating.toFixed(2) }
+                    ]}
+                    rows = {tableRows}
+                />
             </div>
         </>
     )
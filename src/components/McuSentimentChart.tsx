@@ -0,0 +1,300 @@
+import {useEffect, useMemo, useRef, useState} from "react";
+import * as d3 from "d3"
+import { useResizeObserver, useDebounceCallback } from "usehooks-ts";
+import { ComponentSize, Margin } from "../types";
+import { isEmpty } from "lodash";
+import { useMcuData } from "../stores/McuData";
+import { scoreReviews, SentimentGroup, SentimentGroupBy, sentimentBy } from "../data/sentiment";
+import { createEraSplit } from "../data/eras";
+import { useCrossFilter } from "../stores/CrossFilter";
+import { CROSS_FILTER_ACTIONS } from "../stores/Reducer";
+import { keyboardMarks } from "./chartA11y";
+import ChartDataTable from "./ChartDataTable";
+import { useChartPalette } from "../theme";
+
+
+const GROUP_OPTIONS: { value: SentimentGroupBy, label: string }[] = [
+    { value: "year", label: "Year" },
+    { value: "phase", label: "Phase" },
+    { value: "title", label: "Title" }
+];
+
+export default function McuSentimentChart() {
+    const sentimentRef = useRef<HTMLDivElement> (null);
+    const margin: Margin = { top: 45, right: 40, bottom: 40, left: 60 }
+    const [size, setSize] = useState<ComponentSize>({width: 0, height: 0});
+    const onResize = useDebounceCallback((size: ComponentSize) => setSize(size), 200);
+    const [groupBy, setGroupBy] = useState<SentimentGroupBy>("year");
+    const { reviews, registry } = useMcuData();
+    const { selection, dispatch } = useCrossFilter();
+    const palette = useChartPalette();
+    const container = d3.select("#review-sentiment-container");
+    const svg = d3.select("#review-sentiment-svg");
+
+    // Tooltip for points. The container is positioned to anchor the grouping
+    // buttons, so the tooltip is placed relative to it, not to the page
+    const tooltipElement = container.selectChild("#review-sentiment-tooltip")
+    if (tooltipElement.empty()) {
+        container.append("div")
+        .attr('id', 'review-sentiment-tooltip')
+        .style('position', 'absolute')
+        .style('pointer-events', 'none')
+        .style('z-index', '20')
+        .style('background', 'rgba(255,255,255,0.98)')
+        .style('border', '1px solid rgba(0,0,0,0.12)')
+        .style('border-radius', '12px')
+        .style('box-shadow', '0 10px 22px rgba(0,0,0,0.12)')
+        .style('padding', '10px')
+        .style('max-width', '260px')
+        .style("visibility", "hidden")
+        .style("opacity", 0)
+        .style("font-size", "13px");
+    }
+
+    const titleGraphPadding = 30;
+    const normalTextFontSize = 13;
+    const pointRadius = 5;
+    const pointStrokeWidth = 1.5;
+    const beforeFill = palette.era.rise;
+    const afterFill = palette.era.decline;
+
+    useResizeObserver({ ref: sentimentRef as React.RefObject<HTMLDivElement>, onResize });
+
+    // Scoring every review is the expensive part, so it only reruns when the data changes
+    const scored = useMemo(() => scoreReviews(reviews, registry), [reviews, registry]);
+    const groups: SentimentGroup[] = useMemo(() => sentimentBy(scored, groupBy), [scored, groupBy]);
+    const eras = useMemo(() => createEraSplit(registry), [registry]);
+
+    useEffect(() => {
+        if (isEmpty(groups)) {
+            return;
+        }
+        if (size.width == 0 || size.height == 0) {
+            return;
+        }
+
+        d3.select("#review-sentiment-svg").selectAll("*").remove();
+
+        generateSentimentChart();
+    }, [groups, size, selection.year, selection.phases, selection.titleIds, palette]);
+
+    // Hover isn't shown here: redrawing under the cursor would drop the hovered point
+    function isSelected(group: SentimentGroup) {
+        if (groupBy == "phase") {
+            return selection.phases.includes(group.phase);
+        }
+        return group.year == selection.year || (groupBy == "title" && selection.titleIds.includes(group.key));
+    }
+
+    function isAfterEndgame(group: SentimentGroup) {
+        return eras.eraOf(group.releaseDate) == "decline";
+    }
+
+    function hoverGroup(group: SentimentGroup) {
+        if (groupBy != "phase") {
+            dispatch({ type: CROSS_FILTER_ACTIONS.HOVER, titleId: groupBy == "title" ? group.key : null, year: group.year });
+        }
+    }
+
+    function toggleGroup(group: SentimentGroup) {
+        // Phases span several years, so phase points select the phase instead
+        if (groupBy == "phase") {
+            dispatch({ type: CROSS_FILTER_ACTIONS.TOGGLE_PHASE, phase: group.phase });
+            return;
+        }
+        dispatch({ type: CROSS_FILTER_ACTIONS.TOGGLE_YEAR, year: group.year });
+    }
+
+    // x and y are relative to the chart container
+    function showSentimentTooltip(group: SentimentGroup, x: number, y: number) {
+        d3.select("#review-sentiment-tooltip")
+        .html(`<strong>${group.label}</strong><br/>Mean sentiment: ${group.mean.toFixed(3)}<br/>Positive: ${(group.positiveShare * 100).toFixed(0)}% · Negative: ${(group.negativeShare * 100).toFixed(0)}%<br/>${group.count} reviews`)
+        .style("left", `${x + 10}px`)
+        .style("top", `${y - 10}px`)
+        .style("opacity", 1)
+        .style("visibility", "visible");
+    }
+
+    function hideSentimentTooltip() {
+        d3.select("#review-sentiment-tooltip")
+        .style("opacity", 0)
+        .style("visibility", "hidden");
+    }
+
+    function generateSentimentChart() {
+        const xScale = d3.scaleBand()
+        .domain(groups.map((group) => group.key))
+        .range([margin.left, size.width - margin.right])
+        .padding(0.2);
+
+        const labelByKey = new Map(groups.map((group) => [group.key, group.label]));
+        const xAxis = svg.append("g")
+        .attr("transform", `translate(0, ${size.height - margin.bottom})`)
+        .call(d3.axisBottom(xScale).tickFormat((key) => groupBy == "title" ? "" : labelByKey.get(key) ?? key));
+
+        xAxis.call((g) => g.selectAll("text").style("font-size", groupBy == "year" ? "9px" : "11px"));
+        if (groupBy == "title") {
+            xAxis.call((g) => g.selectAll(".tick").remove());
+        }
+
+        // Generate x-axis label
+        svg.append("g")
+        .attr("transform", `translate(${margin.left + ((size.width - margin.left - margin.right) / 2)}, ${size.height - margin.bottom / 5})`)
+        .append("text")
+        .text(groupBy == "title" ? "Titles in release order" : groupBy == "year" ? "Release Year" : "Phase")
+        .attr("text-anchor", "middle")
+        .style("font-size", `${normalTextFontSize}px`);
+
+        // Symmetric domain so zero (neutral) sits in the same place for every grouping
+        const extent = Math.max(0.1, d3.max(groups, (group) => Math.abs(group.mean)) ?? 0) * 1.15;
+        const yScale = d3.scaleLinear()
+        .domain([-extent, extent])
+        .range([size.height - margin.bottom, margin.top]);
+
+        svg.append("g")
+        .attr("transform", `translate(${margin.left}, 0)`)
+        .call(d3.axisLeft(yScale).ticks(5).tickFormat((value) => Number(value).toFixed(2)));
+
+        // Generate y-axis label
+        svg.append("g")
+        .attr("transform", `translate(${margin.left / 4}, ${margin.top + ((size.height - margin.top - margin.bottom) / 2)}) rotate(-90)`)
+        .append("text")
+        .text("Mean Review Sentiment")
+        .attr("text-anchor", "middle")
+        .style("font-size", `${normalTextFontSize}px`);
+
+        // Neutral baseline
+        svg.append("line")
+        .attr("x1", margin.left)
+        .attr("x2", size.width - margin.right)
+        .attr("y1", yScale(0))
+        .attr("y2", yScale(0))
+        .attr("stroke", "rgba(0,0,0,0.35)")
+        .style("stroke-dasharray", "3, 3");
+
+        // Mark where Endgame falls so the before / after shift is easy to read
+        const firstAfter = groups.find((group) => isAfterEndgame(group));
+        if (firstAfter && groupBy != "phase") {
+            const x = (xScale(firstAfter.key) ?? 0) - (xScale.step() * xScale.padding()) / 2;
+            svg.append("line")
+            .attr("x1", x)
+            .attr("x2", x)
+            .attr("y1", margin.top)
+            .attr("y2", size.height - margin.bottom)
+            .attr("stroke", "#999")
+            .attr("stroke-width", 1);
+
+            svg.append("text")
+            .attr("x", x + 4)
+            .attr("y", margin.top + 8)
+            .style("font-size", "9px")
+            .style("fill", "rgba(0,0,0,0.6)")
+            .text("After Endgame →");
+        }
+
+        const lollipops = svg.append("g")
+        .attr("id", "review-sentiment-points")
+        .selectAll("g")
+        .data(groups)
+        .enter()
+        .append("g");
+
+        lollipops.append("line")
+        .attr("x1", (group) => (xScale(group.key) ?? 0) + xScale.bandwidth() / 2)
+        .attr("x2", (group) => (xScale(group.key) ?? 0) + xScale.bandwidth() / 2)
+        .attr("y1", yScale(0))
+        .attr("y2", (group) => yScale(group.mean))
+        .attr("stroke", "black")
+        .attr("stroke-width", 1);
+
+        lollipops.append("circle")
+        .attr("cx", (group) => (xScale(group.key) ?? 0) + xScale.bandwidth() / 2)
+        .attr("cy", (group) => yScale(group.mean))
+        .attr("r", (group) => isSelected(group) ? pointRadius + 3 : pointRadius)
+        .attr("stroke", "black")
+        .attr("stroke-width", (group) => isSelected(group) ? pointStrokeWidth + 2 : pointStrokeWidth)
+        .attr("aria-pressed", (group) => isSelected(group))
+        .style("fill", (group) => isAfterEndgame(group) ? afterFill : beforeFill)
+        .style("cursor", "pointer")
+        .on("mouseover", function(event, group) {
+            hoverGroup(group);
+            const [x, y] = d3.pointer(event, sentimentRef.current);
+            showSentimentTooltip(group, x, y);
+        })
+        .on("mousemove", function(event) {
+            d3.select("#review-sentiment-tooltip")
+            .style("left", `${d3.pointer(event, sentimentRef.current)[0] + 10}px`)
+            .style("top", `${d3.pointer(event, sentimentRef.current)[1] - 10}px`)
+        })
+        .on("mouseout", function() {
+            dispatch({ type: CROSS_FILTER_ACTIONS.HOVER, titleId: null, year: null });
+            hideSentimentTooltip();
+        })
+        .on("click", function(event, group) {
+            toggleGroup(group);
+        });
+
+        // The chart redraws when a point is selected; keyboardMarks puts focus back on it
+        keyboardMarks(lollipops.selectAll<SVGCircleElement, SentimentGroup>("circle"), {
+            label: (group) => `${group.label}: mean sentiment ${group.mean.toFixed(3)}, ${(group.positiveShare * 100).toFixed(0)}% positive, ${(group.negativeShare * 100).toFixed(0)}% negative, ${group.count} reviews`,
+            key: (group) => group.key,
+            onFocus: (element, group) => {
+                const box = element.getBoundingClientRect();
+                const origin = sentimentRef.current!.getBoundingClientRect();
+                hoverGroup(group);
+                showSentimentTooltip(group, box.left + box.width / 2 - origin.left, box.top + box.height / 2 - origin.top);
+            },
+            onBlur: () => {
+                dispatch({ type: CROSS_FILTER_ACTIONS.HOVER, titleId: null, year: null });
+                hideSentimentTooltip();
+            },
+            onActivate: toggleGroup
+        });
+
+        // Generate title
+        svg.append('g')
+        .append("text")
+        .attr("transform", `translate(${margin.left + ((size.width - margin.left) / 2)}, ${margin.top - titleGraphPadding + 10})`)
+        .style("text-anchor", "middle")
+        .style("font-size", '15px')
+        .style("font-weight", 900)
+        .text("Audience Tone in IMDb Reviews");
+    }
+
+    const btnStyle = (active: boolean): React.CSSProperties => ({
+        border: "1px solid rgba(0,0,0,0.18)",
+        background: active ? "rgba(0,0,0,0.85)" : "rgba(255,255,255,0.92)",
+        color: active ? "white" : "rgba(0,0,0,0.8)",
+        padding: "3px 8px",
+        borderRadius: 8,
+        fontSize: 11,
+        fontWeight: 700,
+        cursor: "pointer"
+    });
+
+    return (
+        <>
+            <div ref = {sentimentRef} id = "review-sentiment-container" style = {{width: "100%", height: "100%", position: "relative"}}>
+                <div style = {{position: "absolute", top: 34, right: 12, display: "flex", gap: 4}}>
+                    {GROUP_OPTIONS.map((option) => (
+                        <button key = {option.value} type = "button" style = {btnStyle(groupBy == option.value)} onClick = {() => setGroupBy(option.value)}>
+                            {option.label}
+                        </button>
+                    ))}
+                </div>
+                <svg id = "review-sentiment-svg" width = "100%" height = "100%" role = "group" aria-label = "Audience Tone in IMDb Reviews"></svg>
+                <ChartDataTable
+                    caption = {`Audience tone in IMDb reviews by ${groupBy}`}
+                    columns = {[
+                        { label: "Group", value: (group: SentimentGroup) => group.label },
+                        { label: "Mean sentiment", value: (group) => group.mean.toFixed(3) },
+                        { label: "Positive", value: (group) => `${(group.positiveShare * 100).toFixed(0)}%` },
+                        { label: "Negative", value: (group) => `${(group.negativeShare * 100).toFixed(0)}%` },
+                        { label: "Reviews", value: (group) => group.count }
+                    ]}
+                    rows = {groups}
+                />
+            </div>
+        </>
+    )
+}
@@ -0,0 +1,238 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react'
+import * as d3 from 'd3'
+import { useResizeObserver, useDebounceCallback } from 'usehooks-ts'
+import { ComponentSize, Margin } from '../types'
+import { useMcuData } from '../stores/McuData'
+import { createEraSplit, Era, ERA_LABELS } from '../data/eras'
+import {
+  DistinctiveTerm,
+  distinctiveTerms,
+  parseTermQueries,
+  prepareTermDocs,
+  TermGroupBy,
+  TermTrendPoint,
+  termTrends
+} from '../data/terms'
+import { keyboardMarks } from './chartA11y'
+import ChartDataTable, { DataColumn } from './ChartDataTable'
+import { useChartPalette } from '../theme'
+
+const DEFAULT_TERMS = 'fatigue, CGI, multiverse, Disney+'
+const MARGIN: Margin = { top: 36, right: 110, bottom: 36, left: 56 }
+
+const btnStyle = (active: boolean): React.CSSProperties => ({
+  border: '1px solid rgba(0,0,0,0.18)',
+  background: active ? 'rgba(0,0,0,0.85)' : 'rgba(255,255,255,0.92)',
+  color: active ? 'white' : 'rgba(0,0,0,0.8)',
+  padding: '5px 10px',
+  borderRadius: 8,
+  fontSize: 12,
+  fontWeight: 700,
+  cursor: 'pointer',
+  userSelect: 'none'
+})
+
+function TermList({ era, terms }: { era: Era; terms: DistinctiveTerm[] }) {
+  return (
+    <div style={{ minWidth: 0 }}>
+      <div style={{ fontSize: 12, fontWeight: 800, marginBottom: 6 }}>{ERA_LABELS[era]}</div>
+      <ol style={{ margin: 0, paddingLeft: 20, fontSize: 12, lineHeight: 1.5 }}>
+        {terms.map(t => (
+          <li key={t.term} title={`z = ${t.z.toFixed(1)}`}>
+            <strong>{t.term}</strong>{' '}
+            <span style={{ color: 'rgba(0,0,0,0.55)' }}>
+              {(era === 'rise' ? t.risePer1000 : t.declinePer1000).toFixed(0)} vs{' '}
+              {(era === 'rise' ? t.declinePer1000 : t.risePer1000).toFixed(0)}
+            </span>
+          </li>
+        ))}
+      </ol>
+    </div>
+  )
+}
+
+/**
+ * Term-frequency evidence for the fatigue story: user-entered terms plotted
+ * per 1,000 reviews, next to the words that most separate the two eras.
+ */
+export default function McuTermTrends() {
+  const containerRef = useRef<HTMLDivElement>(null)
+  const svgRef = useRef<SVGSVGElement | null>(null)
+  const [size, setSize] = useState<ComponentSize>({ width: 0, height: 0 })
+  const onResize = useDebounceCallback((s: ComponentSize) => setSize(s), 50)
+  useResizeObserver({ ref: containerRef as React.RefObject<HTMLDivElement>, onResize })
+
+  const { reviews, registry } = useMcuData()
+  const palette = useChartPalette()
+  const [input, setInput] = useState(DEFAULT_TERMS)
+  const [groupBy, setGroupBy] = useState<TermGroupBy>('year')
+
+  const docs = useMemo(() => prepareTermDocs(reviews, registry), [reviews, registry])
+  const eras = useMemo(() => createEraSplit(registry), [registry])
+  const distinctive = useMemo(() => distinctiveTerms(docs, eras), [docs, eras])
+  const queries = useMemo(() => parseTermQueries(input), [input])
+  const trends = useMemo(() => termTrends(docs, queries, groupBy), [docs, queries, groupBy])
+
+  useEffect(() => {
+    const svg = d3.select(svgRef.current)
+    svg.selectAll('*').remove()
+    if (size.width <= 0 || size.height <= 0) return
+    if (trends.length === 0 || trends[0].points.length === 0) return
+
+    const keys = trends[0].points.map(p => p.key)
+    const labelByKey = new Map(trends[0].points.map(p => [p.key, p.label]))
+    const color = d3.scaleOrdinal<string>().domain(trends.map(t => t.query.raw)).range(palette.categorical)
+
+    const x = d3
+      .scalePoint<number>()
+      .domain(keys)
+      .range([MARGIN.left, size.width - MARGIN.right])
+      .padding(0.3)
+    const maxValue = d3.max(trends, t => d3.max(t.points, p => p.per1000)) ?? 0
+    const y = d3
+      .scaleLinear()
+      .domain([0, Math.max(10, maxValue)])
+      .nice()
+      .range([size.height - MARGIN.bottom, MARGIN.top])
+
+    svg
+      .append('g')
+      .attr('transform', `translate(0, ${size.height - MARGIN.bottom})`)
+      .call(d3.axisBottom(x).tickFormat(k => labelByKey.get(k) ?? String(k)))
+      .call(g => g.selectAll('text').style('font-size', groupBy === 'year' ? '10px' : '11px'))
+
+    svg
+      .append('g')
+      .attr('transform', `translate(${MARGIN.left}, 0)`)
+      .call(d3.axisLeft(y).ticks(5))
+
+    svg
+      .append('text')
+      .attr('transform', `translate(16, ${(MARGIN.top + size.height - MARGIN.bottom) / 2}) rotate(-90)`)
+      .attr('text-anchor', 'middle')
+      .style('font-size', '12px')
+      .text('Reviews mentioning term per 1,000')
+
+    // Shade the decline era
+    const turningPoint = eras.turningPoint
+    if (turningPoint) {
+      const pivot = groupBy === 'year' ? turningPoint.year : turningPoint.phase
+      const start = x(pivot)
+      if (start !== undefined) {
+        svg
+          .append('rect')
+          .attr('x', start + x.step() / 2)
+          .attr('y', MARGIN.top)
+          .attr('width', Math.max(0, size.width - MARGIN.right - start - x.step() / 2))
+          .attr('height', size.height - MARGIN.top - MARGIN.bottom)
+          .attr('fill', 'rgba(0,0,0,0.04)')
+        svg
+          .append('text')
+          .attr('x', start + x.step() / 2 + 6)
+          .attr('y', MARGIN.top + 12)
+          .style('font-size', '10px')
+          .style('fill', 'rgba(0,0,0,0.55)')
+          .text('After Endgame')
+      }
+    }
+
+    const line = d3
+      .line<{ key: number; per1000: number }>()
+      .x(d => x(d.key) ?? 0)
+      .y(d => y(d.per1000))
+
+    const series = svg
+      .append('g')
+      .selectAll('g')
+      .data(trends)
+      .join('g')
+
+    series
+      .append('path')
+      .attr('fill', 'none')
+      .attr('stroke', t => color(t.query.raw))
+      .attr('stroke-width', 2)
+      .attr('d', t => line(t.points))
+
+    const pointLabel = (d: TermTrendPoint & { term: string }) =>
+      `${d.term} · ${d.label}: ${d.per1000.toFixed(1)} per 1,000 (${d.matches} of ${d.reviews} reviews)`
+
+    const points = series
+      .selectAll('circle')
+      .data(t => t.points.map(p => ({ ...p, term: t.query.raw })))
+      .join('circle')
+      .attr('cx', d => x(d.key) ?? 0)
+      .attr('cy', d => y(d.per1000))
+      .attr('r', 3.5)
+      .attr('fill', d => color(d.term))
+
+    points.append('title').text(pointLabel)
+
+    // One term's line at a time, left to right
+    keyboardMarks(points, { label: pointLabel, key: d => `${d.term}:${d.key}` })
+
+    // Direct labels at the end of each line instead of a separate legend
+    series
+      .append('text')
+      .attr('x', size.width - MARGIN.right + 8)
+      .attr('y', t => y(t.points[t.points.length - 1].per1000))
+      .attr('dy', '0.32em')
+      .style('font-size', '11px')
+      .style('font-weight', 700)
+      .style('fill', t => color(t.query.raw))
+      .text(t => `${t.query.raw} (${t.totalMatches})`)
+  }, [trends, size, groupBy, eras, palette])
+
+  const tableColumns: DataColumn<TermTrendPoint>[] = [
+    { label: groupBy === 'year' ? 'Year' : 'Phase', value: p => p.label },
+    { label: 'Reviews', value: p => p.reviews },
+    ...trends.map(t => ({
+      label: `${t.query.raw} per 1,000`,
+      value: (p: TermTrendPoint) => t.points.find(q => q.key === p.key)?.per1000.toFixed(1) ?? null
+    }))
+  ]
+
+  return (
+    <div style={{ width: '100%', height: '100%', display: 'grid', gridTemplateColumns: 'minmax(0, 1fr) 340px', gap: 16 }}>
+      <div style={{ display: 'flex', flexDirection: 'column', minWidth: 0 }}>
+        <div style={{ display: 'flex', alignItems: 'center', gap: 8, flexWrap: 'wrap' }}>
+          <div style={{ fontSize: 15, fontWeight: 900, marginRight: 8 }}>Term Trends in Reviews</div>
+          <input
+            value={input}
+            onChange={event => setInput(event.target.value)}
+            placeholder="Comma-separated terms, e.g. fatigue, fatigu*, Disney+"
+            style={{ flex: '1 1 260px', fontSize: 13, padding: '5px 8px', borderRadius: 8, border: '1px solid rgba(0,0,0,0.2)' }}
+          />
+          <button type="button" style={btnStyle(groupBy === 'year')} onClick={() => setGroupBy('year')}>
+            By year
+          </button>
+          <button type="button" style={btnStyle(groupBy === 'phase')} onClick={() => setGroupBy('phase')}>
+            By phase
+          </button>
+        </div>
+        <div style={{ fontSize: 11, color: 'rgba(0,0,0,0.55)', marginTop: 4 }}>
+          End a term with * to match any ending. Hover over a point for counts.
+        </div>
+        <div ref={containerRef} style={{ flex: 1, minHeight: 0 }}>
+          <svg ref={svgRef} width="100%" height="100%" role="group" aria-label="Reviews mentioning each term, per 1,000 reviews" />
+        </div>
+        <ChartDataTable
+          caption={`Reviews mentioning each term per 1,000 reviews, by ${groupBy}`}
+          columns={tableColumns}
+          rows={trends[0]?.points ?? []}
+        />
+      </div>
+
+      <div style={{ minWidth: 0, overflowY: 'auto' }}>
+        <div style={{ fontSize: 13, fontWeight: 900 }}>Distinctive terms by era</div>
+        <div style={{ fontSize: 11, color: 'rgba(0,0,0,0.55)', margin: '2px 0 8px' }}>
+          Ranked by log-odds. Numbers are mentions per 1,000 reviews in this era vs the other.
+        </div>
+        <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 12 }}>
+          <TermList era="rise" terms={distinctive.rise} />
+          <TermList era="decline" terms={distinctive.decline} />
+        </div>
+      </div>
+    </div>
+  )
+}
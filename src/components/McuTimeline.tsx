@@ -1,75 +1,57 @@
-import React, { useEffect, useRef, useState } from 'react'
+import React, { useEffect, useMemo, useRef, useState } from 'react'
 import * as d3 from 'd3'
 import { useResizeObserver, useDebounceCallback } from 'usehooks-ts'
-import { ComponentSize, Margin } from '../types'
+import { AnnotationAnchor, ComponentSize, Margin, Phase } from '../types'
+import { annotationsForView } from '../data/annotations'
+import { useMcuData } from '../stores/McuData'
+import { useCrossFilter } from '../stores/CrossFilter'
+import { useScrollytelling } from '../stores/Scrollytelling'
+import { CROSS_FILTER_ACTIONS, Emphasis } from '../stores/Reducer'
+import { focusPoint, keyboardMarks, motionMs } from './chartA11y'
+import ChartDataTable from './ChartDataTable'
+import { useChartPalette } from '../theme'
 
 /** =========================
- *  Manual “important movies”
+ *  Important movies
  *  =========================
- *  Key MUST match CSV `title` exactly
- *  manually write the note
+ *  Notes come from data/mcu_annotations.json (view "timeline").
  *  anchor controls which side gets the ANNOTATION.
  *       anchor = 'top'    => annotation on top, poster on bottom
  *       anchor = 'bottom' => annotation on bottom, poster on top
  */
-type Anchor = 'top' | 'bottom'
-type ImportantMeta = { anchor: Anchor; note: string }
-const IMPORTANT: Record<string, ImportantMeta> = {
-  'Iron Man': { anchor: 'bottom', note: 'Kickstarts the MCU and defines its tone' },
-  'The Avengers': { anchor: 'top', note: 'First major crossover event + Huge box office success' },
-  'Iron Man 3': { anchor: 'bottom', note: 'Phase 2 starts' },
-  'Captain America: The Winter Soldier': { anchor: 'top', note: 'Political thriller tone + Elevated storytelling' },
-  'Captain America: Civil War': { anchor: 'bottom', note: 'Phase 3 starts + Setting up the next Avengers movie' },
-  'Black Panther': { anchor: 'top', note: 'First superhero movie nominated for Best Picture' },
-  'Avengers: Endgame': {anchor: 'bottom', note: 'Infinity Saga finale + Peak MCU + Huge cultural moment + Higest box office/ IMDB rating'},
-  'Black Widow': { anchor: 'top', note: 'Phase 4 starts + Weak rating/box office + Weak start after Endgame' },
-  'Spider-Man: No Way Home': { anchor: 'bottom', note: 'Global success + Last “Endgame-level” cultural moment' },
-  'Ant-Man and the Wasp: Quantumania': { anchor: 'bottom', note: 'Phase 5 starts + Weak Performance + Turning point in audience fatigue' },
-  'The Marvels': { anchor: 'bottom', note: 'Worst proifit/rating MCU movie in history' },
-  'The Fantastic 4: First Steps': { anchor: 'top', note: 'Phase 6 starts + Slight underperformance in rating/box office' }
-}
-
-type Phase = 1 | 2 | 3 | 4 | 5 | 6
-
-type CsvRow = {
-  id: string
-  title: string
-  phase: string
-  release_date: string
-  poster_path: string
-}
-
 type Movie = {
   id: string
   title: string
   phase: Phase
+  year: number
   releaseDate: Date
   releaseDateStr: string
   posterUrl: string
 
   important: boolean
-  anchor?: Anchor
+  anchor?: AnnotationAnchor
   note?: string
 }
 
+// Dot radius and stroke per cross-filter emphasis
+const DOT_STYLE: Record<Emphasis, { r: number; strokeWidth: number; opacity: number }> = {
+  hovered: { r: 8, strokeWidth: 2.5, opacity: 1 },
+  selected: { r: 7, strokeWidth: 2.5, opacity: 1 },
+  dimmed: { r: 6, strokeWidth: 1.5, opacity: 0.25 },
+  default: { r: 6, strokeWidth: 1.5, opacity: 1 }
+}
+
+// End labels of the full timeline; a story zoom swaps in the window's years
+const START_YEAR_LABEL = '2008'
+const END_YEAR_LABEL = '2026'
+const ZOOM_DURATION_MS = 750
+
 type PhaseRange = {
   phase: Phase
   start: Date
   end: Date
 }
 
-const TMDB_POSTER_BASE = 'https://image.tmdb.org/t/p/w185' // use w342 if you want bigger posters
-
-function parsePhase(raw: string): Phase | null {
-  const n = Number(String(raw).trim())
-  if (n >= 1 && n <= 6) return n as Phase
-  return null
-}
-
-function isValidDate(d: Date) {
-  return !Number.isNaN(d.getTime())
-}
-
 function midpoint(a: Date, b: Date) {
   return new Date((a.getTime() + b.getTime()) / 2)
 }
@@ -113,103 +95,77 @@ function wrapSvgText(textSel: d3.Selection<SVGTextElement, string, any, any>, ma
 export default function McuTimeline() {
   const containerRef = useRef<HTMLDivElement>(null)
   const svgRef = useRef<SVGSVGElement | null>(null)
+  // Full-range scale from the last draw, the base for story zooms
+  const xRef = useRef<d3.ScaleTime<number, number> | null>(null)
 
   const [size, setSize] = useState<ComponentSize>({ width: 0, height: 0 })
   const onResize = useDebounceCallback((s: ComponentSize) => setSize(s), 50)
   useResizeObserver({ ref: containerRef as React.RefObject<HTMLDivElement>, onResize })
 
-  const [movies, setMovies] = useState<Movie[]>([])
-  const [phaseRanges, setPhaseRanges] = useState<PhaseRange[]>([])
+  const { movies: mcuMovies, annotations } = useMcuData()
+  const { selection, dispatch, emphasis } = useCrossFilter()
+  const palette = useChartPalette()
+  const { target } = useScrollytelling()
+  const zoomWindow = target.timelineWindow ?? null
+
+  const importantById = useMemo(() => annotationsForView(annotations, 'timeline'), [annotations])
+
+  const movies: Movie[] = useMemo(
+    () =>
+      mcuMovies.map(m => {
+        const meta = importantById.get(m.id)
+        return {
+          id: m.id,
+          title: m.title,
+          phase: m.phase,
+          year: m.year,
+          releaseDate: m.releaseDate,
+          releaseDateStr: m.releaseDateStr,
+          posterUrl: m.posterUrl ?? '',
+
+          important: !!meta,
+          anchor: meta?.anchor,
+          note: meta?.note
+        }
+      }),
+    [mcuMovies, importantById]
+  )
 
-  // Load CSV once
-  useEffect(() => {
-    let cancelled = false
-
-    async function load() {
-      const rows = (await d3.csv('/data/marvel_movies_tmdb.csv')) as unknown as CsvRow[]
-
-      const parsed: Movie[] = rows
-        .map(r => {
-          const phase = parsePhase(r.phase)
-          const date = new Date(r.release_date)
-          if (!phase) return null
-          if (!isValidDate(date)) return null
-
-          const title = (r.title ?? '').trim()
-          if (!title) return null
-          if (title === 'The Incredible Hulk') return null // exclude
-
-          const meta = IMPORTANT[title]
-          const posterPath = (r.poster_path ?? '').trim()
-          const posterUrl = posterPath ? `${TMDB_POSTER_BASE}${posterPath}` : ''
-
-          return {
-            id: String(r.id),
-            title,
-            phase,
-            releaseDate: date,
-            releaseDateStr: r.release_date,
-            posterUrl,
-
-            important: !!meta,
-            anchor: meta?.anchor,
-            note: meta?.note
-          } satisfies Movie
-        })
-        .filter((x): x is Movie => x !== null)
-        .sort((a, b) => a.releaseDate.getTime() - b.releaseDate.getTime())
-
-      // Compute CONTIGUOUS phase ranges (no gaps) via midpoints between phase ends/starts.
-      const grouped = d3.group(parsed, d => d.phase)
-      const firstOf: Partial<Record<Phase, Date>> = {}
-      const lastOf: Partial<Record<Phase, Date>> = {}
-
-      ;([1, 2, 3, 4, 5, 6] as Phase[]).forEach(p => {
-        const list = grouped.get(p)
-        if (!list || list.length === 0) return
-        firstOf[p] = list[0].releaseDate
-        lastOf[p] = list[list.length - 1].releaseDate
-      })
+  // Compute CONTIGUOUS phase ranges (no gaps) via midpoints between phase ends/starts.
+  const phaseRanges: PhaseRange[] = useMemo(() => {
+    const grouped = d3.group(movies, d => d.phase)
+    const firstOf: Partial<Record<Phase, Date>> = {}
+    const lastOf: Partial<Record<Phase, Date>> = {}
+
+    ;([1, 2, 3, 4, 5, 6] as Phase[]).forEach(p => {
+      const list = grouped.get(p)
+      if (!list || list.length === 0) return
+      firstOf[p] = list[0].releaseDate
+      lastOf[p] = list[list.length - 1].releaseDate
+    })
 
-      const overallStart = parsed[0]?.releaseDate
-      const overallEnd = parsed[parsed.length - 1]?.releaseDate
-
-      const ranges: PhaseRange[] = []
-      if (overallStart && overallEnd) {
-        const phases = ([1, 2, 3, 4, 5, 6] as Phase[]).filter(p => firstOf[p] && lastOf[p])
-        if (phases.length > 0) {
-          const boundaries: Date[] = [overallStart]
-          for (let i = 0; i < phases.length - 1; i++) {
-            const p = phases[i]
-            const next = phases[i + 1]
-            boundaries.push(midpoint(lastOf[p]!, firstOf[next]!))
-          }
-          boundaries.push(overallEnd)
-
-          for (let i = 0; i < phases.length; i++) {
-            ranges.push({ phase: phases[i], start: boundaries[i], end: boundaries[i + 1] })
-          }
+    const overallStart = movies[0]?.releaseDate
+    const overallEnd = movies[movies.length - 1]?.releaseDate
+
+    const ranges: PhaseRange[] = []
+    if (overallStart && overallEnd) {
+      const phases = ([1, 2, 3, 4, 5, 6] as Phase[]).filter(p => firstOf[p] && lastOf[p])
+      if (phases.length > 0) {
+        const boundaries: Date[] = [overallStart]
+        for (let i = 0; i < phases.length - 1; i++) {
+          const p = phases[i]
+          const next = phases[i + 1]
+          boundaries.push(midpoint(lastOf[p]!, firstOf[next]!))
         }
-      }
+        boundaries.push(overallEnd)
 
-      if (!cancelled) {
-        setMovies(parsed)
-        setPhaseRanges(ranges)
-      }
-    }
-
-    load().catch(err => {
-      console.error('Failed to load CSV:', err)
-      if (!cancelled) {
-        setMovies([])
-        setPhaseRanges([])
+        for (let i = 0; i < phases.length; i++) {
+          ranges.push({ phase: phases[i], start: boundaries[i], end: boundaries[i + 1] })
+        }
       }
-    })
-
-    return () => {
-      cancelled = true
     }
-  }, [])
+    return ranges
+  }, [movies])
 
   useEffect(() => {
     if (!svgRef.current) return
@@ -233,17 +189,11 @@ export default function McuTimeline() {
     const maxDate = movies[movies.length - 1].releaseDate
 
     const x = d3.scaleTime().domain([minDate, maxDate]).range([x0, x1])
+    xRef.current = x
 
     // Colors
-    const phaseColors: Record<Phase, string> = {
-      1: '#1f77b4',
-      2: '#ff7f0e',
-      3: '#2ca02c',
-      4: '#d62728',
-      5: '#9467bd',
-      6: '#8c564b'
-    }
-    const dotColor = '#FFCC00'
+    const phaseColors = palette.phase
+    const dotColor = palette.title
 
     // Split important / normal
     const importantMovies = movies.filter(m => m.important)
@@ -266,7 +216,7 @@ export default function McuTimeline() {
       .style('padding', '10px')
       .style('max-width', '260px')
 
-    const showTooltip = (event: MouseEvent, d: Movie) => {
+    const showTooltip = (event: { clientX: number; clientY: number }, d: Movie) => {
     const containerBox = containerRef.current!.getBoundingClientRect()
 
     const imgHtml = d.posterUrl
@@ -294,6 +244,26 @@ export default function McuTimeline() {
       .style('left', `${Math.min(px + 14, containerBox.width - 270)}px`)
       .style('top', `${Math.max(py - 10, 8)}px`)
   }
+    // Zoomed-in views push titles past the ends: the track is cut at the end
+    // labels, posters and notes a little further out
+    const defs = svg.append('defs')
+    defs
+      .append('clipPath')
+      .attr('id', 'mcu-timeline-track-clip')
+      .append('rect')
+      .attr('x', x0 - 8)
+      .attr('y', 0)
+      .attr('width', x1 - x0 + 16)
+      .attr('height', height)
+    defs
+      .append('clipPath')
+      .attr('id', 'mcu-timeline-anno-clip')
+      .append('rect')
+      .attr('x', x0 - 45)
+      .attr('y', 0)
+      .attr('width', x1 - x0 + 90)
+      .attr('height', height)
+
     // Title
     svg
       .append('text')
@@ -320,27 +290,30 @@ export default function McuTimeline() {
 
     svg
       .append('text')
+      .attr('class', 'timeline-start-year')
       .attr('x', x0 - yearLabelPad - 5)
       .attr('y', yMid + 5)
       .style('text-anchor', 'end')
       .style('font-size', '13px')
       .style('font-weight', 700)
       .style('fill', 'rgba(0,0,0,0.65)')
-      .text('2008')
+      .text(START_YEAR_LABEL)
 
     svg
       .append('text')
+      .attr('class', 'timeline-end-year')
       .attr('x', x1 + yearLabelPad + 5)
       .attr('y', yMid + 5)
       .style('text-anchor', 'start')
       .style('font-size', '13px')
       .style('font-weight', 700)
       .style('fill', 'rgba(0,0,0,0.65)')
-      .text('2026')
+      .text(END_YEAR_LABEL)
 
     // Phase line segments (contiguous)
     svg
       .append('g')
+      .attr('clip-path', 'url(#mcu-timeline-track-clip)')
       .selectAll('line.phase-line')
       .data(phaseRanges)
       .join('line')
@@ -355,7 +328,7 @@ export default function McuTimeline() {
       .attr('opacity', 0.92)
 
     // Dots group
-    const gDots = svg.append('g').attr('class', 'dots')
+    const gDots = svg.append('g').attr('class', 'dots').attr('clip-path', 'url(#mcu-timeline-track-clip)')
     const dotR = 6
     const dotStrokeW = 1.5
     const dotOuterR = dotR + dotStrokeW / 2
@@ -387,20 +360,21 @@ export default function McuTimeline() {
       .attr('fill', dotColor)
       .attr('stroke', 'black')
       .attr('stroke-width', dotStrokeW)
-      .style('cursor', 'default')
+      .style('cursor', 'pointer')
 
     normalNodes
       .on('mouseenter', function (event, d) {
         showTooltip(event as unknown as MouseEvent, d)
-        d3.select(this).attr('r', 7)
+        dispatch({ type: CROSS_FILTER_ACTIONS.HOVER, titleId: d.id, year: d.year })
       })
       .on('mousemove', function (event, d) {
         showTooltip(event as unknown as MouseEvent, d)
       })
       .on('mouseleave', function () {
         tooltip.style('display', 'none')
-        d3.select(this).attr('r', 6)
+        dispatch({ type: CROSS_FILTER_ACTIONS.HOVER, titleId: null, year: null })
       })
+      .on('click', (_event, d) => dispatch({ type: CROSS_FILTER_ACTIONS.TOGGLE_TITLE, titleId: d.id }))
 
     // ===== Important posters + annotations (opposite sides) =====
     const posterW = 48
@@ -411,7 +385,7 @@ export default function McuTimeline() {
     const labelGap = 35
 
     // =========================
-    // Lane assignment (IMPORTANT only)
+    // Lane assignment (important movies only)
     // =========================
     type LaneDatum = Movie & { __laneTop?: number; __laneBottom?: number }
     const importantWithLanes: LaneDatum[] = importantMovies.map(d => d as LaneDatum)
@@ -546,23 +520,40 @@ export default function McuTimeline() {
       .attr('fill', dotColor)
       .attr('stroke', 'black')
       .attr('stroke-width', dotStrokeW)
-      .style('cursor', 'default')
+      .style('cursor', 'pointer')
 
     importantNodes
       .on('mouseenter', function (event, d) {
         showTooltip(event as unknown as MouseEvent, d)
-        d3.select(this).attr('r', 7)
+        dispatch({ type: CROSS_FILTER_ACTIONS.HOVER, titleId: d.id, year: d.year })
       })
       .on('mousemove', function (event, d) {
         showTooltip(event as unknown as MouseEvent, d)
       })
       .on('mouseleave', function () {
         tooltip.style('display', 'none')
-        d3.select(this).attr('r', 6)
+        dispatch({ type: CROSS_FILTER_ACTIONS.HOVER, titleId: null, year: null })
+      })
+      .on('click', (_event, d) => dispatch({ type: CROSS_FILTER_ACTIONS.TOGGLE_TITLE, titleId: d.id }))
+
+    // Keyboard: all dots form one tab stop, walked in release order
+    keyboardMarks(gDots.selectAll<SVGCircleElement, Movie>('circle.movie-dot, circle.important-dot'), {
+      label: d => `${d.title}, released ${d.releaseDateStr}, Phase ${d.phase}${d.note ? `. ${d.note}` : ''}`,
+      key: d => d.id,
+      order: (a, b) => a.releaseDate.getTime() - b.releaseDate.getTime(),
+      onFocus: (element, d) => {
+        showTooltip(focusPoint(element), d)
+        dispatch({ type: CROSS_FILTER_ACTIONS.HOVER, titleId: d.id, year: d.year })
+      },
+      onBlur: () => {
+        tooltip.style('display', 'none')
+        dispatch({ type: CROSS_FILTER_ACTIONS.HOVER, titleId: null, year: null })
+      },
+      onActivate: d => dispatch({ type: CROSS_FILTER_ACTIONS.TOGGLE_TITLE, titleId: d.id })
     })
 
     // Annotations group (behind dots)
-    const gAnno = svg.append('g').attr('class', 'important-annotations')
+    const gAnno = svg.append('g').attr('class', 'important-annotations').attr('clip-path', 'url(#mcu-timeline-anno-clip)')
     gAnno.lower()
 
     // Connector: dot -> poster
@@ -741,6 +732,8 @@ export default function McuTimeline() {
       .join('g')
       .attr('class', 'item')
       .attr('transform', (_d, i) => `translate(${i * 120}, 0)`)
+      .style('cursor', 'pointer')
+      .on('click', (_event, d) => dispatch({ type: CROSS_FILTER_ACTIONS.TOGGLE_PHASE, phase: d.phase }))
 
     item
       .append('circle')
@@ -759,6 +752,12 @@ export default function McuTimeline() {
       .style('fill', 'rgba(0,0,0,0.75)')
       .text(d => d.label)
 
+    keyboardMarks(item, {
+      label: d => `Select ${d.label}`,
+      key: d => String(d.phase),
+      onActivate: d => dispatch({ type: CROSS_FILTER_ACTIONS.TOGGLE_PHASE, phase: d.phase })
+    })
+
     const hint = svg
       .append('text')
       .attr('x', margin.left)
@@ -773,8 +772,67 @@ export default function McuTimeline() {
       .append('tspan')
       .attr('x', margin.left)
       .attr('dy', '1.15em')
-      .text('the name and poster')
-  }, [movies, phaseRanges, size])
+      .text('the name and poster.')
+    hint.append('tspan').attr('x', margin.left).attr('dy', '1.15em').text('Click a dot or phase to select it')
+  }, [movies, phaseRanges, size, palette])
+
+  // Restyle for the cross-filter selection without redrawing the posters and notes
+  useEffect(() => {
+    if (!svgRef.current) return
+    const svg = d3.select(svgRef.current)
+
+    svg
+      .selectAll<SVGCircleElement, Movie>('circle.movie-dot, circle.important-dot')
+      .attr('r', d => DOT_STYLE[emphasis(d)].r)
+      .attr('stroke-width', d => DOT_STYLE[emphasis(d)].strokeWidth)
+      .attr('opacity', d => DOT_STYLE[emphasis(d)].opacity)
+      .attr('aria-pressed', d => selection.titleIds.includes(d.id))
+
+    svg
+      .selectAll<SVGGElement, Movie>('g.anno')
+      .attr('opacity', d => (emphasis(d) === 'dimmed' ? 0.3 : 1))
+
+    svg
+      .selectAll<SVGGElement, { phase: Phase }>('g.item')
+      .attr('opacity', d => (selection.phases.length === 0 || selection.phases.includes(d.phase) ? 1 : 0.4))
+      .attr('aria-pressed', d => selection.phases.includes(d.phase))
+  }, [selection, emphasis, movies, phaseRanges, size, palette])
+
+  // Story zoom: everything placed along x glides to the window's scale, lanes stay put
+  useEffect(() => {
+    if (!svgRef.current || !xRef.current) return
+    const svg = d3.select(svgRef.current)
+    const base = xRef.current
+    const x = zoomWindow
+      ? base.copy().domain([new Date(zoomWindow.from, 0, 1), new Date(zoomWindow.to, 11, 31)])
+      : base
+    const t = svg.transition('zoom').duration(motionMs(ZOOM_DURATION_MS)).ease(d3.easeCubicInOut)
+
+    svg
+      .selectAll<SVGLineElement, PhaseRange>('line.phase-line')
+      .transition(t)
+      .attr('x1', d => x(d.start))
+      .attr('x2', d => x(d.end))
+
+    svg
+      .selectAll<SVGCircleElement, Movie>('circle.movie-dot, circle.important-dot, circle.connector-poster-end, circle.connector-label-end')
+      .transition(t)
+      .attr('cx', d => x(d.releaseDate))
+
+    svg
+      .selectAll<SVGLineElement, Movie>('line.connector-poster, line.connector-label')
+      .transition(t)
+      .attr('x1', d => x(d.releaseDate))
+      .attr('x2', d => x(d.releaseDate))
+
+    svg
+      .selectAll<SVGGElement, Movie>('g.anno')
+      .transition(t)
+      .attr('transform', d => `translate(${x(d.releaseDate)}, 0)`)
+
+    svg.select('text.timeline-start-year').text(zoomWindow ? String(zoomWindow.from) : START_YEAR_LABEL)
+    svg.select('text.timeline-end-year').text(zoomWindow ? String(zoomWindow.to) : END_YEAR_LABEL)
+  }, [zoomWindow, movies, phaseRanges, size, palette])
 
   return (
     <div
@@ -788,7 +846,17 @@ export default function McuTimeline() {
         justifyContent: 'center'
       }}
     >
-      <svg ref={svgRef} width="100%" height="100%" />
+      <svg ref={svgRef} width="100%" height="100%" role="group" aria-label="MCU timeline: movies by release date, colored by phase" />
+      <ChartDataTable
+        caption="MCU movies by release date"
+        columns={[
+          { label: 'Title', value: (d: Movie) => d.title },
+          { label: 'Release date', value: d => d.releaseDateStr },
+          { label: 'Phase', value: d => d.phase },
+          { label: 'Note', value: d => d.note ?? '' }
+        ]}
+        rows={movies}
+      />
     </div>
   )
 }
@@ -1,23 +1,13 @@
-import React, { useEffect, useRef, useState } from 'react'
+import React, { useEffect, useMemo, useRef, useState } from 'react'
 import * as d3 from 'd3'
 import { useResizeObserver, useDebounceCallback } from 'usehooks-ts'
-import { ComponentSize, Margin } from '../types'
-
-type MovieRow = {
-  id: string
-  title: string
-  phase: string
-  release_date: string
-}
-
-type ShowRow = {
-  title: string
-  phase: string
-  release_date: string
-  imdb_id: string
-  imdb_average_rating: string
-  imdb_vote_count: string
-}
+import { ComponentSize, Margin, Title } from '../types'
+import { useMcuData } from '../stores/McuData'
+import { useCrossFilter } from '../stores/CrossFilter'
+import { CROSS_FILTER_ACTIONS, Emphasis } from '../stores/Reducer'
+import { focusPoint, keyboardMarks } from './chartA11y'
+import ChartDataTable from './ChartDataTable'
+import { useChartPalette } from '../theme'
 
 type YearBin = {
   year: number
@@ -26,16 +16,16 @@ type YearBin = {
   total: number
 }
 
-type YearItemMap = Map<number, { movies: string[]; shows: string[] }>
+type YearItemMap = Map<number, { movies: Title[]; shows: Title[] }>
 
-function isValidDate(d: Date) {
-  return !Number.isNaN(d.getTime())
-}
+type StackedTitle = { title: Title; cy: number }
 
-function parseYear(dateStr: string): number | null {
-  const d = new Date(String(dateStr ?? '').trim())
-  if (!isValidDate(d)) return null
-  return d.getFullYear()
+// Outline and fade per cross-filter emphasis; hover size changes stay local
+const MARK_STYLE: Record<Emphasis, { strokeWidth: number; opacity: number }> = {
+  hovered: { strokeWidth: 2.2, opacity: 1 },
+  selected: { strokeWidth: 2.2, opacity: 1 },
+  dimmed: { strokeWidth: 1, opacity: 0.22 },
+  default: { strokeWidth: 1, opacity: 1 }
 }
 
 export default function McuYearDotPlot() {
@@ -46,101 +36,53 @@ export default function McuYearDotPlot() {
   const onResize = useDebounceCallback((s: ComponentSize) => setSize(s), 50)
   useResizeObserver({ ref: containerRef as React.RefObject<HTMLDivElement>, onResize })
 
-  const [bins, setBins] = useState<YearBin[]>([])
-  const [itemsByYear, setItemsByYear] = useState<YearItemMap>(new Map())
-  const [yearDomain, setYearDomain] = useState<{ minYear: number; maxYear: number } | null>(null)
+  const { movies, shows } = useMcuData()
+  const { selection, dispatch, emphasis } = useCrossFilter()
+  const palette = useChartPalette()
 
   // =========================
-  // Load CSVs + build year bins
+  // Build year bins
   // =========================
-  useEffect(() => {
-    let cancelled = false
-
-    async function load() {
-      const [movieRows, showRows] = await Promise.all([
-        d3.csv('/data/marvel_movies_tmdb.csv') as unknown as Promise<MovieRow[]>,
-        d3.csv('/data/marvel_shows_data.csv') as unknown as Promise<ShowRow[]>
-      ])
-
-      const movieItems = movieRows
-        .filter(r => r.title !== 'The Incredible Hulk')
-        .map(r => {
-          const year = parseYear(r.release_date)
-          const title = String(r.title ?? '').trim()
-          return year === null || !title ? null : { year, title }
-        })
-        .filter((d): d is { year: number; title: string } => d !== null)
+  const { bins, itemsByYear, yearDomain } = useMemo(() => {
+    const movieYears = movies.map(d => d.year)
+    const showYears = shows.map(d => d.year)
 
-      const showItems = showRows
-        .map(r => {
-          const year = parseYear(r.release_date)
-          const title = String(r.title ?? '').trim()
-          return year === null || !title ? null : { year, title }
-        })
-        .filter((d): d is { year: number; title: string } => d !== null)
-
-      const movieYears = movieItems.map(d => d.year)
-      const showYears = showItems.map(d => d.year)
-
-      if (movieYears.length === 0 && showYears.length === 0) {
-        if (!cancelled) {
-          setBins([])
-          setItemsByYear(new Map())
-          setYearDomain(null)
-        }
-        return
-      }
-
-      const minYear = Math.min(
-        ...(movieYears.length ? movieYears : [9999]),
-        ...(showYears.length ? showYears : [9999])
-      )
-      const maxYear = Math.max(
-        ...(movieYears.length ? movieYears : [0]),
-        ...(showYears.length ? showYears : [0])
-      )
-
-      const movieCount = d3.rollup(movieYears, v => v.length, y => y)
-      const showCount = d3.rollup(showYears, v => v.length, y => y)
-      const yearItems: YearItemMap = new Map()
-
-      for (let y = minYear; y <= maxYear; y++) yearItems.set(y, { movies: [], shows: [] })
-      for (const d of movieItems) {
-        const bucket = yearItems.get(d.year)
-        if (bucket) bucket.movies.push(d.title)
-      }
-      for (const d of showItems) {
-        const bucket = yearItems.get(d.year)
-        if (bucket) bucket.shows.push(d.title)
-      }
-
-      const out: YearBin[] = []
-      for (let y = minYear; y <= maxYear; y++) {
-        const m = movieCount.get(y) ?? 0
-        const s = showCount.get(y) ?? 0
-        out.push({ year: y, movies: m, shows: s, total: m + s })
-      }
-
-      if (!cancelled) {
-        setBins(out)
-        setItemsByYear(yearItems)
-        setYearDomain({ minYear, maxYear })
-      }
+    if (movieYears.length === 0 && showYears.length === 0) {
+      return { bins: [] as YearBin[], itemsByYear: new Map() as YearItemMap, yearDomain: null }
     }
 
-    load().catch(err => {
-      console.error('Failed to load dot-plot CSVs:', err)
-      if (!cancelled) {
-        setBins([])
-        setItemsByYear(new Map())
-        setYearDomain(null)
-      }
-    })
+    const minYear = Math.min(
+      ...(movieYears.length ? movieYears : [9999]),
+      ...(showYears.length ? showYears : [9999])
+    )
+    const maxYear = Math.max(
+      ...(movieYears.length ? movieYears : [0]),
+      ...(showYears.length ? showYears : [0])
+    )
+
+    const movieCount = d3.rollup(movieYears, v => v.length, y => y)
+    const showCount = d3.rollup(showYears, v => v.length, y => y)
+    const yearItems: YearItemMap = new Map()
+
+    for (let y = minYear; y <= maxYear; y++) yearItems.set(y, { movies: [], shows: [] })
+    for (const d of movies) {
+      const bucket = yearItems.get(d.year)
+      if (bucket) bucket.movies.push(d)
+    }
+    for (const d of shows) {
+      const bucket = yearItems.get(d.year)
+      if (bucket) bucket.shows.push(d)
+    }
 
-    return () => {
-      cancelled = true
+    const out: YearBin[] = []
+    for (let y = minYear; y <= maxYear; y++) {
+      const m = movieCount.get(y) ?? 0
+      const s = showCount.get(y) ?? 0
+      out.push({ year: y, movies: m, shows: s, total: m + s })
     }
-  }, [])
+
+    return { bins: out, itemsByYear: yearItems, yearDomain: { minYear, maxYear } }
+  }, [movies, shows])
 
   // Draw
   useEffect(() => {
@@ -175,7 +117,7 @@ export default function McuYearDotPlot() {
       .style('overflow', 'hidden')
       .style('text-overflow', 'ellipsis')
 
-    const showTooltip = (event: MouseEvent, title: string) => {
+    const showTooltip = (event: { clientX: number; clientY: number }, title: string) => {
       const box = containerRef.current!.getBoundingClientRect()
       const px = event.clientX - box.left
       const py = event.clientY - box.top
@@ -224,7 +166,7 @@ export default function McuYearDotPlot() {
       .style('font-size', '11px')
       .style('font-weight', 500)
       .style('fill', 'rgba(0,0,0,0.55)')
-      .text('Hover over the dot to see the title')
+      .text('Hover over the dot to see the title, click to select it')
 
     // Put the baseline low-ish but leave space for labels
     const yLine = height - margin.bottom - 10
@@ -293,7 +235,7 @@ export default function McuYearDotPlot() {
       .text(d => String(d))
 
     // legend
-    const MOVIE_FILL = 'rgba(255, 204, 0, 0.95)'
+    const MOVIE_FILL = palette.title
     const SHOW_FILL = MOVIE_FILL
 
     const legend = svg.append('g').attr('transform', `translate(${x0}, ${margin.top + 40})`)
@@ -340,13 +282,14 @@ export default function McuYearDotPlot() {
     for (const b of bins) {
       const cx = xTime(yearToDate(b.year))
       const yearItems = itemsByYear.get(b.year) ?? { movies: [], shows: [] }
-      const movieData = yearItems.movies.map((title, i) => ({ title, cy: yLine - (i + 1) * dotStep }))
+      const movieData: StackedTitle[] = yearItems.movies.map((title, i) => ({ title, cy: yLine - (i + 1) * dotStep }))
 
       // movies closest to baseline
       const movieNodes = gDots
         .selectAll(`circle.movie-${b.year}`)
         .data(movieData)
         .join('circle')
+        .attr('class', 'title-mark')
         .attr('cx', cx)
         .attr('cy', d => d.cy)
         .attr('r', dotR)
@@ -357,24 +300,28 @@ export default function McuYearDotPlot() {
 
       movieNodes
         .on('mouseenter', function (event, d) {
-          showTooltip(event as MouseEvent, d.title)
-          d3.select(this).attr('r', dotR + 1.3).attr('stroke-width', 1.5)
+          showTooltip(event as MouseEvent, d.title.title)
+          d3.select(this).attr('r', dotR + 1.3)
+          dispatch({ type: CROSS_FILTER_ACTIONS.HOVER, titleId: d.title.id, year: d.title.year })
         })
         .on('mousemove', function (event, d) {
-          showTooltip(event as MouseEvent, d.title)
+          showTooltip(event as MouseEvent, d.title.title)
         })
         .on('mouseleave', function () {
           tooltip.style('display', 'none')
-          d3.select(this).attr('r', dotR).attr('stroke-width', 1)
+          d3.select(this).attr('r', dotR)
+          dispatch({ type: CROSS_FILTER_ACTIONS.HOVER, titleId: null, year: null })
         })
+        .on('click', (_event, d) => dispatch({ type: CROSS_FILTER_ACTIONS.TOGGLE_TITLE, titleId: d.title.id }))
 
       // shows above movies, with a small gap between groups
       const showOffset = b.movies > 0 ? b.movies * dotStep + typeGap : 0
-      const showData = yearItems.shows.map((title, i) => ({ title, cy: yLine - showOffset - (i + 1) * dotStep }))
+      const showData: StackedTitle[] = yearItems.shows.map((title, i) => ({ title, cy: yLine - showOffset - (i + 1) * dotStep }))
       const showNodes = gDots
         .selectAll(`path.show-${b.year}`)
         .data(showData)
         .join('path')
+        .attr('class', 'title-mark')
         .attr('d', showTriangle)
         .attr('transform', d => `translate(${cx}, ${d.cy})`)
         .attr('fill', SHOW_FILL)
@@ -384,22 +331,45 @@ export default function McuYearDotPlot() {
 
       showNodes
         .on('mouseenter', function (event, d) {
-          showTooltip(event as MouseEvent, d.title)
-          d3.select(this)
-            .attr('transform', `translate(${cx}, ${d.cy}) scale(1.22)`)
-            .attr('stroke-width', 1.5)
+          showTooltip(event as MouseEvent, d.title.title)
+          d3.select(this).attr('transform', `translate(${cx}, ${d.cy}) scale(1.22)`)
+          dispatch({ type: CROSS_FILTER_ACTIONS.HOVER, titleId: d.title.id, year: d.title.year })
         })
         .on('mousemove', function (event, d) {
-          showTooltip(event as MouseEvent, d.title)
+          showTooltip(event as MouseEvent, d.title.title)
         })
         .on('mouseleave', function (_event, d) {
           tooltip.style('display', 'none')
-          d3.select(this)
-            .attr('transform', `translate(${cx}, ${d.cy})`)
-            .attr('stroke-width', 1)
+          d3.select(this).attr('transform', `translate(${cx}, ${d.cy})`)
+          dispatch({ type: CROSS_FILTER_ACTIONS.HOVER, titleId: null, year: null })
         })
+        .on('click', (_event, d) => dispatch({ type: CROSS_FILTER_ACTIONS.TOGGLE_TITLE, titleId: d.title.id }))
     }
-  }, [bins, itemsByYear, yearDomain, size])
+
+    // Drawn year by year, movies before shows, which is already the reading order
+    keyboardMarks(gDots.selectAll<SVGElement, StackedTitle>('.title-mark'), {
+      label: d => `${d.title.title}, ${d.title.mediaType === 'movie' ? 'movie' : 'TV show'} released ${d.title.releaseDateStr}`,
+      key: d => d.title.id,
+      onFocus: (element, d) => {
+        showTooltip(focusPoint(element), d.title.title)
+        dispatch({ type: CROSS_FILTER_ACTIONS.HOVER, titleId: d.title.id, year: d.title.year })
+      },
+      onBlur: () => {
+        tooltip.style('display', 'none')
+        dispatch({ type: CROSS_FILTER_ACTIONS.HOVER, titleId: null, year: null })
+      },
+      onActivate: d => dispatch({ type: CROSS_FILTER_ACTIONS.TOGGLE_TITLE, titleId: d.title.id })
+    })
+  }, [bins, itemsByYear, yearDomain, size, palette])
+
+  useEffect(() => {
+    if (!svgRef.current) return
+    d3.select(svgRef.current)
+      .selectAll<SVGElement, StackedTitle>('.title-mark')
+      .attr('stroke-width', d => MARK_STYLE[emphasis(d.title)].strokeWidth)
+      .attr('opacity', d => MARK_STYLE[emphasis(d.title)].opacity)
+      .attr('aria-pressed', d => selection.titleIds.includes(d.title.id))
+  }, [selection, emphasis, bins, itemsByYear, yearDomain, size, palette])
 
   return (
     <div
@@ -410,7 +380,23 @@ export default function McuYearDotPlot() {
         height: '100%'
       }}
     >
-      <svg ref={svgRef} width="100%" height="100%" />
+      <svg ref={svgRef} width="100%" height="100%" role="group" aria-label="MCU movies and TV shows released each year" />
+      <ChartDataTable
+        caption="MCU releases per year"
+        columns={[
+          { label: 'Year', value: (d: YearBin) => d.year },
+          { label: 'Movies', value: d => d.movies },
+          { label: 'TV shows', value: d => d.shows },
+          {
+            label: 'Titles',
+            value: d => {
+              const items = itemsByYear.get(d.year)
+              return items ? [...items.movies, ...items.shows].map(t => t.title).join(', ') : ''
+            }
+          }
+        ]}
+        rows={bins}
+      />
     </div>
   )
 }
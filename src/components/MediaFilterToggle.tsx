@@ -0,0 +1,43 @@
+import React from 'react'
+import { MediaFilter } from '../types'
+
+const OPTIONS: { value: MediaFilter; label: string }[] = [
+  { value: 'movie', label: 'Movies' },
+  { value: 'show', label: 'Shows' },
+  { value: 'both', label: 'Both' }
+]
+
+const btnStyle = (active: boolean): React.CSSProperties => ({
+  border: '1px solid rgba(0,0,0,0.18)',
+  background: active ? 'rgba(0,0,0,0.85)' : 'rgba(255,255,255,0.92)',
+  color: active ? 'white' : 'rgba(0,0,0,0.8)',
+  padding: '3px 8px',
+  borderRadius: 8,
+  fontSize: 11,
+  fontWeight: 700,
+  cursor: 'pointer'
+})
+
+/** Movies / shows / both switch shared by the ratings chart and the reviews panel */
+export default function MediaFilterToggle({
+  value,
+  onChange
+}: {
+  value: MediaFilter
+  onChange: (value: MediaFilter) => void
+}) {
+  return (
+    <div style={{ display: 'flex', gap: 4 }}>
+      {OPTIONS.map(option => (
+        <button
+          key={option.value}
+          type="button"
+          style={btnStyle(value === option.value)}
+          onClick={() => onChange(option.value)}
+        >
+          {option.label}
+        </button>
+      ))}
+    </div>
+  )
+}
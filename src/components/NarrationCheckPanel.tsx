@@ -0,0 +1,123 @@
+import { useMemo, useState } from 'react'
+import { NarrationSection } from '../types'
+import { inlinesOf } from '../data/narration'
+import { NARRATION_DOCS } from '../data/narrationContent'
+import { NARRATION_CLAIMS } from '../data/narrationFacts'
+import { useMcuData } from '../stores/McuData'
+
+type CheckRow = {
+  key: string
+  section: NarrationSection
+  label: string
+  ok: boolean
+  detail: string
+}
+
+const cellStyle: React.CSSProperties = {
+  padding: '4px 8px',
+  borderBottom: '1px solid #eee',
+  textAlign: 'left',
+  verticalAlign: 'top'
+}
+
+const OK_COLOR = '#2e7d32'
+const FAIL_COLOR = '#c62828'
+
+/**
+ * Floating dev-only panel that re-checks every narration claim against the
+ * loaded data, along with template keys and title references that don't
+ * resolve. Mounted from App.tsx in dev builds.
+ */
+export default function NarrationCheckPanel() {
+  const data = useMcuData()
+  const [open, setOpen] = useState(false)
+
+  const rows = useMemo(() => {
+    if (data.status !== 'ready') return []
+    return (Object.keys(NARRATION_DOCS) as NarrationSection[]).flatMap((section): CheckRow[] => {
+      const doc = NARRATION_DOCS[section]
+      return [
+        ...inlinesOf(doc).flatMap((inline, i): CheckRow[] => {
+          if (inline.kind === 'claim') {
+            const claim = NARRATION_CLAIMS[inline.key]
+            const result = claim.check(data)
+            return [{ key: `${section}-${i}`, section, label: claim.statement, ...result }]
+          }
+          if (inline.kind === 'title' && !data.registry.resolve(inline.ref)) {
+            return [{ key: `${section}-${i}`, section, label: `[[${inline.ref}]]`, ok: false, detail: 'no title with this name' }]
+          }
+          return []
+        }),
+        ...doc.unknown.map((raw, i) => ({
+          key: `${section}-unknown-${i}`,
+          section,
+          label: raw,
+          ok: false,
+          detail: 'key not defined'
+        }))
+      ]
+    })
+  }, [data])
+
+  if (data.status !== 'ready') return null
+  const failing = rows.filter(row => !row.ok).length
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        left: 12,
+        bottom: 12,
+        zIndex: 1000,
+        maxWidth: open ? 760 : undefined,
+        maxHeight: '60vh',
+        overflowY: 'auto',
+        border: `1px solid ${failing > 0 ? FAIL_COLOR : OK_COLOR}`,
+        borderRadius: 8,
+        background: 'rgba(255,255,255,0.97)',
+        boxShadow: '0 6px 16px rgba(0,0,0,0.12)',
+        padding: '6px 10px',
+        fontSize: 12
+      }}
+    >
+      <button
+        type="button"
+        onClick={() => setOpen(v => !v)}
+        style={{
+          border: 'none',
+          background: 'none',
+          padding: 0,
+          cursor: 'pointer',
+          fontWeight: 800,
+          fontSize: 12,
+          color: failing > 0 ? FAIL_COLOR : OK_COLOR
+        }}
+      >
+        {open ? '▾' : '▸'} Narration checks (dev) — {rows.length - failing} ok · {failing} failing
+      </button>
+
+      {open && (
+        <table style={{ marginTop: 6, width: '100%', borderCollapse: 'collapse' }}>
+          <thead>
+            <tr>
+              <th style={cellStyle}></th>
+              <th style={cellStyle}>Section</th>
+              <th style={cellStyle}>Claim</th>
+              <th style={cellStyle}>Data</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(row => (
+              <tr key={row.key} style={{ color: row.ok ? undefined : FAIL_COLOR }}>
+                <td style={{ ...cellStyle, color: row.ok ? OK_COLOR : FAIL_COLOR, fontWeight: 800 }}>{row.ok ? '✓' : '✗'}</td>
+                <td style={cellStyle}>{row.section}</td>
+                <td style={cellStyle}>{row.label}</td>
+                <td style={cellStyle}>{row.detail}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,56 @@
+import { useMemo } from 'react'
+import { useMcuData } from '../stores/McuData'
+import { useChartSettings } from '../stores/ChartSettings'
+import { formatRatio } from '../data/profit'
+import { yearSummaries } from '../data/yearSummary'
+
+const cellStyle: React.CSSProperties = {
+  padding: '5px 8px',
+  borderBottom: '1px solid #ddd',
+  textAlign: 'left',
+  verticalAlign: 'top'
+}
+
+const numberCellStyle: React.CSSProperties = { ...cellStyle, textAlign: 'right' }
+
+/** The print layout's stand-in for the exploration dashboard: its yearly numbers as one table */
+export default function PrintSummaryTable() {
+  const { titles } = useMcuData()
+  const { money, profit } = useChartSettings()
+  const rows = useMemo(() => yearSummaries(titles, money, profit), [titles, money, profit])
+
+  const formatProfit = (value: number | null) => {
+    if (value === null) return '–'
+    return profit.kind === 'money' ? `${(value / 1_000_000_000).toFixed(2)}B` : formatRatio(value)
+  }
+  const profitUnit = profit.kind === 'money' ? ` (${money.unit})` : ''
+
+  return (
+    <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: 12 }}>
+      <thead>
+        <tr>
+          <th style={cellStyle}>Year</th>
+          <th style={numberCellStyle}>Movies</th>
+          <th style={numberCellStyle}>Shows</th>
+          <th style={numberCellStyle}>Mean movie IMDb rating</th>
+          <th style={numberCellStyle}>Mean movie {profit.name.toLowerCase()}{profitUnit}</th>
+          <th style={cellStyle}>Best-rated release</th>
+        </tr>
+      </thead>
+      <tbody>
+        {rows.map(row => (
+          <tr key={row.year}>
+            <td style={cellStyle}>{row.year}</td>
+            <td style={numberCellStyle}>{row.movies}</td>
+            <td style={numberCellStyle}>{row.shows}</td>
+            <td style={numberCellStyle}>{row.meanMovieRating === null ? '–' : row.meanMovieRating.toFixed(1)}</td>
+            <td style={numberCellStyle}>{formatProfit(row.meanMovieProfit)}</td>
+            <td style={cellStyle}>
+              {row.topRated ? `${row.topRated.title} (${row.topRated.rating!.toFixed(1)})` : '–'}
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  )
+}
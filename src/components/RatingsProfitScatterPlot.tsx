@@ -1,34 +1,66 @@
-import {useEffect, useRef, useState} from "react";
+import {useEffect, useMemo, useRef, useState} from "react";
 import * as d3 from "d3"
 import { useResizeObserver, useDebounceCallback } from "usehooks-ts";
-import { ComponentSize, Margin } from "../types";
+import { ComponentSize, Margin, Phase } from "../types";
 import { isEmpty } from "lodash";
+import { useMcuData } from "../stores/McuData";
+import { useChartSettings } from "../stores/ChartSettings";
+import { formatRatio } from "../data/profit";
+import { createEraSplit, Era, ERA_LABELS } from "../data/eras";
+import { linearFit } from "../data/regression";
+import { useCrossFilter } from "../stores/CrossFilter";
+import { CROSS_FILTER_ACTIONS } from "../stores/Reducer";
+import { focusPoint, keyboardMarks, motionMs } from "./chartA11y";
+import ChartDataTable from "./ChartDataTable";
+import { useChartPalette } from "../theme";
 
 type Movie = {
     id: string
     title: string
     releaseYear: number
+    phase: Phase
+    era: Era
     imdbRating: number
     profit: number
 };
 
+type EraFilter = Era | "all";
 
-export default function RatingsProfitScatterPlot({timePeriod}) {
+type RatingsProfitScatterPlotProps = {
+    onSelectTitle: (titleId: string) => void
+}
+
+const ERA_OPTIONS: { value: EraFilter, label: string }[] = [
+    { value: "all", label: "All movies" },
+    { value: "rise", label: ERA_LABELS.rise },
+    { value: "decline", label: ERA_LABELS.decline }
+];
+
+// An IMDb average of 7 or more reads as well received; every profit model breaks even at 0
+const HIT_RATING = 7;
+const BREAK_EVEN = 0;
+
+export default function RatingsProfitScatterPlot({onSelectTitle}: RatingsProfitScatterPlotProps) {
     const scatterRef = useRef<HTMLDivElement>(null)
-    const margin: Margin = { top: 60, right: 40, bottom: 50, left: 60 }
+    const margin: Margin = { top: 60, right: 40, bottom: 50, left: 70 }
     const [size, setSize] = useState<ComponentSize>({width: 0, height: 0});
     const onResize = useDebounceCallback((size: ComponentSize) => setSize(size), 200);
-    const [movies, setMovies] = useState<Movie[]>([]);
-    const containerId = `${timePeriod}-ratings-profit-container`;
-    const svgId = `${timePeriod}-ratings-profit-svg`;
-    const container = d3.select(`#${containerId}`);
-    const svg = d3.select(`#${svgId}`);
+    const [era, setEra] = useState<EraFilter>("all");
+    const [brushedMovies, setBrushedMovies] = useState<Movie[]>([]);
+    const { movies: mcuMovies, registry } = useMcuData();
+    const { money, profit } = useChartSettings();
+    const { dispatch } = useCrossFilter();
+    const palette = useChartPalette();
+    const phaseColors = palette.phase;
+    const isMoney = profit.kind == "money";
+    const container = d3.select("#ratings-profit-container");
+    const svg = d3.select("#ratings-profit-svg");
 
     // Tooltip for points
-    const tooltipElement = container.selectChild(`#${timePeriod}-ratings-profit-tooltip`);
+    const tooltipElement = container.selectChild("#ratings-profit-tooltip");
     if (tooltipElement.empty()) {
         container.append("div")
-        .attr('id', `${timePeriod}-ratings-profit-tooltip`)
+        .attr('id', "ratings-profit-tooltip")
         .style('position', 'absolute')
         .style('pointer-events', 'none')
         .style('z-index', '20')
@@ -47,28 +79,39 @@ export default function RatingsProfitScatterPlot({timePeriod}) {
     const normalTextFontSize = 13;
     const pointRadius = 5;
     const pointStrokeWidth  = 1.5;
-    const pointFill = "#FFCC00"
 
     useResizeObserver({ ref: scatterRef as React.RefObject<HTMLDivElement>, onResize });
 
-    useEffect(() => {
-        const loadData = async() => {
-            const data = await d3.csv("./data/marvel_movies_tmdb.csv");
-            let moviesData: Movie[] = [];
-            for (const movie of data) {
-                const movieData: Movie = {
-                    id: movie.id,
-                    title: movie.title,
-                    releaseYear: Number(movie.release_date.split("-")[0]),
-                    imdbRating: Number(movie.imdb_average_rating),
-                    profit: (Number(movie.revenue) - Number(movie.budget)) / 1000000000
-                };
-                moviesData.push(movieData)
+    const eras = useMemo(() => createEraSplit(registry), [registry]);
+
+    const movies: Movie[] = useMemo(() => {
+        let moviesData: Movie[] = [];
+        for (const movie of mcuMovies) {
+            if (movie.rating === null || movie.revenue === null || movie.budget === null) {
+                continue;
             }
-            setMovies(moviesData)
-        };
-        loadData();
-    }, []);
+            moviesData.push({
+                id: movie.id,
+                title: movie.title,
+                releaseYear: movie.year,
+                phase: movie.phase,
+                era: eras.eraOf(movie.releaseDate),
+                imdbRating: movie.rating,
+                profit: isMoney
+                    ? money.adjust(profit.compute(movie.revenue, movie.budget), movie.year) / 1000000000
+                    : profit.compute(movie.revenue, movie.budget)
+            });
+        }
+        return moviesData;
+    }, [mcuMovies, money, profit, eras]);
+
+    const activeMovies = useMemo(() => movies.filter((movie) => era == "all" || movie.era == era), [movies, era]);
+    const fit = useMemo(() => linearFit(activeMovies, (movie) => movie.imdbRating, (movie) => movie.profit), [activeMovies]);
+
+    // A new era or profit model invalidates the brushed group
+    useEffect(() => {
+        setBrushedMovies([]);
+    }, [activeMovies]);
 
     useEffect(() => {
         if (isEmpty(movies)) {
@@ -77,63 +120,150 @@ export default function RatingsProfitScatterPlot({timePeriod}) {
         if (size.width == 0 || size.height == 0) {
             return;
         }
-        d3.select(`#${svgId}`).selectAll("*").remove();
+        d3.select("#ratings-profit-svg").selectAll("*").remove();
         generateScatterPlot();
-    }, [movies, size])
+    }, [movies, activeMovies, fit, size, palette])
+
+    function formatProfit(value: number) {
+        return isMoney ? `$${value.toFixed(2)}B` : formatRatio(value);
+    }
 
     function generateScatterPlot() {
-        const maxRating: number = d3.max(movies.map((movie) => movie.imdbRating));
-        let minProfit: number = d3.min(movies.map((movie) => movie.profit));
-        if (minProfit > 0) {
-            minProfit = 0;
-        }
-        const maxProfit: number = d3.max(movies.map((movie) => movie.profit));
-        
-        const filteredMovies = movies.filter((movie) => {
-            if (timePeriod == "early") {
-                return movie.releaseYear <= 2019;
-            }
-            else {
-                return movie.releaseYear > 2019
-            }
-        });
+        const [minRating, maxRating] = d3.extent(movies, (movie) => movie.imdbRating) as [number, number];
+        const [minProfit, maxProfit] = d3.extent(movies, (movie) => movie.profit) as [number, number];
+        const plotLeft = margin.left;
+        const plotRight = size.width - margin.right;
+        const plotTop = margin.top;
+        const plotBottom = size.height - margin.bottom;
 
+        // Every era shares one scale so switching eras doesn't move the points
         const xScale = d3.scaleLinear()
-        .domain([0, maxRating])
-        .range([margin.left, size.width - margin.right])
+        .domain([Math.min(minRating, HIT_RATING) - 0.3, Math.max(maxRating, HIT_RATING) + 0.3])
+        .range([plotLeft, plotRight])
 
-        const xAxis = svg.append("g")
-        .attr("transform", `translate(0, ${size.height - margin.bottom})`)
+        const yScale = d3.scaleLinear()
+        .domain([Math.min(minProfit, BREAK_EVEN), Math.max(maxProfit, BREAK_EVEN)])
+        .nice()
+        .range([plotBottom, plotTop]);
+
+        // Quadrants: what counts as a hit and what counts as a flop
+        const quadrants = svg.append("g").attr("id", "ratings-profit-quadrants");
+        const xHit = xScale(HIT_RATING);
+        const yEven = yScale(BREAK_EVEN);
+
+        quadrants.append("rect")
+        .attr("x", xHit)
+        .attr("y", plotTop)
+        .attr("width", plotRight - xHit)
+        .attr("height", yEven - plotTop)
+        .attr("fill", palette.rating.high)
+        .attr("fill-opacity", 0.07);
+
+        quadrants.append("rect")
+        .attr("x", plotLeft)
+        .attr("y", yEven)
+        .attr("width", xHit - plotLeft)
+        .attr("height", plotBottom - yEven)
+        .attr("fill", palette.rating.low)
+        .attr("fill-opacity", 0.07);
+
+        for (const [x1, y1, x2, y2] of [[xHit, plotTop, xHit, plotBottom], [plotLeft, yEven, plotRight, yEven]]) {
+            quadrants.append("line")
+            .attr("x1", x1)
+            .attr("y1", y1)
+            .attr("x2", x2)
+            .attr("y2", y2)
+            .attr("stroke", "rgba(0,0,0,0.3)")
+            .style("stroke-dasharray", "4, 4");
+        }
+
+        const quadrantLabels = [
+            { text: "Hit: well rated and profitable", x: plotRight - 6, y: plotTop + 14, anchor: "end" },
+            { text: "Profitable, weaker reviews", x: plotLeft + 6, y: plotTop + 14, anchor: "start" },
+            { text: "Well rated, lost money", x: plotRight - 6, y: plotBottom - 8, anchor: "end" },
+            { text: "Flop: poorly rated and lost money", x: plotLeft + 6, y: plotBottom - 8, anchor: "start" }
+        ];
+        quadrants.selectAll("text")
+        .data(quadrantLabels)
+        .enter()
+        .append("text")
+        .attr("x", (label) => label.x)
+        .attr("y", (label) => label.y)
+        .attr("text-anchor", (label) => label.anchor)
+        .style("font-size", "10px")
+        .style("fill", "rgba(0,0,0,0.5)")
+        .text((label) => label.text);
+
+        svg.append("g")
+        .attr("transform", `translate(0, ${plotBottom})`)
         .call(d3.axisBottom(xScale));
 
         // Generate x-axis label
         svg.append("g")
-        .attr("transform", `translate(${margin.left + ((size.width - margin.left - margin.right) / 2)}, ${size.height})`)
+        .attr("transform", `translate(${margin.left + ((size.width - margin.left - margin.right) / 2)}, ${size.height - 8})`)
         .append("text")
         .text("Average IMDB Rating")
+        .attr("text-anchor", "middle")
         .style("font-size", `${normalTextFontSize}px`);
 
-        const yScale = d3.scaleLinear()
-        .domain([minProfit, maxProfit])
-        .range([size.height - margin.bottom, margin.top]);
-
-        const yAxis = svg.append("g")
-        .attr("transform", `translate(${margin.left}, 0)`)
-        .call(d3.axisLeft(yScale).ticks(6).tickFormat((dataPoint) => `$${Number(dataPoint).toFixed(1)}B`));
+        svg.append("g")
+        .attr("transform", `translate(${plotLeft}, 0)`)
+        .call(d3.axisLeft(yScale).ticks(6).tickFormat((dataPoint) => isMoney ? `$${Number(dataPoint).toFixed(1)}B` : formatRatio(Number(dataPoint))));
 
         // Generate y-axis label
         svg.append("g")
-        .attr("transform", `translate(${margin.left / 2}, ${margin.top + ((size.height - margin.top - margin.bottom) / 2)}) rotate(-90)`)
+        .attr("transform", `translate(${margin.left / 3}, ${margin.top + ((size.height - margin.top - margin.bottom) / 2)}) rotate(-90)`)
         .append("text")
-        .text("Profit (Billion $)")
+        .text(profit.axisLabel(money.unit))
         .attr("text-anchor", "middle")
         .style("font-size", `${normalTextFontSize}px`);
 
+        // Brush sits under the points so hovering and clicking a point still work
+        const brush = d3.brush()
+        .extent([[plotLeft, plotTop], [plotRight, plotBottom]])
+        .on("end", (event) => {
+            if (!event.selection) {
+                setBrushedMovies([]);
+                return;
+            }
+            const [[x0, y0], [x1, y1]] = event.selection as [[number, number], [number, number]];
+            setBrushedMovies(activeMovies.filter((movie) => {
+                const x = xScale(movie.imdbRating);
+                const y = yScale(movie.profit);
+                return x >= x0 && x <= x1 && y >= y0 && y <= y1;
+            }));
+        });
+
+        svg.append("g")
+        .attr("id", "ratings-profit-brush")
+        .call(brush);
+
+        // Regression line for the selected era
+        if (fit) {
+            const [fitMin, fitMax] = d3.extent(activeMovies, (movie) => movie.imdbRating) as [number, number];
+            svg.append("line")
+            .attr("x1", xScale(fitMin))
+            .attr("y1", yScale(fit.predict(fitMin)))
+            .attr("x2", xScale(fitMax))
+            .attr("y2", yScale(fit.predict(fitMax)))
+            .attr("stroke", "black")
+            .attr("stroke-width", 2)
+            .style("pointer-events", "none");
+
+            svg.append("text")
+            .attr("x", plotRight)
+            .attr("y", plotTop - 8)
+            .attr("text-anchor", "end")
+            .style("font-size", "12px")
+            .style("font-weight", 700)
+            .text(`R² = ${fit.r2.toFixed(2)} · slope ${formatProfit(fit.slope)} per rating point · n = ${fit.n}`);
+        }
+
         const pointsContainer = svg.append("g")
-        .attr("id", `${timePeriod}-scatter-points-container`);
-        
+        .attr("id", "ratings-profit-points-container");
+
         pointsContainer.selectAll("circle")
-        .data(filteredMovies)
+        .data(movies)
         .enter()
         .append("circle")
         .attr("cx", (movie) => xScale(movie.imdbRating))
@@ -141,62 +271,181 @@ export default function RatingsProfitScatterPlot({timePeriod}) {
         .attr("r", pointRadius)
         .attr("stroke", "black")
         .attr("stroke-width", pointStrokeWidth)
-        .style("fill", pointFill)
+        .style("fill", (movie) => phaseColors[movie.phase])
+        .style("opacity", (movie) => era == "all" || movie.era == era ? 1 : 0.15)
+        .style("pointer-events", (movie) => era == "all" || movie.era == era ? "auto" : "none")
+        .style("cursor", "pointer")
         .on("mouseover", function(event, dataPoint) {
             d3.select(this)
             .transition()
-            .duration(300)
+            .duration(motionMs(300))
             .ease(d3.easeCubicInOut)
             .attr("r", pointRadius + 3)
             .attr("stroke-width", pointStrokeWidth + 2);
 
-            d3.select(`#${timePeriod}-ratings-profit-tooltip`)
-            .html(`Rating: ${dataPoint.imdbRating} <br/> Profit: \$${dataPoint.profit.toFixed(2)} Billion`)
-            .style("left", `${event.pageX + 10}px`)
-            .style("top", `${event.pageY - 10}px`)
-            .style("opacity", 1)
-            .style("visibility", "visible");
+            dispatch({ type: CROSS_FILTER_ACTIONS.HOVER, titleId: dataPoint.id, year: dataPoint.releaseYear });
+
+            showMovieTooltip(dataPoint, event.pageX, event.pageY);
         })
         .on("mousemove", function(event) {
-            d3.select(`#${timePeriod}-ratings-profit-tooltip`)
+            d3.select("#ratings-profit-tooltip")
             .style("left", `${event.pageX + 10}px`)
             .style("top", `${event.pageY - 10}px`)
         })
         .on("mouseout", function(event) {
             d3.select(this)
             .transition()
-            .duration(300)
+            .duration(motionMs(300))
             .ease(d3.easeCubicInOut)
             .attr("r", pointRadius)
             .attr("stroke-width", pointStrokeWidth);
 
-            d3.select(`#${timePeriod}-ratings-profit-tooltip`)
-            .style("visibility", "hidden")
-            .style("opacity", 0);
+            dispatch({ type: CROSS_FILTER_ACTIONS.HOVER, titleId: null, year: null });
+
+            hideMovieTooltip();
         })
+        .on("click", function(event, dataPoint) {
+            hideMovieTooltip();
+            onSelectTitle(dataPoint.id);
+        });
+
+        // Only the era's own points are reachable, left to right by rating
+        keyboardMarks(pointsContainer.selectAll<SVGCircleElement, Movie>("circle").filter((movie) => era == "all" || movie.era == era), {
+            label: (movie) => `${movie.title}, ${movie.releaseYear}, Phase ${movie.phase}: IMDb rating ${movie.imdbRating}, ${profit.name} ${formatProfit(movie.profit)}`,
+            key: (movie) => movie.id,
+            order: (a, b) => a.imdbRating - b.imdbRating || a.profit - b.profit,
+            onFocus: (element, movie) => {
+                const point = focusPoint(element);
+                dispatch({ type: CROSS_FILTER_ACTIONS.HOVER, titleId: movie.id, year: movie.releaseYear });
+                showMovieTooltip(movie, point.clientX + window.scrollX, point.clientY + window.scrollY);
+            },
+            onBlur: () => {
+                dispatch({ type: CROSS_FILTER_ACTIONS.HOVER, titleId: null, year: null });
+                hideMovieTooltip();
+            },
+            onActivate: (movie) => {
+                hideMovieTooltip();
+                onSelectTitle(movie.id);
+            }
+        });
+
+        // Phase legend
+        const phases = [...new Set(movies.map((movie) => movie.phase))].sort((a, b) => a - b);
+        const legend = svg.append("g")
+        .attr("id", "ratings-profit-legend")
+        .selectAll("g")
+        .data(phases)
+        .enter()
+        .append("g")
+        .attr("transform", (phase, index) => `translate(${plotLeft + index * 66}, ${plotTop - 10})`);
+
+        legend.append("circle")
+        .attr("r", 4)
+        .attr("stroke", "black")
+        .style("fill", (phase) => phaseColors[phase]);
+
+        legend.append("text")
+        .attr("x", 8)
+        .attr("dy", "0.32em")
+        .style("font-size", "11px")
+        .text((phase) => `Phase ${phase}`);
 
-        let plotTitle: string = "Profit vs Average IMDB Rating";
-        if (timePeriod == "early") {
-            plotTitle = plotTitle.concat(" (2008 - 2019)");
-        }
-        else {
-            plotTitle = plotTitle.concat(" (2020 - 2026)");
-        }
         // Generate title
-        const title = svg.append('g')
+        svg.append('g')
         .append("text")
         .attr("transform", `translate(${margin.left + ((size.width - margin.left) / 2)}, ${margin.top - titleGraphPadding})`)
         .style("text-anchor", "middle")
         .style("font-size", '15px')
         .style("font-weight", 900)
-        .text(plotTitle); 
+        .text(`${profit.name} vs Average IMDB Rating`);
     }
 
+    function showMovieTooltip(dataPoint: Movie, pageX: number, pageY: number) {
+        d3.select("#ratings-profit-tooltip")
+        .html(`<strong>${dataPoint.title}</strong> (${dataPoint.releaseYear}, Phase ${dataPoint.phase})
+        <br/>Rating: ${dataPoint.imdbRating}
+        <br/>${profit.name}: ${isMoney ? `$${dataPoint.profit.toFixed(2)} Billion${money.mode == "real" ? ` (${money.baseYear} dollars)` : ""}` : formatRatio(dataPoint.profit)}
+        <br/><span style="color: rgba(0,0,0,0.55)">Click to open in the dashboard</span>`)
+        .style("left", `${pageX + 10}px`)
+        .style("top", `${pageY - 10}px`)
+        .style("opacity", 1)
+        .style("visibility", "visible");
+    }
+
+    function hideMovieTooltip() {
+        d3.select("#ratings-profit-tooltip")
+        .style("visibility", "hidden")
+        .style("opacity", 0);
+    }
+
+    const btnStyle = (active: boolean): React.CSSProperties => ({
+        border: "1px solid rgba(0,0,0,0.18)",
+        background: active ? "rgba(0,0,0,0.85)" : "rgba(255,255,255,0.92)",
+        color: active ? "white" : "rgba(0,0,0,0.8)",
+        padding: "3px 8px",
+        borderRadius: 8,
+        fontSize: 11,
+        fontWeight: 700,
+        cursor: "pointer"
+    });
+
+    const brushedRating = d3.mean(brushedMovies, (movie) => movie.imdbRating);
+    const brushedProfit = d3.mean(brushedMovies, (movie) => movie.profit);
+
     return (
         <>
-            <div ref = {scatterRef} id = {containerId} style = {{width: "100%", height: "100%"}}>
-                <svg id = {svgId} width = "100%" height = "100%"></svg>
+            <div id = "ratings-profit-container" style = {{width: "100%", height: "100%", display: "flex", gap: 16}}>
+                <div style = {{flex: 1, minWidth: 0, display: "flex", flexDirection: "column"}}>
+                    <div style = {{display: "flex", gap: 4, justifyContent: "flex-end"}}>
+                        {ERA_OPTIONS.map((option) => (
+                            <button key = {option.value} type = "button" style = {btnStyle(era == option.value)} onClick = {() => setEra(option.value)}>
+                                {option.label}
+                            </button>
+                        ))}
+                    </div>
+                    <div ref = {scatterRef} style = {{flex: 1, minHeight: 0}}>
+                        <svg id = "ratings-profit-svg" width = "100%" height = "100%" role = "group" aria-label = {`${profit.name} vs Average IMDB Rating`}></svg>
+                    </div>
+                    <ChartDataTable
+                        caption = {`${profit.name} vs average IMDb rating${isMoney && money.mode == "real" ? `, in ${money.baseYear} dollars` : ""}`}
+                        columns = {[
+                            { label: "Title", value: (movie: Movie) => movie.title },
+                            { label: "Year", value: (movie) => movie.releaseYear },
+                            { label: "Phase", value: (movie) => movie.phase },
+                            { label: "IMDb rating", value: (movie) => movie.imdbRating },
+                            { label: profit.name, value: (movie) => formatProfit(movie.profit) }
+                        ]}
+                        rows = {activeMovies}
+                    />
+                </div>
+                <div style = {{width: 250, flex: "0 0 auto", display: "flex", flexDirection: "column", gap: 6, fontSize: 12, minHeight: 0}}>
+                    <div style = {{fontSize: 13, fontWeight: 900}}>Selected Movies</div>
+                    {brushedMovies.length == 0 ? (
+                        <div style = {{color: "rgba(0,0,0,0.6)", lineHeight: 1.4}}>
+                            Drag across the chart to select a group of movies. Click a point or a name to open the movie in the dashboard.
+                        </div>
+                    ) : (
+                        <>
+                            <div style = {{color: "rgba(0,0,0,0.7)"}}>
+                                {brushedMovies.length} movie{brushedMovies.length == 1 ? "" : "s"} · mean rating {brushedRating?.toFixed(1)} · mean {profit.name.toLowerCase()} {brushedProfit === undefined ? "N/A" : formatProfit(brushedProfit)}
+                            </div>
+                            <div style = {{overflowY: "auto", minHeight: 0, display: "grid", gap: 4}}>
+                                {[...brushedMovies].sort((a, b) => b.profit - a.profit).map((movie) => (
+                                    <button
+                                        key = {movie.id}
+                                        type = "button"
+                                        onClick = {() => onSelectTitle(movie.id)}
+                                        style = {{textAlign: "left", border: "1px solid rgba(0,0,0,0.1)", borderRadius: 8, background: "#fff", padding: "4px 8px", cursor: "pointer", fontSize: 12}}
+                                    >
+                                        <span style = {{display: "inline-block", width: 8, height: 8, borderRadius: 999, marginRight: 6, background: phaseColors[movie.phase]}}></span>
+                                        <strong>{movie.title}</strong> ({movie.releaseYear}) · {movie.imdbRating} · {formatProfit(movie.profit)}
+                                    </button>
+                                ))}
+                            </div>
+                        </>
+                    )}
+                </div>
             </div>
         </>
     )
-}
\ No newline at end of file
+}
@@ -1,15 +1,20 @@
-import {useEffect, useRef, useState} from "react";
+import {useEffect, useMemo, useRef, useState} from "react";
 import * as d3 from "d3"
 import { useResizeObserver, useDebounceCallback } from "usehooks-ts";
 import { ComponentSize, Margin } from "../types";
 import { isEmpty } from "lodash";
+import { useMcuData } from "../stores/McuData";
+import { useChartSettings } from "../stores/ChartSettings";
+import { focusPoint, keyboardMarks, motionMs } from "./chartA11y";
+import ChartDataTable from "./ChartDataTable";
+import { useChartPalette } from "../theme";
 
 
 type Movie = {
     id: string
     title: string
     releaseYear: number
-    isMarvel: string
+    isMarvel: boolean
     revenue: number
 };
 
@@ -19,12 +24,18 @@ type RevenueSplit = {
     otherMoviesRevenue: number
 };
 
-export default function RevenueBarChart({timePeriod}) {
+type RevenueBarChartProps = {
+    timePeriod: "early" | "recent"
+}
+
+export default function RevenueBarChart({timePeriod}: RevenueBarChartProps) {
     const barRef = useRef<HTMLDivElement> (null);
     const margin: Margin = { top: 34, right: 92, bottom: 46, left: 88 }
     const [size, setSize] = useState<ComponentSize>({width: 0, height: 0});
     const onResize = useDebounceCallback((size: ComponentSize) => setSize(size), 200);
-    const [movies, setMovies] = useState<Movie[]>([]);
+    const { boxOffice } = useMcuData();
+    const { money } = useChartSettings();
+    const palette = useChartPalette();
     const containerId = `${timePeriod}-revenue-comparison-container`;
     const svgId = `${timePeriod}-revenue-comparison-svg`;
     const container = d3.select(`#${containerId}`);
@@ -53,30 +64,17 @@ export default function RevenueBarChart({timePeriod}) {
     const titleGraphPadding = 84;
     const legendGraphPadding = 14;
     const normalTextFontSize = 13;
-    const coloring = [{"type": "Marvel", "color": "#b21f3a"}, {"type": "Other", "color": "#8a97a3"}]
+    const coloring = [{"type": "Marvel", "color": palette.revenue.marvel}, {"type": "Other", "color": palette.revenue.other}]
 
     useResizeObserver({ ref: barRef as React.RefObject<HTMLDivElement>, onResize });
 
-    useEffect(() => {
-        // Read dataset for top 10 grossing movies
-        const loadData = async() => {
-            const data = await d3.csv("./data/top10_movies_2008_2025.csv")
-            let moviesData: Movie[] = [];
-            for (const dataPoint of data) {
-                const movieData: Movie = {
-                    id: dataPoint.id,
-                    title: dataPoint.title,
-                    releaseYear: Number(dataPoint.release_date.split("-")[0]),
-                    isMarvel: dataPoint.is_marvel,
-                    revenue: Number(dataPoint.revenue) / 1000000000
-                }
-                moviesData.push(movieData);
-            }
-            setMovies(moviesData);            
-        }
-
-        loadData();
-    }, []);
+    const movies: Movie[] = useMemo(() => boxOffice.map((movie) => ({
+        id: movie.id,
+        title: movie.title,
+        releaseYear: movie.year,
+        isMarvel: movie.isMarvel,
+        revenue: money.adjust(movie.revenue, movie.year) / 1000000000
+    })), [boxOffice, money]);
 
     useEffect(() => {
         if (isEmpty(movies)) {
@@ -89,10 +87,10 @@ export default function RevenueBarChart({timePeriod}) {
         svg.selectAll("*").remove();
 
         generateBarChart();
-    }, [movies, size]);
+    }, [movies, size, palette]);
 
-    function generateBarChart() {
-        // Get the revenue of marvel movies and other movies for each year
+    // Get the revenue of marvel movies and other movies for each year
+    function revenueSplits() {
         let formattedData: RevenueSplit[] = [];
         let years = [... new Set(movies.map((movie) => movie.releaseYear))].sort((a, b) => a - b);
 
@@ -105,11 +103,61 @@ export default function RevenueBarChart({timePeriod}) {
             const yearMovies = movies.filter((movie) => movie.releaseYear == year);
             const revenueInfo: RevenueSplit = {
                 year: year,
-                marvelRevenue: d3.sum(yearMovies.filter((movie) => movie.isMarvel == "true").map((movie) => movie.revenue)),
-                otherMoviesRevenue: d3.sum(yearMovies.filter((movie) => movie.isMarvel == "false").map((movie) => movie.revenue))
+                marvelRevenue: d3.sum(yearMovies.filter((movie) => movie.isMarvel).map((movie) => movie.revenue)),
+                otherMoviesRevenue: d3.sum(yearMovies.filter((movie) => !movie.isMarvel).map((movie) => movie.revenue))
             }
             formattedData.push(revenueInfo);
         }
+        return formattedData;
+    }
+
+    function showRevenueTooltip(dataPoint: RevenueSplit, pageX: number, pageY: number) {
+        const totalRevenue = dataPoint.marvelRevenue + dataPoint.otherMoviesRevenue;
+        const marvelContribution = (dataPoint.marvelRevenue / totalRevenue) * 100;
+        const otherContribution = (dataPoint.otherMoviesRevenue / totalRevenue) * 100;
+        const unitHtml = money.mode == "real" ? ` (${money.baseYear} dollars)` : "";
+        const otherRevenueHtml = `${dataPoint.otherMoviesRevenue.toFixed(2)} billion`;
+        let marvelRevenueHtml = `${dataPoint.marvelRevenue.toFixed(2)} billion`;
+        if (dataPoint.marvelRevenue == 0) {
+            marvelRevenueHtml = "0";
+        }
+        // Display contribution of marvel movies and other movies
+        d3.select("#revenue-comparison-tooltip")
+        .html(`<strong>Marvel:</strong> \$${marvelRevenueHtml} (${marvelContribution.toFixed(2)}%) <br/> <strong>Other:</strong> \$${otherRevenueHtml} (${otherContribution.toFixed(2)}%)${unitHtml}`)
+        .style("left", `${pageX + 10}px`)
+        .style("top", `${pageY - 10}px`)
+        .style("opacity", 1)
+        .style("visibility", "visible");
+    }
+
+    function hideRevenueTooltip() {
+        d3.select("#revenue-comparison-tooltip")
+        .style("opacity", 0)
+        .style("visibility", "hidden")
+    }
+
+    // Outlines a year's bar while it is hovered or focused
+    function highlightBar(bar: SVGGElement, highlighted: boolean) {
+        d3.select(bar)
+        .selectAll("rect")
+        .transition()
+        .duration(motionMs(220))
+        .ease(d3.easeCubicInOut)
+        .attr("stroke", "rgba(0,0,0,0.55)")
+        .attr("stroke-width", highlighted ? "1.5px" : "0px")
+        .attr("opacity", highlighted ? 0.9 : 1);
+    }
+
+    let titleText = "Annual Top-10 Box Office Revenue: Marvel vs Others";
+    if (timePeriod == "early") {
+        titleText = titleText.concat(" (2008 - 2019)");
+    }
+    else if (timePeriod == "recent"){
+        titleText = titleText.concat(" (2008 - 2025)");
+    }
+
+    function generateBarChart() {
+        const formattedData = revenueSplits();
 
         // Get max total revenue
         const maxRevenue = d3.max(formattedData, (dataPoint) => dataPoint.marvelRevenue + dataPoint.otherMoviesRevenue);
@@ -163,7 +211,7 @@ export default function RevenueBarChart({timePeriod}) {
         svg.append("g")
         .attr("transform", `translate(24, ${margin.top + titleGraphPadding + ((size.height - margin.top - titleGraphPadding - margin.bottom) / 2)}) rotate(-90)`)
         .append("text")
-        .text("Revenue (Billion $)")
+        .text(`Revenue (Billion ${money.unit})`)
         .attr("text-anchor", "middle")
         .style("font-size", `${normalTextFontSize}px`);
 
@@ -177,31 +225,8 @@ export default function RevenueBarChart({timePeriod}) {
         .append("g")
         .attr("class", (dataPoint) => `bar-${dataPoint.year}`)
         .on("mouseover", function(event, dataPoint) {
-            const totalRevenue = dataPoint.marvelRevenue + dataPoint.otherMoviesRevenue;
-            const marvelContribution = (dataPoint.marvelRevenue / totalRevenue) * 100;
-            const otherContribution = (dataPoint.otherMoviesRevenue / totalRevenue) * 100;
-            const otherRevenueHtml = `${dataPoint.otherMoviesRevenue.toFixed(2)} billion`;
-            let marvelRevenueHtml = `${dataPoint.marvelRevenue.toFixed(2)} billion`;
-            if (dataPoint.marvelRevenue == 0) {
-                marvelRevenueHtml = "0";
-            }
-            // Display contribution of marvel movies and other movies
-            d3.select("#revenue-comparison-tooltip")
-            .html(`<strong>Marvel:</strong> \$${marvelRevenueHtml} (${marvelContribution.toFixed(2)}%) <br/> <strong>Other:</strong> \$${otherRevenueHtml} (${otherContribution.toFixed(2)}%)`)
-            .style("left", `${event.pageX + 10}px`)
-            .style("top", `${event.pageY - 10}px`)
-            .style("opacity", 1)
-            .style("visibility", "visible");
-
-            d3.select(this)
-            .selectAll("rect")
-            .transition()
-            .duration(220)
-            .ease(d3.easeCubicInOut)
-            .attr("stroke", "rgba(0,0,0,0.55)")
-            .attr("stroke-width", "1.5px")
-            .attr("opacity", 0.9);
-            
+            showRevenueTooltip(dataPoint, event.pageX, event.pageY);
+            highlightBar(this, true);
         })
         .on("mousemove", function(event, dataPoint) {
             d3.select("#revenue-comparison-tooltip")
@@ -211,16 +236,22 @@ export default function RevenueBarChart({timePeriod}) {
         })
         .on("mouseout", function(event, dataPoint) {
             // Hide tootip
-            d3.select("#revenue-comparison-tooltip")
-            .style("opacity", 0)
-            .style("visibility", "hidden")
-            d3.select(this)
-            .selectAll("rect")
-            .transition()
-            .duration(220)
-            .ease(d3.easeCubicInOut)
-            .attr("stroke-width", "0px")
-            .attr("opacity", 1);
+            hideRevenueTooltip();
+            highlightBar(this, false);
+        });
+
+        keyboardMarks(yearGroups, {
+            label: (dataPoint) => `${dataPoint.year}: Marvel \$${dataPoint.marvelRevenue.toFixed(2)} billion, other top-10 movies \$${dataPoint.otherMoviesRevenue.toFixed(2)} billion${money.mode == "real" ? ` (${money.baseYear} dollars)` : ""}`,
+            key: (dataPoint) => String(dataPoint.year),
+            onFocus: (element, dataPoint) => {
+                const point = focusPoint(element);
+                showRevenueTooltip(dataPoint, point.clientX + window.scrollX, point.clientY + window.scrollY);
+                highlightBar(element as SVGGElement, true);
+            },
+            onBlur: (element) => {
+                hideRevenueTooltip();
+                highlightBar(element as SVGGElement, false);
+            }
         });
 
         // Create stacked bars of revenues of marvel and other movies for each year
@@ -254,7 +285,7 @@ export default function RevenueBarChart({timePeriod}) {
         .attr("fill", (dataPoint) => {
             return coloring.filter((colorData) => colorData.type == dataPoint.type)[0].color
         })
-        .attr("stroke", "#FFFF00")
+        .attr("stroke", palette.highlight)
         .attr("stroke-width", "0px");
 
         if (timePeriod == "early" || timePeriod == "recent") {
@@ -360,13 +391,6 @@ export default function RevenueBarChart({timePeriod}) {
         .text((dataPoint) => dataPoint.type)
         
 
-        let titleText = "Annual Top-10 Box Office Revenue: Marvel vs Others";
-        if (timePeriod == "early") {
-            titleText = titleText.concat(" (2008 - 2019)");
-        }
-        else if (timePeriod == "recent"){
-            titleText = titleText.concat(" (2008 - 2025)");
-        }
         // Generate title
         const title = svg.append('g')
         .append("text")
@@ -390,7 +414,16 @@ export default function RevenueBarChart({timePeriod}) {
     return (
         <>
             <div ref = {barRef} id = {containerId} style = {{width: "100%", height: "100%"}}>
-                <svg id = {svgId} width = "100%" height = "100%"></svg>
+                <svg id = {svgId} width = "100%" height = "100%" role = "group" aria-label = {titleText}></svg>
+                <ChartDataTable
+                    caption = {`${titleText}, revenue in Billion ${money.unit}`}
+                    columns = {[
+                        { label: "Year", value: (dataPoint: RevenueSplit) => dataPoint.year },
+                        { label: "Marvel", value: (dataPoint) => dataPoint.marvelRevenue.toFixed(2) },
+                        { label: "Other top-10 movies", value: (dataPoint) => dataPoint.otherMoviesRevenue.toFixed(2) }
+                    ]}
+                    rows = {revenueSplits()}
+                />
             </div>
         </>
     )
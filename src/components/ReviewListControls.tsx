@@ -0,0 +1,88 @@
+import React from 'react'
+import {
+  formatDateInput,
+  parseDateInput,
+  RATING_BANDS,
+  RatingBand,
+  REVIEW_SORT_LABELS,
+  ReviewListOptions,
+  ReviewSortMode
+} from '../data/reviewList'
+
+const fieldStyle: React.CSSProperties = {
+  fontSize: 11,
+  padding: '3px 4px',
+  borderRadius: 6,
+  border: '1px solid rgba(0,0,0,0.2)',
+  background: '#fff',
+  minWidth: 0
+}
+
+const labelStyle: React.CSSProperties = {
+  display: 'flex',
+  alignItems: 'center',
+  gap: 4,
+  fontSize: 11,
+  color: 'rgba(0,0,0,0.62)'
+}
+
+/** Sort and filter controls shared by the review panels */
+export default function ReviewListControls({
+  options,
+  onChange
+}: {
+  options: ReviewListOptions
+  onChange: (options: ReviewListOptions) => void
+}) {
+  const set = <K extends keyof ReviewListOptions>(key: K, value: ReviewListOptions[K]) =>
+    onChange({ ...options, [key]: value })
+
+  return (
+    <div style={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: '6px 10px' }}>
+      <label style={labelStyle}>
+        Sort
+        <select
+          value={options.sort}
+          onChange={event => set('sort', event.target.value as ReviewSortMode)}
+          style={fieldStyle}
+        >
+          {(Object.keys(REVIEW_SORT_LABELS) as ReviewSortMode[]).map(mode => (
+            <option key={mode} value={mode}>
+              {REVIEW_SORT_LABELS[mode]}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label style={labelStyle}>
+        Rating
+        <select
+          value={options.band}
+          onChange={event => set('band', event.target.value as RatingBand)}
+          style={fieldStyle}
+        >
+          {(Object.keys(RATING_BANDS) as RatingBand[]).map(band => (
+            <option key={band} value={band}>
+              {RATING_BANDS[band].label}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label style={labelStyle}>
+        Posted
+        <input
+          type="date"
+          value={formatDateInput(options.from)}
+          onChange={event => set('from', parseDateInput(event.target.value))}
+          style={fieldStyle}
+        />
+        to
+        <input
+          type="date"
+          value={formatDateInput(options.to)}
+          onChange={event => set('to', parseDateInput(event.target.value, true))}
+          style={fieldStyle}
+        />
+      </label>
+    </div>
+  )
+}
@@ -0,0 +1,218 @@
+import React, { useDeferredValue, useMemo, useState } from 'react'
+import { Phase, Review } from '../types'
+import { useMcuData } from '../stores/McuData'
+import {
+  createReviewIndex,
+  EMPTY_FILTERS,
+  parseSearchQuery,
+  SearchFilters,
+  searchReviews,
+  TextSegment
+} from '../data/search'
+import { parseDateInput } from '../data/reviewList'
+
+const RESULT_LIMIT = 50
+const PHASES: Phase[] = [1, 2, 3, 4, 5, 6]
+
+const fieldStyle: React.CSSProperties = {
+  fontSize: 12,
+  padding: '4px 6px',
+  borderRadius: 8,
+  border: '1px solid rgba(0,0,0,0.2)',
+  background: '#fff'
+}
+
+const labelStyle: React.CSSProperties = {
+  display: 'flex',
+  alignItems: 'center',
+  gap: 4,
+  fontSize: 12,
+  color: 'rgba(0,0,0,0.65)'
+}
+
+function Highlighted({ segments }: { segments: TextSegment[] }) {
+  return (
+    <>
+      {segments.map((segment, i) =>
+        segment.match ? (
+          <mark key={i} style={{ background: '#ffe27a', padding: 0, borderRadius: 2 }}>
+            {segment.text}
+          </mark>
+        ) : (
+          <React.Fragment key={i}>{segment.text}</React.Fragment>
+        )
+      )}
+    </>
+  )
+}
+
+function parseNumberInput(value: string) {
+  return value === '' ? null : Number(value)
+}
+
+/**
+ * Search over every movie and show review. Picking a result hands the
+ * review back to the dashboard, which opens it in the review panel.
+ */
+export default function ReviewSearch({
+  onOpenReview,
+  onClose
+}: {
+  onOpenReview: (review: Review) => void
+  onClose: () => void
+}) {
+  const { reviews, registry } = useMcuData()
+  const [input, setInput] = useState('')
+  const [filters, setFilters] = useState<SearchFilters>(EMPTY_FILTERS)
+  const query = useDeferredValue(input)
+
+  const index = useMemo(() => createReviewIndex(reviews, registry), [reviews, registry])
+
+  // Only titles that actually have reviews are worth offering as a filter
+  const titleOptions = useMemo(() => {
+    const seen = new Map<string, string>()
+    for (const doc of index.docs) seen.set(doc.title.id, doc.title.title)
+    return registry.titles.filter(t => seen.has(t.id))
+  }, [index, registry])
+
+  const { results, total } = useMemo(
+    () => searchReviews(index, registry, parseSearchQuery(query), filters, RESULT_LIMIT),
+    [index, registry, query, filters]
+  )
+
+  const setFilter = <K extends keyof SearchFilters>(key: K, value: SearchFilters[K]) =>
+    setFilters(prev => ({ ...prev, [key]: value }))
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: 10, height: '100%', minHeight: 0 }}>
+      <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+        <div style={{ fontSize: 17, fontWeight: 800 }}>Search All Reviews</div>
+        <input
+          autoFocus
+          value={input}
+          onChange={event => setInput(event.target.value)}
+          onKeyDown={event => event.key === 'Escape' && onClose()}
+          placeholder='Words must all match. Use "quotes" for phrases and * for endings, e.g. multivers*'
+          style={{ ...fieldStyle, flex: 1, fontSize: 14, padding: '7px 10px' }}
+        />
+        <button
+          type="button"
+          onClick={onClose}
+          style={{ ...fieldStyle, cursor: 'pointer', fontWeight: 800, padding: '6px 10px' }}
+        >
+          Close
+        </button>
+      </div>
+
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: 12, alignItems: 'center' }}>
+        <label style={labelStyle}>
+          Title
+          <select
+            value={filters.titleId ?? ''}
+            onChange={event => setFilter('titleId', event.target.value || null)}
+            style={{ ...fieldStyle, maxWidth: 220 }}
+          >
+            <option value="">All titles</option>
+            {titleOptions.map(t => (
+              <option key={t.id} value={t.id}>
+                {t.title}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label style={labelStyle}>
+          Phase
+          <select
+            value={filters.phase ?? ''}
+            onChange={event => setFilter('phase', event.target.value ? (Number(event.target.value) as Phase) : null)}
+            style={fieldStyle}
+          >
+            <option value="">All</option>
+            {PHASES.map(p => (
+              <option key={p} value={p}>
+                Phase {p}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label style={labelStyle}>
+          Rating
+          <input
+            type="number"
+            min={1}
+            max={10}
+            value={filters.minRating ?? ''}
+            onChange={event => setFilter('minRating', parseNumberInput(event.target.value))}
+            placeholder="1"
+            style={{ ...fieldStyle, width: 52 }}
+          />
+          to
+          <input
+            type="number"
+            min={1}
+            max={10}
+            value={filters.maxRating ?? ''}
+            onChange={event => setFilter('maxRating', parseNumberInput(event.target.value))}
+            placeholder="10"
+            style={{ ...fieldStyle, width: 52 }}
+          />
+        </label>
+        <label style={labelStyle}>
+          Posted
+          <input
+            type="date"
+            onChange={event => setFilter('from', parseDateInput(event.target.value))}
+            style={fieldStyle}
+          />
+          to
+          <input
+            type="date"
+            onChange={event => setFilter('to', parseDateInput(event.target.value, true))}
+            style={fieldStyle}
+          />
+        </label>
+        <div style={{ fontSize: 12, color: 'rgba(0,0,0,0.55)', marginLeft: 'auto' }}>
+          {query.trim()
+            ? `${total} matching review${total === 1 ? '' : 's'}${total > RESULT_LIMIT ? `, showing the top ${RESULT_LIMIT}` : ''}`
+            : 'Type to search review titles and text'}
+        </div>
+      </div>
+
+      <div style={{ display: 'grid', gap: 8, overflowY: 'auto', minHeight: 0, paddingRight: 4 }}>
+        {results.map(result => (
+          <button
+            key={result.review.key}
+            type="button"
+            onClick={() => onOpenReview(result.review)}
+            style={{
+              cursor: 'pointer',
+              border: '1px solid rgba(0,0,0,0.1)',
+              borderRadius: 12,
+              padding: 10,
+              background: '#fafafa',
+              textAlign: 'left'
+            }}
+          >
+            <div style={{ fontSize: 12, color: 'rgba(0,0,0,0.55)', display: 'flex', flexWrap: 'wrap', gap: 8 }}>
+              <strong style={{ color: 'rgba(0,0,0,0.8)' }}>{registry.seriesOf(result.title)}</strong>
+              <span>•</span>
+              <span>Phase {result.title.phase}</span>
+              <span>•</span>
+              <span>{result.review.date || 'Unknown date'}</span>
+              <span>•</span>
+              <span>Rating {result.review.rating ?? 'N/A'}</span>
+              <span>•</span>
+              <span>{result.review.author}</span>
+            </div>
+            <div style={{ fontSize: 13, fontWeight: 800, margin: '4px 0' }}>
+              <Highlighted segments={result.reviewTitle} />
+            </div>
+            <div style={{ fontSize: 12, lineHeight: 1.4, color: 'rgba(0,0,0,0.76)' }}>
+              <Highlighted segments={result.snippet} />
+            </div>
+          </button>
+        ))}
+      </div>
+    </div>
+  )
+}
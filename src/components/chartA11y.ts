@@ -0,0 +1,112 @@
+import * as d3 from 'd3'
+
+/** =========================
+ *  Chart accessibility
+ *  =========================
+ *  Keyboard access for D3 marks and the reduced-motion preference.
+ *
+ *  A chart's marks form one tab stop (a roving tabindex): Tab lands on the
+ *  first mark, the arrow keys walk through them in data order, Home and End
+ *  jump to the ends, and Enter or Space does what a click does. Focus stands
+ *  in for hover, so tooltips and cross-chart highlights follow the keyboard.
+ */
+
+export type KeyboardMarkOptions<D> = {
+  /** Screen-reader name of a mark, built from its datum */
+  label: (d: D) => string
+  /** Stable id of a datum, used to put focus back on the same mark after a redraw */
+  key: (d: D) => string
+  /** Reading order; defaults to the order of the selection */
+  order?: (a: D, b: D) => number
+  onFocus?: (element: SVGElement, d: D) => void
+  onBlur?: (element: SVGElement, d: D) => void
+  /** Enter or Space. Marks without it are announced as images rather than buttons */
+  onActivate?: (d: D) => void
+}
+
+// A keyboard activation usually changes the selection, and some charts redraw on
+// that: the next binding within this window takes focus back to the same mark
+const REFOCUS_WINDOW_MS = 1000
+let pendingRefocus: { svg: SVGSVGElement; key: string; until: number } | null = null
+
+function nextIndex(key: string, index: number, count: number) {
+  switch (key) {
+    case 'ArrowRight':
+    case 'ArrowDown':
+      return Math.min(index + 1, count - 1)
+    case 'ArrowLeft':
+    case 'ArrowUp':
+      return Math.max(index - 1, 0)
+    case 'Home':
+      return 0
+    case 'End':
+      return count - 1
+    default:
+      return null
+  }
+}
+
+export function keyboardMarks<D>(marks: d3.Selection<any, D, any, any>, options: KeyboardMarkOptions<D>) {
+  const entries = (marks.nodes() as SVGElement[]).map(node => ({ node, d: d3.select<SVGElement, D>(node).datum() }))
+  if (options.order) entries.sort((a, b) => options.order!(a.d, b.d))
+  if (entries.length === 0) return
+
+  const focusAt = (from: number, to: number) => {
+    entries[from].node.setAttribute('tabindex', '-1')
+    entries[to].node.setAttribute('tabindex', '0')
+    entries[to].node.focus()
+  }
+
+  entries.forEach(({ node, d }, i) => {
+    d3.select(node)
+      .attr('tabindex', i === 0 ? 0 : -1)
+      .attr('role', options.onActivate ? 'button' : 'img')
+      .attr('aria-label', options.label(d))
+      .on('focus.a11y', () => options.onFocus?.(node, d))
+      .on('blur.a11y', () => options.onBlur?.(node, d))
+      .on('keydown.a11y', (event: KeyboardEvent) => {
+        const next = nextIndex(event.key, i, entries.length)
+        if (next !== null) {
+          event.preventDefault()
+          if (next !== i) focusAt(i, next)
+          return
+        }
+        if ((event.key === 'Enter' || event.key === ' ') && options.onActivate) {
+          event.preventDefault()
+          const svg = node.ownerSVGElement
+          if (svg) pendingRefocus = { svg, key: options.key(d), until: Date.now() + REFOCUS_WINDOW_MS }
+          options.onActivate(d)
+        }
+      })
+  })
+
+  const refocus = pendingRefocus
+  const svg = entries[0].node.ownerSVGElement
+  if (!refocus || refocus.svg !== svg || Date.now() > refocus.until) return
+  if (document.activeElement && document.activeElement !== document.body) return
+  const index = entries.findIndex(({ d }) => options.key(d) === refocus.key)
+  if (index < 0) return
+  pendingRefocus = null
+  entries[0].node.setAttribute('tabindex', '-1')
+  entries[index].node.setAttribute('tabindex', '0')
+  entries[index].node.focus({ preventScroll: true })
+}
+
+/** A focused mark has no pointer position, so tooltips anchor to its box instead */
+export function focusPoint(element: Element) {
+  const box = element.getBoundingClientRect()
+  return { clientX: box.left + box.width / 2, clientY: box.top + box.height / 2 }
+}
+
+export function prefersReducedMotion() {
+  return typeof window !== 'undefined' && window.matchMedia('(prefers-reduced-motion: reduce)').matches
+}
+
+/** Transition length honoring the reader's reduced-motion setting */
+export function motionMs(ms: number) {
+  return prefersReducedMotion() ? 0 : ms
+}
+
+export function scrollBehavior(): ScrollBehavior {
+  return prefersReducedMotion() ? 'auto' : 'smooth'
+}
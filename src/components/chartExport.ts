@@ -0,0 +1,202 @@
+import * as d3 from 'd3'
+import { downloadBlob } from './download'
+
+/** =========================
+ *  Chart export
+ *  =========================
+ *  Turns a chart's live SVG into a standalone file. The clone gets every
+ *  computed style written inline (the page's CSS doesn't travel with it),
+ *  posters are embedded as data URLs, and an optional title, caption and
+ *  source footer are drawn around the chart.
+ */
+
+export type ExportFrame = {
+  title: string
+  caption: string
+  footer: string
+}
+
+export type PngScale = 1 | 2 | 4
+
+export const PNG_SCALES: PngScale[] = [1, 2, 4]
+
+const SVG_NS = 'http://www.w3.org/2000/svg'
+
+// Everything that changes how SVG paints; layout-only properties are left out
+const STYLE_PROPERTIES = [
+  'display',
+  'visibility',
+  'opacity',
+  'fill',
+  'fill-opacity',
+  'stroke',
+  'stroke-opacity',
+  'stroke-width',
+  'stroke-dasharray',
+  'stroke-linecap',
+  'stroke-linejoin',
+  'paint-order',
+  'font-family',
+  'font-size',
+  'font-weight',
+  'font-style',
+  'letter-spacing',
+  'text-anchor',
+  'dominant-baseline',
+  'text-decoration',
+  'cursor'
+]
+
+const PAD = 16
+const TITLE_SIZE = 18
+const CAPTION_SIZE = 13
+const FOOTER_SIZE = 11
+const LINE_HEIGHT = 1.4
+
+function inlineStyles(source: SVGSVGElement, target: SVGSVGElement) {
+  const sourceNodes = [source, ...source.querySelectorAll('*')]
+  const targetNodes = [target, ...target.querySelectorAll('*')]
+  sourceNodes.forEach((node, i) => {
+    const computed = window.getComputedStyle(node)
+    const style = STYLE_PROPERTIES.map(property => `${property}:${computed.getPropertyValue(property)}`).join(';')
+    targetNodes[i]?.setAttribute('style', style)
+  })
+}
+
+async function toDataUrl(href: string): Promise<string | null> {
+  try {
+    const response = await fetch(href, { mode: 'cors' })
+    if (!response.ok) return null
+    const blob = await response.blob()
+    return await new Promise(resolve => {
+      const reader = new FileReader()
+      reader.onload = () => resolve(typeof reader.result === 'string' ? reader.result : null)
+      reader.onerror = () => resolve(null)
+      reader.readAsDataURL(blob)
+    })
+  } catch {
+    return null
+  }
+}
+
+// A poster the image host won't serve cross-origin would taint the PNG canvas,
+// so it is dropped and the placeholder behind it shows instead
+async function embedImages(svg: SVGSVGElement) {
+  const images = [...svg.querySelectorAll('image')]
+  await Promise.all(
+    images.map(async image => {
+      const href = image.getAttribute('href') ?? image.getAttribute('xlink:href')
+      if (!href || href.startsWith('data:')) return
+      const dataUrl = await toDataUrl(href)
+      if (dataUrl) image.setAttribute('href', dataUrl)
+      else image.remove()
+    })
+  )
+}
+
+/** Greedy word wrap by an average glyph width; good enough for a caption */
+function wrapLines(text: string, fontSize: number, maxWidth: number) {
+  const maxChars = Math.max(10, Math.floor(maxWidth / (fontSize * 0.55)))
+  const lines: string[] = []
+  for (const paragraph of text.split('\n')) {
+    let line = ''
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      if (line && line.length + 1 + word.length > maxChars) {
+        lines.push(line)
+        line = word
+      } else {
+        line = line ? `${line} ${word}` : word
+      }
+    }
+    if (line) lines.push(line)
+  }
+  return lines
+}
+
+async function standaloneSvg(chart: SVGSVGElement, frame: ExportFrame) {
+  const { width, height } = chart.getBoundingClientRect()
+  const clone = chart.cloneNode(true) as SVGSVGElement
+  inlineStyles(chart, clone)
+  await embedImages(clone)
+
+  const fontFamily = window.getComputedStyle(document.body).fontFamily
+  const title = frame.title.trim()
+  const captionLines = wrapLines(frame.caption.trim(), CAPTION_SIZE, width - 2 * PAD)
+  const footerLines = wrapLines(frame.footer.trim(), FOOTER_SIZE, width - 2 * PAD)
+
+  const titleHeight = title ? TITLE_SIZE * LINE_HEIGHT : 0
+  const captionHeight = captionLines.length * CAPTION_SIZE * LINE_HEIGHT
+  const headerHeight = title || captionLines.length > 0 ? PAD + titleHeight + captionHeight + PAD / 2 : 0
+  const footerHeight = footerLines.length > 0 ? PAD / 2 + footerLines.length * FOOTER_SIZE * LINE_HEIGHT + PAD : 0
+  const totalHeight = headerHeight + height + footerHeight
+
+  const root = d3
+    .create('svg')
+    .attr('xmlns', SVG_NS)
+    .attr('width', width)
+    .attr('height', totalHeight)
+    .attr('viewBox', `0 0 ${width} ${totalHeight}`)
+    .style('font-family', fontFamily)
+
+  root.append('rect').attr('width', width).attr('height', totalHeight).attr('fill', 'white')
+
+  const textLines = (lines: string[], top: number, fontSize: number, color: string, weight: number) =>
+    lines.forEach((line, i) =>
+      root
+        .append('text')
+        .attr('x', PAD)
+        .attr('y', top + (i + 1) * fontSize * LINE_HEIGHT - fontSize * (LINE_HEIGHT - 1))
+        .style('font-size', `${fontSize}px`)
+        .style('font-weight', weight)
+        .style('fill', color)
+        .text(line)
+    )
+
+  if (title) textLines([title], PAD, TITLE_SIZE, 'rgba(0,0,0,0.88)', 900)
+  textLines(captionLines, PAD + titleHeight, CAPTION_SIZE, 'rgba(0,0,0,0.7)', 400)
+
+  clone.setAttribute('x', '0')
+  clone.setAttribute('y', String(headerHeight))
+  clone.setAttribute('width', String(width))
+  clone.setAttribute('height', String(height))
+  clone.removeAttribute('id')
+  root.node()!.appendChild(clone)
+
+  textLines(footerLines, headerHeight + height + PAD / 2, FOOTER_SIZE, 'rgba(0,0,0,0.55)', 400)
+
+  const text = new XMLSerializer().serializeToString(root.node()!)
+  return { text: `<?xml version="1.0" encoding="UTF-8"?>\n${text}`, width, height: totalHeight }
+}
+
+function rasterize(svgText: string, width: number, height: number, scale: PngScale): Promise<Blob> {
+  const url = URL.createObjectURL(new Blob([svgText], { type: 'image/svg+xml;charset=utf-8' }))
+  return new Promise<Blob>((resolve, reject) => {
+    const image = new Image()
+    image.onload = () => {
+      const canvas = document.createElement('canvas')
+      canvas.width = Math.round(width * scale)
+      canvas.height = Math.round(height * scale)
+      const context = canvas.getContext('2d')
+      if (!context) {
+        reject(new Error('Canvas 2D context is unavailable'))
+        return
+      }
+      context.scale(scale, scale)
+      context.drawImage(image, 0, 0, width, height)
+      canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('PNG encoding failed'))), 'image/png')
+    }
+    image.onerror = () => reject(new Error('The exported SVG could not be rendered'))
+    image.src = url
+  }).finally(() => URL.revokeObjectURL(url))
+}
+
+export async function exportChartSvg(chart: SVGSVGElement, frame: ExportFrame, fileName: string) {
+  const { text } = await standaloneSvg(chart, frame)
+  downloadBlob(new Blob([text], { type: 'image/svg+xml;charset=utf-8' }), `${fileName}.svg`)
+}
+
+export async function exportChartPng(chart: SVGSVGElement, frame: ExportFrame, fileName: string, scale: PngScale) {
+  const { text, width, height } = await standaloneSvg(chart, frame)
+  const png = await rasterize(text, width, height, scale)
+  downloadBlob(png, scale === 1 ? `${fileName}.png` : `${fileName}@${scale}x.png`)
+}
@@ -0,0 +1,153 @@
+import {
+  Annotation,
+  AnnotationAnchor,
+  AnnotationCategory,
+  AnnotationContent,
+  AnnotationSeverity,
+  AnnotationView
+} from '../types'
+import { TitleRegistry } from './registry'
+import { DataIssue } from './schemas'
+
+/** =========================
+ *  Key-title annotations
+ *  =========================
+ *  data/mcu_annotations.json is the one place callout notes are written.
+ *  Each entry shows in every view unless `views` narrows it, and
+ *  `overrides.<view>` can swap any field for a single view.
+ */
+export const ANNOTATIONS_FILE = 'mcu_annotations.json'
+export const ANNOTATIONS_VERSION = 1
+
+const VIEWS: AnnotationView[] = ['timeline', 'dashboard']
+const CATEGORIES: AnnotationCategory[] = ['phase-start', 'record', 'turning-point', 'milestone']
+const SEVERITIES: AnnotationSeverity[] = ['low', 'medium', 'high']
+const ANCHORS: AnnotationAnchor[] = ['top', 'bottom']
+
+export const CATEGORY_LABELS: Record<AnnotationCategory, string> = {
+  'phase-start': 'Phase start',
+  record: 'Record',
+  'turning-point': 'Turning point',
+  milestone: 'Milestone'
+}
+
+export const SEVERITY_RANK: Record<AnnotationSeverity, number> = { low: 0, medium: 1, high: 2 }
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+// Returns an error message for the first invalid field, or null
+function checkContent(content: Record<string, unknown>, partial: boolean): string | null {
+  const fields: Array<[keyof AnnotationContent, readonly string[] | null]> = [
+    ['note', null],
+    ['anchor', ANCHORS],
+    ['category', CATEGORIES],
+    ['severity', SEVERITIES]
+  ]
+  for (const [field, allowed] of fields) {
+    const value = content[field]
+    if (value === undefined && partial) continue
+    if (typeof value !== 'string' || (allowed ? !allowed.includes(value) : !value.trim())) {
+      return allowed
+        ? `"${field}" must be one of ${allowed.join('/')}, got "${String(value ?? '')}"`
+        : `"${field}" must be a non-empty string`
+    }
+  }
+  return null
+}
+
+export function validateAnnotations(raw: unknown, registry: TitleRegistry) {
+  const issues: DataIssue[] = []
+  const annotations: Annotation[] = []
+
+  const issue = (row: number | null, value: string | null, message: string) =>
+    issues.push({ kind: 'invalid-annotation', file: ANNOTATIONS_FILE, row, column: null, value, message })
+
+  if (!isRecord(raw) || !Array.isArray(raw.annotations)) {
+    issue(null, null, 'Expected an object with an "annotations" array')
+    return { annotations, issues }
+  }
+  if (raw.version !== ANNOTATIONS_VERSION) {
+    issue(null, String(raw.version ?? ''), `Unsupported version, expected ${ANNOTATIONS_VERSION}`)
+    return { annotations, issues }
+  }
+
+  const seen = new Set<string>()
+  raw.annotations.forEach((entry: unknown, index) => {
+    const row = index + 1
+    if (!isRecord(entry)) {
+      issue(row, null, 'Annotation is not an object')
+      return
+    }
+
+    const ref = typeof entry.title === 'string' ? entry.title : ''
+    const title = registry.resolve(ref)
+    if (!title) {
+      issue(row, ref || null, `Unknown title "${ref}"`)
+      return
+    }
+    if (seen.has(title.id)) {
+      issue(row, title.title, 'Title is annotated more than once')
+      return
+    }
+
+    const contentError = checkContent(entry, false)
+    if (contentError) {
+      issue(row, title.title, contentError)
+      return
+    }
+
+    const views = entry.views === undefined ? VIEWS : entry.views
+    if (!Array.isArray(views) || views.length === 0 || views.some(v => !VIEWS.includes(v))) {
+      issue(row, title.title, `"views" must list some of ${VIEWS.join('/')}`)
+      return
+    }
+
+    const overrides = entry.overrides === undefined ? {} : entry.overrides
+    if (!isRecord(overrides)) {
+      issue(row, title.title, '"overrides" must be an object keyed by view')
+      return
+    }
+    const overrideError = Object.entries(overrides)
+      .map(([view, value]) => {
+        if (!VIEWS.includes(view as AnnotationView)) return `Unknown override view "${view}"`
+        return isRecord(value) ? checkContent(value, true) : `Override for "${view}" must be an object`
+      })
+      .find(Boolean)
+    if (overrideError) {
+      issue(row, title.title, overrideError)
+      return
+    }
+
+    seen.add(title.id)
+    annotations.push({
+      titleId: title.id,
+      title: title.title,
+      note: entry.note as string,
+      anchor: entry.anchor as AnnotationAnchor,
+      category: entry.category as AnnotationCategory,
+      severity: entry.severity as AnnotationSeverity,
+      views: views as AnnotationView[],
+      overrides: overrides as Annotation['overrides']
+    })
+  })
+
+  return { annotations, issues }
+}
+
+/** Annotations visible in one view, overrides applied, keyed by Title.id */
+export function annotationsForView(annotations: Annotation[], view: AnnotationView) {
+  const byId = new Map<string, AnnotationContent>()
+  for (const a of annotations) {
+    if (!a.views.includes(view)) continue
+    byId.set(a.titleId, {
+      note: a.note,
+      anchor: a.anchor,
+      category: a.category,
+      severity: a.severity,
+      ...a.overrides[view]
+    })
+  }
+  return byId
+}
@@ -0,0 +1,92 @@
+import { ArcSide, Connection, ConnectionType } from '../types'
+import { TitleRegistry } from './registry'
+import { DataIssue } from './schemas'
+
+/** =========================
+ *  Connection graph
+ *  =========================
+ *  Edges live in data/mcu_connections.json so writers can add them without
+ *  touching the charts. Endpoints may be any reference the registry resolves
+ *  (title, alias, TMDB or IMDb id). Arcs always point forward in time.
+ */
+export const CONNECTIONS_FILE = 'mcu_connections.json'
+export const CONNECTIONS_VERSION = 1
+
+const CONNECTION_TYPES: ConnectionType[] = ['sequel', 'crossover', 'carryover']
+const ARC_SIDES: ArcSide[] = ['top', 'bottom']
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+export function validateConnections(raw: unknown, registry: TitleRegistry) {
+  const issues: DataIssue[] = []
+  const connections: Connection[] = []
+
+  const issue = (row: number | null, value: string | null, message: string, kind: DataIssue['kind'] = 'invalid-connection') =>
+    issues.push({ kind, file: CONNECTIONS_FILE, row, column: null, value, message })
+
+  if (!isRecord(raw) || !Array.isArray(raw.connections)) {
+    issue(null, null, 'Expected an object with a "connections" array')
+    return { connections, issues }
+  }
+  if (raw.version !== CONNECTIONS_VERSION) {
+    issue(null, String(raw.version ?? ''), `Unsupported version, expected ${CONNECTIONS_VERSION}`)
+    return { connections, issues }
+  }
+
+  const seen = new Set<string>()
+  raw.connections.forEach((edge: unknown, index) => {
+    const row = index + 1
+    if (!isRecord(edge)) {
+      issue(row, null, 'Edge is not an object')
+      return
+    }
+
+    const label = `${String(edge.from ?? '?')} → ${String(edge.to ?? '?')}`
+    const type = edge.type as ConnectionType
+    if (!CONNECTION_TYPES.includes(type)) {
+      issue(row, label, `Unknown type "${String(edge.type)}", expected ${CONNECTION_TYPES.join('/')}`)
+      return
+    }
+    if (edge.side !== undefined && !ARC_SIDES.includes(edge.side as ArcSide)) {
+      issue(row, label, `Unknown side "${String(edge.side)}", expected top/bottom`)
+      return
+    }
+
+    const from = typeof edge.from === 'string' ? registry.resolve(edge.from) : null
+    const to = typeof edge.to === 'string' ? registry.resolve(edge.to) : null
+    if (!from || !to) {
+      const missing = [!from && String(edge.from ?? ''), !to && String(edge.to ?? '')].filter(Boolean)
+      issue(row, label, `Unknown title ${missing.map(m => `"${m}"`).join(' and ')}`)
+      return
+    }
+    if (from.id === to.id) {
+      issue(row, label, 'Edge connects a title to itself')
+      return
+    }
+    if (from.releaseDate.getTime() > to.releaseDate.getTime()) {
+      issue(row, label, `"${from.title}" is released after "${to.title}"`)
+      return
+    }
+
+    const key = `${type}|${from.id}|${to.id}`
+    if (seen.has(key)) {
+      issue(row, label, `Duplicate ${type} edge`, 'duplicate-connection')
+      return
+    }
+    seen.add(key)
+
+    connections.push({
+      type,
+      fromId: from.id,
+      toId: to.id,
+      from: from.title,
+      to: to.title,
+      side: (edge.side as ArcSide | undefined) ?? null,
+      label: typeof edge.label === 'string' ? edge.label : null
+    })
+  })
+
+  return { connections, issues }
+}
@@ -0,0 +1,171 @@
+import * as d3 from 'd3'
+import { MediaType, Phase, Review } from '../types'
+import { DATA_FILES } from './loadMcuData'
+import { MoneyScale } from './money'
+import { ProfitModel } from './profit'
+import { RATING_BANDS, REVIEW_SORT_LABELS, ReviewListOptions } from './reviewList'
+
+/** =========================
+ *  Dashboard export
+ *  =========================
+ *  A snapshot of what the exploration dashboard shows: the releases of the
+ *  selected year, the yearly rating and profit series behind its two small
+ *  charts, and the reviews currently listed. JSON carries everything in one
+ *  file; CSV is one table per file, each led by the same metadata as
+ *  `# ` comment lines.
+ */
+
+/** The dashboard fields a title row is built from */
+export type DashboardEntry = {
+  id: string
+  title: string
+  phase: Phase
+  mediaType: MediaType
+  releaseDate: Date
+  imdbId: string
+  rating: number | null
+  revenue: number | null
+  budget: number | null
+  profit: number | null
+}
+
+export type YearValue = { year: number; value: number | null }
+
+export type DashboardExportInput = {
+  year: number
+  entries: DashboardEntry[]
+  selectedEntry: DashboardEntry | null
+  ratingSeries: YearValue[]
+  profitSeries: YearValue[]
+  reviews: Review[]
+  reviewOptions: ReviewListOptions
+  money: MoneyScale
+  profit: ProfitModel
+  exportedAt?: Date
+}
+
+type Cell = string | number | boolean | null
+
+export type DashboardExportMeta = {
+  exportedAt: string
+  year: number
+  selectedTitle: string | null
+  reviewFilters: { sort: string; ratings: string; from: string | null; to: string | null }
+  /** Currency of revenue, budget and money profits: "$" or e.g. "2024 $" */
+  money: string
+  profitModel: string
+  /** Amounts are in `money` for money models; ROI is a fraction of budget */
+  profitUnit: string
+  sources: string[]
+}
+
+export type DashboardSnapshot = {
+  meta: DashboardExportMeta
+  titles: Record<string, Cell>[]
+  series: Record<string, Cell>[]
+  reviews: Record<string, Cell>[]
+}
+
+export type DashboardTable = 'titles' | 'series' | 'reviews'
+
+export const DASHBOARD_TABLE_LABELS: Record<DashboardTable, string> = {
+  titles: 'Titles of the year',
+  series: 'Yearly rating and profit',
+  reviews: 'Listed reviews'
+}
+
+// Column order of each CSV; an empty table still gets its header row
+const TABLE_COLUMNS: Record<DashboardTable, string[]> = {
+  titles: ['id', 'title', 'media_type', 'phase', 'release_date', 'imdb_id', 'imdb_rating', 'revenue', 'budget', 'profit', 'selected'],
+  series: ['year', 'mean_movie_rating', 'mean_movie_profit'],
+  reviews: ['title', 'media_type', 'imdb_id', 'author', 'date', 'rating', 'likes', 'dislikes', 'review_title', 'body']
+}
+
+const formatDay = d3.timeFormat('%Y-%m-%d')
+
+function dashboardSources(money: MoneyScale) {
+  const files: string[] = [DATA_FILES.movies, DATA_FILES.shows, DATA_FILES.movieReviews, DATA_FILES.showReviews]
+  if (money.mode === 'real') files.push(DATA_FILES.cpi)
+  return files.map(file => file.replace(/^\//, ''))
+}
+
+export function dashboardSnapshot(input: DashboardExportInput): DashboardSnapshot {
+  const { money, profit, reviewOptions } = input
+  const ratingByYear = new Map(input.ratingSeries.map(d => [d.year, d.value]))
+  const profitByYear = new Map(input.profitSeries.map(d => [d.year, d.value]))
+  // Either chart can have a year the other lacks, and both are on screen
+  const seriesYears = [...new Set([...ratingByYear.keys(), ...profitByYear.keys()])].sort(d3.ascending)
+
+  const meta: DashboardExportMeta = {
+    exportedAt: (input.exportedAt ?? new Date()).toISOString(),
+    year: input.year,
+    selectedTitle: input.selectedEntry?.title ?? null,
+    reviewFilters: {
+      sort: REVIEW_SORT_LABELS[reviewOptions.sort],
+      ratings: RATING_BANDS[reviewOptions.band].label,
+      from: reviewOptions.from ? formatDay(reviewOptions.from) : null,
+      to: reviewOptions.to ? formatDay(reviewOptions.to) : null
+    },
+    money: money.unit,
+    profitModel: profit.name,
+    profitUnit: profit.kind === 'money' ? money.unit : 'fraction of budget',
+    sources: dashboardSources(money)
+  }
+
+  return {
+    meta,
+    titles: input.entries.map(entry => ({
+      id: entry.id,
+      title: entry.title,
+      media_type: entry.mediaType,
+      phase: entry.phase,
+      release_date: formatDay(entry.releaseDate),
+      imdb_id: entry.imdbId,
+      imdb_rating: entry.rating,
+      revenue: entry.revenue,
+      budget: entry.budget,
+      profit: entry.profit,
+      selected: entry.id === input.selectedEntry?.id
+    })),
+    series: seriesYears.map(year => ({
+      year,
+      mean_movie_rating: ratingByYear.get(year) ?? null,
+      mean_movie_profit: profitByYear.get(year) ?? null
+    })),
+    reviews: input.reviews.map(review => ({
+      title: review.title,
+      media_type: review.mediaType,
+      imdb_id: review.imdbId,
+      author: review.author,
+      date: review.date,
+      rating: review.rating,
+      likes: review.likes,
+      dislikes: review.dislikes,
+      review_title: review.reviewTitle,
+      body: review.body
+    }))
+  }
+}
+
+function metaLines(meta: DashboardExportMeta, table: DashboardTable) {
+  const { reviewFilters: filters } = meta
+  return [
+    `MCU Exploration Dashboard export: ${DASHBOARD_TABLE_LABELS[table]}`,
+    `exported: ${meta.exportedAt}`,
+    `year: ${meta.year}`,
+    `selected title: ${meta.selectedTitle ?? 'none'}`,
+    `review filters: ${filters.sort}; ${filters.ratings}; from ${filters.from ?? 'any date'}; to ${filters.to ?? 'any date'}`,
+    `money: ${meta.money}`,
+    `profit model: ${meta.profitModel} (${meta.profitUnit})`,
+    `sources: ${meta.sources.join(', ')}`
+  ].map(line => `# ${line}`)
+}
+
+export function dashboardCsv(snapshot: DashboardSnapshot, table: DashboardTable) {
+  const body = d3.csvFormat(snapshot[table], TABLE_COLUMNS[table])
+  return [...metaLines(snapshot.meta, table), body].join('\n') + '\n'
+}
+
+export function dashboardJson(snapshot: DashboardSnapshot) {
+  return JSON.stringify(snapshot, null, 2)
+}
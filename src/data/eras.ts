@@ -0,0 +1,32 @@
+import { Title } from '../types'
+import { TitleRegistry } from './registry'
+
+/** =========================
+ *  Story eras
+ *  =========================
+ *  The story's turning point: everything released up to Avengers: Endgame
+ *  is the rise, everything after it the decline.
+ */
+export type Era = 'rise' | 'decline'
+
+export const ERA_TURNING_POINT = 'Avengers: Endgame'
+
+export const ERA_LABELS: Record<Era, string> = {
+  rise: 'Rise (through Endgame)',
+  decline: 'Decline (after Endgame)'
+}
+
+export type EraSplit = {
+  /** Release of the turning-point title, or null before data has loaded */
+  turningPoint: Title | null
+  eraOf: (date: Date) => Era
+}
+
+export function createEraSplit(registry: TitleRegistry): EraSplit {
+  const turningPoint = registry.resolve(ERA_TURNING_POINT, 'movie')
+  const cutoff = turningPoint?.releaseDate.getTime() ?? Infinity
+  return {
+    turningPoint,
+    eraOf: date => (date.getTime() > cutoff ? 'decline' : 'rise')
+  }
+}
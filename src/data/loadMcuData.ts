@@ -0,0 +1,332 @@
+import * as d3 from 'd3'
+import { Annotation, BoxOfficeMovie, Connection, MediaType, Movie, Review, Show, Title } from '../types'
+import { ANNOTATIONS_FILE, validateAnnotations } from './annotations'
+import { CONNECTIONS_FILE, validateConnections } from './connections'
+import { CpiTable } from './money'
+import { parseText, posterUrl } from './parse'
+import { createTitleRegistry, TitleRegistry } from './registry'
+import {
+  BOX_OFFICE_SCHEMA,
+  CPI_SCHEMA,
+  DataIssue,
+  DataQualityReport,
+  MOVIE_REVIEWS_SCHEMA,
+  MOVIES_SCHEMA,
+  SHOW_REVIEWS_SCHEMA,
+  SHOWS_SCHEMA,
+  validateCsv
+} from './schemas'
+
+export const DATA_FILES = {
+  movies: '/data/marvel_movies_tmdb.csv',
+  shows: '/data/marvel_shows_data.csv',
+  movieReviews: '/data/marvel_movies_imdb_reviews.csv',
+  showReviews: '/data/marvel_shows_imdb_reviews.csv',
+  boxOffice: '/data/top10_movies_2008_2025.csv',
+  cpi: `/data/${CPI_SCHEMA.file}`,
+  connections: `/data/${CONNECTIONS_FILE}`,
+  annotations: `/data/${ANNOTATIONS_FILE}`
+} as const
+
+// Titles that are part of the CSVs but intentionally left out of the story
+export const EXCLUDED_TITLES = new Set(['The Incredible Hulk'])
+
+export type McuData = {
+  movies: Movie[]
+  shows: Show[]
+  titles: Title[] // movies + shows, sorted by release date
+  registry: TitleRegistry
+  reviews: Review[]
+  boxOffice: BoxOfficeMovie[]
+  cpi: CpiTable
+  connections: Connection[]
+  annotations: Annotation[]
+  quality: DataQualityReport
+}
+
+export const EMPTY_MCU_DATA: McuData = {
+  movies: [],
+  shows: [],
+  titles: [],
+  registry: createTitleRegistry([]),
+  reviews: [],
+  boxOffice: [],
+  cpi: new Map(),
+  connections: [],
+  annotations: [],
+  quality: { files: [], issues: [] }
+}
+
+function byReleaseDate(a: Title, b: Title) {
+  const byDate = a.releaseDate.getTime() - b.releaseDate.getTime()
+  if (byDate !== 0) return byDate
+  if (a.mediaType !== b.mediaType) return a.mediaType === 'movie' ? -1 : 1
+  return a.title.localeCompare(b.title)
+}
+
+function rejectExcluded(file: string, row: number, title: string): DataIssue {
+  return {
+    kind: 'rejected',
+    file,
+    row,
+    column: 'title',
+    value: title,
+    message: 'Excluded from the story (EXCLUDED_TITLES)'
+  }
+}
+
+function parseMovies(rows: d3.DSVRowArray<string>, issues: DataIssue[]): Movie[] {
+  const { records, issues: found } = validateCsv(rows, MOVIES_SCHEMA)
+  issues.push(...found)
+
+  const movies: Movie[] = []
+  for (const { row, raw, values: r } of records) {
+    if (EXCLUDED_TITLES.has(r.title)) {
+      issues.push(rejectExcluded(MOVIES_SCHEMA.file, row, r.title))
+      continue
+    }
+
+    // A zero budget is TMDB's "unknown", not a free movie
+    const budget = r.budget === 0 ? null : r.budget
+    if (budget === null) {
+      issues.push({
+        kind: 'missing-budget',
+        file: MOVIES_SCHEMA.file,
+        row,
+        column: 'budget',
+        value: r.title,
+        message: 'No budget, profit cannot be computed'
+      })
+    }
+
+    movies.push({
+      id: `movie-${r.id}`,
+      tmdbId: r.id,
+      imdbId: r.imdb_id,
+      title: r.title,
+      mediaType: 'movie',
+      phase: r.phase,
+      releaseDate: r.release_date,
+      releaseDateStr: parseText(raw.release_date),
+      year: r.release_date.getFullYear(),
+      rating: r.imdb_average_rating,
+      voteCount: r.imdb_vote_count,
+      posterUrl: posterUrl(r.poster_path),
+      overview: r.overview,
+      revenue: r.revenue,
+      budget
+    })
+  }
+  return movies.sort(byReleaseDate)
+}
+
+function parseShows(rows: d3.DSVRowArray<string>, issues: DataIssue[]): Show[] {
+  const { records, issues: found } = validateCsv(rows, SHOWS_SCHEMA)
+  issues.push(...found)
+
+  const shows: Show[] = records.map(({ raw, values: r }) => ({
+    id: `show-${r.id}`,
+    tmdbId: r.id,
+    imdbId: r.imdb_id,
+    title: r.title,
+    mediaType: 'show',
+    phase: r.phase,
+    releaseDate: r.release_date,
+    releaseDateStr: parseText(raw.release_date),
+    year: r.release_date.getFullYear(),
+    rating: r.imdb_average_rating,
+    voteCount: r.imdb_vote_count,
+    posterUrl: posterUrl(r.poster_path),
+    overview: r.overview
+  }))
+  return shows.sort(byReleaseDate)
+}
+
+// Short, URL-safe fingerprint (djb2) so review keys stay compact
+function hashString(value: string) {
+  let hash = 5381
+  for (let i = 0; i < value.length; i++) hash = ((hash << 5) + hash + value.charCodeAt(i)) | 0
+  return (hash >>> 0).toString(36)
+}
+
+function parseReviews(
+  rows: d3.DSVRowArray<string>,
+  schema: typeof MOVIE_REVIEWS_SCHEMA | typeof SHOW_REVIEWS_SCHEMA,
+  mediaType: MediaType,
+  seen: Set<string>,
+  issues: DataIssue[]
+): Review[] {
+  const { records, issues: found } = validateCsv(rows, schema)
+  issues.push(...found)
+
+  const out: Review[] = []
+  for (const { row, values: r } of records) {
+    if (EXCLUDED_TITLES.has(r.title)) {
+      issues.push(rejectExcluded(schema.file, row, r.title))
+      continue
+    }
+
+    const author = r.author || 'Anonymous'
+    const fingerprint = [r.imdb_id, r.title, author, r.date, r.review_title, r.review].join('||')
+    if (seen.has(fingerprint)) {
+      issues.push({
+        kind: 'rejected',
+        file: schema.file,
+        row,
+        column: null,
+        value: r.title,
+        message: `Duplicate review by ${author}`
+      })
+      continue
+    }
+    seen.add(fingerprint)
+
+    out.push({
+      key: `${r.imdb_id}-${hashString(fingerprint)}`,
+      imdbId: r.imdb_id,
+      title: r.title,
+      mediaType,
+      author,
+      date: r.date,
+      rating: r.review_rating,
+      reviewTitle: r.review_title,
+      body: r.review,
+      likes: r.likes ?? 0,
+      dislikes: r.dislikes ?? 0
+    })
+  }
+  return out
+}
+
+function parseBoxOffice(rows: d3.DSVRowArray<string>, issues: DataIssue[]): BoxOfficeMovie[] {
+  const { records, issues: found } = validateCsv(rows, BOX_OFFICE_SCHEMA)
+  issues.push(...found)
+
+  return records.map(({ values: r }) => ({
+    id: r.id,
+    title: r.title,
+    year: r.release_date.getFullYear(),
+    isMarvel: r.is_marvel,
+    revenue: r.revenue
+  }))
+}
+
+function parseCpi(rows: d3.DSVRowArray<string>, issues: DataIssue[]): CpiTable {
+  const { records, issues: found } = validateCsv(rows, CPI_SCHEMA)
+  issues.push(...found)
+
+  const cpi: CpiTable = new Map()
+  for (const { row, values: r } of records) {
+    if (!Number.isInteger(r.year) || r.cpi <= 0) {
+      issues.push({
+        kind: 'rejected',
+        file: CPI_SCHEMA.file,
+        row,
+        column: null,
+        value: String(r.year),
+        message: 'Year must be a whole number and CPI positive'
+      })
+      continue
+    }
+    cpi.set(r.year, r.cpi)
+  }
+  return new Map([...cpi].sort((a, b) => a[0] - b[0]))
+}
+
+function findOrphanReviews(reviews: Review[], registry: TitleRegistry): DataIssue[] {
+  const orphans = d3.group(
+    reviews.filter(r => registry.titlesForReview(r).length === 0),
+    r => r.imdbId
+  )
+  return [...orphans].map(([imdbId, items]) => ({
+    kind: 'orphan-review',
+    file: items[0].mediaType === 'movie' ? MOVIE_REVIEWS_SCHEMA.file : SHOW_REVIEWS_SCHEMA.file,
+    row: null,
+    column: 'imdb_id',
+    value: imdbId,
+    message: `${items.length} review(s) for "${items[0].title}" match no movie or show`
+  }))
+}
+
+async function fetchMcuData(): Promise<McuData> {
+  const [
+    movieRows,
+    showRows,
+    movieReviewRows,
+    showReviewRows,
+    boxOfficeRows,
+    cpiRows,
+    connectionsJson,
+    annotationsJson
+  ] = await Promise.all([
+    d3.csv(DATA_FILES.movies),
+    d3.csv(DATA_FILES.shows),
+    d3.csv(DATA_FILES.movieReviews),
+    d3.csv(DATA_FILES.showReviews),
+    d3.csv(DATA_FILES.boxOffice),
+    d3.csv(DATA_FILES.cpi),
+    d3.json<unknown>(DATA_FILES.connections),
+    d3.json<unknown>(DATA_FILES.annotations)
+  ])
+
+  const issues: DataIssue[] = []
+  const movies = parseMovies(movieRows, issues)
+  const shows = parseShows(showRows, issues)
+  const titles = [...movies, ...shows].sort(byReleaseDate)
+  const registry = createTitleRegistry(titles)
+
+  const seenReviews = new Set<string>()
+  const movieReviews = parseReviews(movieReviewRows, MOVIE_REVIEWS_SCHEMA, 'movie', seenReviews, issues)
+  const showReviews = parseReviews(showReviewRows, SHOW_REVIEWS_SCHEMA, 'show', seenReviews, issues)
+  const reviews = [...movieReviews, ...showReviews]
+  issues.push(...findOrphanReviews(reviews, registry))
+
+  const boxOffice = parseBoxOffice(boxOfficeRows, issues)
+  const cpi = parseCpi(cpiRows, issues)
+
+  const { connections, issues: connectionIssues } = validateConnections(connectionsJson, registry)
+  issues.push(...connectionIssues)
+
+  const { annotations, issues: annotationIssues } = validateAnnotations(annotationsJson, registry)
+  issues.push(...annotationIssues)
+
+  const quality: DataQualityReport = {
+    files: [
+      { file: MOVIES_SCHEMA.file, rows: movieRows.length, accepted: movies.length },
+      { file: SHOWS_SCHEMA.file, rows: showRows.length, accepted: shows.length },
+      { file: MOVIE_REVIEWS_SCHEMA.file, rows: movieReviewRows.length, accepted: movieReviews.length },
+      { file: SHOW_REVIEWS_SCHEMA.file, rows: showReviewRows.length, accepted: showReviews.length },
+      { file: BOX_OFFICE_SCHEMA.file, rows: boxOfficeRows.length, accepted: boxOffice.length },
+      { file: CPI_SCHEMA.file, rows: cpiRows.length, accepted: cpi.size },
+      {
+        file: CONNECTIONS_FILE,
+        rows: connections.length + connectionIssues.filter(i => i.row !== null).length,
+        accepted: connections.length
+      },
+      {
+        file: ANNOTATIONS_FILE,
+        rows: annotations.length + annotationIssues.filter(i => i.row !== null).length,
+        accepted: annotations.length
+      }
+    ],
+    issues
+  }
+
+  return { movies, shows, titles, registry, reviews, boxOffice, cpi, connections, annotations, quality }
+}
+
+let cached: Promise<McuData> | null = null
+
+/**
+ * Loads every CSV once per page. Later calls share the same promise,
+ * a failed load is dropped from the cache so it can be retried.
+ */
+export function loadMcuData(): Promise<McuData> {
+  if (!cached) {
+    cached = fetchMcuData().catch(err => {
+      cached = null
+      throw err
+    })
+  }
+  return cached
+}
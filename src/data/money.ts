@@ -0,0 +1,59 @@
+/** =========================
+ *  Inflation adjustment
+ *  =========================
+ *  Box-office figures span 2008–2025, so nominal dollars overstate recent
+ *  releases. In real mode every revenue, budget and profit is rescaled to
+ *  the base year with the bundled CPI table (data/cpi_u_annual.csv).
+ */
+export type MoneyMode = 'nominal' | 'real'
+
+export type MoneySettings = {
+  mode: MoneyMode
+  baseYear: number
+}
+
+/** Annual CPI by year, sorted ascending */
+export type CpiTable = Map<number, number>
+
+export type MoneyScale = MoneySettings & {
+  /** Rescales an amount earned in `year` to the active money mode */
+  adjust: (value: number, year: number) => number
+  /** Currency label for axes: "$" when nominal, "2024 $" when real */
+  unit: string
+}
+
+export function cpiYears(cpi: CpiTable) {
+  return [...cpi.keys()]
+}
+
+export function latestCpiYear(cpi: CpiTable) {
+  const years = cpiYears(cpi)
+  return years.length > 0 ? years[years.length - 1] : null
+}
+
+// Years past the end of the table (e.g. the current year before BLS
+// publishes its average) use the closest year we have.
+function cpiFor(cpi: CpiTable, year: number) {
+  const exact = cpi.get(year)
+  if (exact !== undefined) return exact
+  const years = cpiYears(cpi)
+  if (years.length === 0) return null
+  const nearest = years.reduce((best, y) => (Math.abs(y - year) < Math.abs(best - year) ? y : best))
+  return cpi.get(nearest) ?? null
+}
+
+export function createMoneyScale(cpi: CpiTable, settings: MoneySettings): MoneyScale {
+  if (settings.mode === 'nominal') {
+    return { ...settings, adjust: value => value, unit: '$' }
+  }
+
+  const base = cpiFor(cpi, settings.baseYear)
+  return {
+    ...settings,
+    adjust: (value, year) => {
+      const index = cpiFor(cpi, year)
+      return base === null || index === null ? value : (value * base) / index
+    },
+    unit: `${settings.baseYear} $`
+  }
+}
@@ -0,0 +1,134 @@
+/** =========================
+ *  Narration format
+ *  =========================
+ *  The story text between the charts is written in a small Markdown-like
+ *  format (see narrationContent.ts) and parsed into blocks here:
+ *
+ *    Blank lines separate paragraphs; a block whose lines start with "- " is a list.
+ *    *words*          emphasis
+ *    [[Iron Man]]     a title reference, resolved through the title registry
+ *    [^box-office]    a citation of one of the data sources
+ *    {{movies-2025}}  a value computed from the data (see narrationFacts.ts)
+ *    [!claim-key]     marks the sentence before it as a checked claim
+ *
+ *  Anything that doesn't parse stays as plain text, so a typo shows up on the
+ *  page instead of breaking it. Well-formed keys that aren't defined are also
+ *  collected in `unknown` for the dev check panel.
+ */
+
+export type NarrationLayout =
+  /** Full-width text, inset from the page edges */
+  | 'inset'
+  /** Beside a chart; the surrounding column sets the margins */
+  | 'column'
+
+export type NarrationSource = {
+  layout: NarrationLayout
+  /** Space above the first block, in px */
+  spaceAbove?: number
+  text: string
+}
+
+/** The keys a piece of content defines for citations, values and claims */
+export type NarrationKeys = { source: string; value: string; claim: string }
+
+export type NarrationGuards<K extends NarrationKeys> = {
+  isSource: (key: string) => key is K['source']
+  isValue: (key: string) => key is K['value']
+  isClaim: (key: string) => key is K['claim']
+}
+
+export type NarrationInline<K extends NarrationKeys = NarrationKeys> =
+  | { kind: 'text'; text: string }
+  | { kind: 'emphasis'; text: string }
+  | { kind: 'title'; ref: string }
+  | { kind: 'citation'; source: K['source']; number: number }
+  | { kind: 'value'; key: K['value'] }
+  | { kind: 'claim'; key: K['claim'] }
+
+export type NarrationBlock<K extends NarrationKeys = NarrationKeys> =
+  | { kind: 'paragraph'; inlines: NarrationInline<K>[] }
+  | { kind: 'list'; items: NarrationInline<K>[][] }
+
+export type NarrationDoc<K extends NarrationKeys = NarrationKeys> = {
+  layout: NarrationLayout
+  spaceAbove: number
+  blocks: NarrationBlock<K>[]
+  /** Cited sources in order of first citation; a citation's number is its index + 1 */
+  citations: K['source'][]
+  /** Citations, values and claims whose key isn't defined, as written */
+  unknown: string[]
+}
+
+const INLINE_PATTERN = /\*([^*\n]+)\*|\[\[([^\]\n]+)\]\]|\[\^([a-z0-9-]+)\]|\{\{\s*([a-z0-9-]+)\s*\}\}|\[!([a-z0-9-]+)\]/g
+const LIST_ITEM = /^-\s+/
+
+type ParseState<K extends NarrationKeys> = {
+  guards: NarrationGuards<K>
+  citations: K['source'][]
+  unknown: string[]
+}
+
+function parseInlines<K extends NarrationKeys>(text: string, state: ParseState<K>) {
+  const { guards, citations, unknown } = state
+  const inlines: NarrationInline<K>[] = []
+  const pushText = (value: string) => {
+    if (!value) return
+    const last = inlines[inlines.length - 1]
+    if (last?.kind === 'text') last.text += value
+    else inlines.push({ kind: 'text', text: value })
+  }
+
+  let cursor = 0
+  for (const match of text.matchAll(INLINE_PATTERN)) {
+    const [raw, emphasis, titleRef, source, value, claim] = match
+    pushText(text.slice(cursor, match.index))
+    cursor = match.index + raw.length
+
+    if (emphasis !== undefined) inlines.push({ kind: 'emphasis', text: emphasis })
+    else if (titleRef !== undefined) inlines.push({ kind: 'title', ref: titleRef.trim() })
+    else if (source !== undefined && guards.isSource(source)) {
+      if (!citations.includes(source)) citations.push(source)
+      inlines.push({ kind: 'citation', source, number: citations.indexOf(source) + 1 })
+    } else if (value !== undefined && guards.isValue(value)) inlines.push({ kind: 'value', key: value })
+    else if (claim !== undefined && guards.isClaim(claim)) inlines.push({ kind: 'claim', key: claim })
+    else {
+      unknown.push(raw)
+      pushText(raw)
+    }
+  }
+  pushText(text.slice(cursor))
+  return inlines
+}
+
+/** Lines inside a block are joined with single spaces, like Markdown soft breaks */
+function joinLines(lines: string[]) {
+  return lines.join(' ').replace(/\s+/g, ' ').trim()
+}
+
+export function parseNarration<K extends NarrationKeys>(source: NarrationSource, guards: NarrationGuards<K>): NarrationDoc<K> {
+  const state: ParseState<K> = { guards, citations: [], unknown: [] }
+  const blocks: NarrationBlock<K>[] = source.text
+    .split(/\n\s*\n/)
+    .map(chunk => chunk.split('\n').map(line => line.trim()).filter(Boolean))
+    .filter(lines => lines.length > 0)
+    .map((lines): NarrationBlock<K> => {
+      if (!LIST_ITEM.test(lines[0])) return { kind: 'paragraph', inlines: parseInlines(joinLines(lines), state) }
+
+      // A list item runs on until the next "- " line
+      const items: string[][] = []
+      for (const line of lines) {
+        if (LIST_ITEM.test(line) || items.length === 0) items.push([line.replace(LIST_ITEM, '')])
+        else items[items.length - 1].push(line)
+      }
+      return { kind: 'list', items: items.map(item => parseInlines(joinLines(item), state)) }
+    })
+
+  return { layout: source.layout, spaceAbove: source.spaceAbove ?? 0, blocks, citations: state.citations, unknown: state.unknown }
+}
+
+
+/** Every inline of a section, paragraphs and list items alike, in reading order */
+export function inlinesOf<K extends NarrationKeys>(doc: NarrationDoc<K>): NarrationInline<K>[] {
+  return doc.blocks.flatMap(block => (block.kind === 'paragraph' ? block.inlines : block.items.flat()))
+}
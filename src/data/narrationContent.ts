@@ -0,0 +1,227 @@
+import { NarrationSection } from '../types'
+import { NarrationDoc, NarrationSource, parseNarration } from './narration'
+import { ClaimKey, isClaimKey, isValueKey, ValueKey } from './narrationFacts'
+
+/**
+ * The story text, one entry per narration section. The format is described
+ * in narration.ts: blank lines between paragraphs, "- " for list items,
+ * *emphasis*, [[Title]] for a movie or show, [^key] to cite a dataset
+ * from NARRATION_SOURCES, {{key}} for a number from the data and [!key]
+ * after a sentence the data should back up (both in narrationFacts.ts).
+ * Every section must be present, and a section id that isn't a
+ * NarrationSection fails to compile.
+ */
+
+export type CitationKey = 'box-office' | 'tmdb' | 'reviews' | 'connections' | 'releases'
+
+export const NARRATION_SOURCES: Record<CitationKey, string> = {
+  'box-office': 'Top 10 worldwide box office per year, 2008–2025 (data/top10_movies_2008_2025.csv)',
+  tmdb: 'TMDB movie data with IMDb average ratings (data/marvel_movies_tmdb.csv)',
+  reviews: 'Top IMDb user reviews of MCU movies and shows (data/marvel_movies_imdb_reviews.csv, data/marvel_shows_imdb_reviews.csv)',
+  connections: 'Story links between MCU titles (data/mcu_connections.json)',
+  releases: 'MCU movie and show release dates (data/marvel_movies_tmdb.csv, data/marvel_shows_data.csv)'
+}
+
+export function isCitationKey(key: string): key is CitationKey {
+  return key in NARRATION_SOURCES
+}
+
+export const NARRATION: Record<NarrationSection, NarrationSource> = {
+  'intro-above-timeline': {
+    layout: 'inset',
+    text: `
+      For over a decade, the Marvel Cinematic Universe (MCU) dominated blockbuster cinema. From the release of [[Iron Man]] in 2008 to [[Avengers: Endgame]] in 2019,
+      Marvel built an interconnected franchise that was not only financially successful but also culturally influential.
+      However, in recent years, many audiences have begun asking: “Is the MCU falling off?” While discussions about the MCU’s decline often mention box office numbers,
+      inconsistent ratings, and “superhero fatigue,” these claims are frequently based on personal opinions rather than systematic analysis.
+
+      To better understand whether the MCU is truly declining and why it may feel that way, we analyze data from both the rise and the recent fall of the MCU.
+      By examining financial performance, release patterns, and structural changes in the franchise, we can evaluate whether these perceptions are supported by concrete evidence.
+
+      The timeline below provides an overview of MCU movies released from {{first-movie-year}} to {{last-movie-year}}. Important films are highlighted with annotations, and each movie is categorized by the MCU phase it belongs to.
+      Phases are what Marvel uses to organize their movies based on the stages of the storyline.
+    `
+  },
+  introduction: {
+    layout: 'inset',
+    spaceAbove: 10,
+    text: `
+      The MCU’s rise occurred during Phase 1 through Phase 3, spanning from 2008 to 2019 and peaking with [[Avengers: Endgame]] in 2019.[!endgame-top-grossing]
+      Since the start of Phase 4 in 2021, however, the MCU has shown signs of decline. To understand this shift, we first analyze the financial and structural factors that contributed to the MCU’s early success.
+      We then examine recent trends to explain why the performance of MCU movies has weakened in recent years.
+    `
+  },
+  'rise-intro': {
+    layout: 'inset',
+    text: `
+      The MCU’s rise to prominence was driven by its interconnected storytelling, global appeal, and effective marketing strategies.
+      These elements combined to create a franchise that not only attracted a large audience but also kept fans engaged across multiple movies and storylines.
+    `
+  },
+  'connections-above-chart': {
+    layout: 'inset',
+    text: `
+      One of the main attractions of MCU movies is their interconnected universe.
+      The timeline below displays connections between all MCU movies that have been released.[^connections]
+
+      The timeline shows 3 types of connections:
+
+      - Direct sequel: The next movie in a series that continues the story of the previous movie.
+      - Crossover: A movie where main characters from different MCU movie series appear together and play major roles in the story (mainly Avengers movies).
+      - Carryover: A movie that continues some aspects of the story of a previous movie from a different series.
+
+      The timeline clearly shows many connections between movies in Phase 1 to Phase 3, highlighting how tightly linked the movies are.
+      The usual type of connection, seen in all types of movies, is a direct sequel.
+      The appeal of a movie sequel is that it is a continuation of the previous movie(s) in the series, which is usually effective in bringing back audience members who enjoyed the previous movie(s).
+      Throughout Phase 1 to Phase 3, Marvel created multiple movie series for popular superheroes, like the Iron Man, Captain America, and Thor movies.
+      By creating sequels for these series, Marvel was able to continuously release movies that starred popular superheros.
+      This was an effective strategy to attract fans to watch movies, since regardless of the story or other aspects of the movie, the superhero being focused on is already a main attraction for many fans.
+    `
+  },
+  connections: {
+    layout: 'inset',
+    spaceAbove: 40,
+    text: `
+      The connections that make MCU movies stand out are the crossover and carryover relationships. Most movies tell their stories within a single film or within a small series,
+      which is usually around three movies. Instead of limiting the story to a single series, Marvel built one large overarching narrative that spanned Phase 1 through Phase 3, covering {{infinity-saga-movies}} movies.
+
+      This approach helped build anticipation among fans for each new release, since every movie contributed to the larger story and gradually built toward a major climax.
+      The crossover movies, such as the Avengers films and [[Captain America: Civil War]] became some of the biggest highlights and climax of the MCU. These films bring together heroes
+      from different series and focus heavily on the central storyline of the universe.
+
+      Carryover connections also play an important role in maintaining continuity between movies. Events, characters, or story developments from one series often continue in another series,
+      allowing the story to progress across multiple films rather than being confined to a single franchise. A good example is the consequence of events and conflict between Iron Man and
+      Captain America in [[Avengers: Age of Ultron]] directly leads to the story of [[Captain America: Civil War]]. Together, crossover and carryover connections help create the feeling that all
+      MCU movies are part of the same interconnected universe.
+    `
+  },
+  'box-office': {
+    layout: 'column',
+    spaceAbove: 15,
+    text: `
+      A key reason for the success of MCU movies is that Marvel’s marketing strategy and movie format were effective not only in the United States but also globally.
+      By creating blockbuster superhero films and consistently promoting them worldwide, Marvel was able to attract audiences from many different countries.
+      This global appeal allowed MCU movies to reach a much larger audience and generate high revenues internationally.
+
+      The stacked bar chart supports this idea by displaying, for each year from 2008 to 2019, the total revenue of the top 10 highest-grossing movies and the portion
+      of that revenue contributed by MCU movies.[^box-office] Since the chart uses worldwide box office revenue, it reflects the global popularity of these films. In most of these years,
+      MCU movies not only appeared in the top 10 but also contributed a significant portion of the total revenue. The chart also shows that the revenue contribution from MCU movies
+      generally increased over time and peaked in 2019.[!mcu-share-peak-2019]
+    `
+  },
+  'box-office-fall': {
+    layout: 'column',
+    spaceAbove: 15,
+    text: `
+      After 2019, the performance of MCU movies begins to decline. One major sign of this decline is the drop in the global box office performance of MCU movies.
+      The stacked bar chart shows the contribution of MCU movies to the total revenue of the top 10 highest-grossing movies each year from 2008 to 2025.[^box-office]
+
+      A key takeaway from the chart is that after Marvel’s peak in 2019, the contribution of MCU movies steadily declines in the following years. Notably,
+      in 2023 and 2024, the contribution of MCU movies becomes relatively small, similar to the early years of the MCU. In 2025, none of the MCU movies appear
+      in the top 10 highest-grossing films, even though {{movies-2025}} MCU movies were released that year.[!no-mcu-top10-2025]
+
+      This drop in box office performance suggests that fewer people are paying to watch MCU movies, indicating that recent MCU films may be less appealing to audiences.
+      In the following section, we analyze several possible reasons behind this decline, including oversaturation of Marvel content, "lack" of connection in recent Marvel stories,
+      and inconsistent movie quality.
+    `
+  },
+  oversaturation: {
+    layout: 'column',
+    spaceAbove: 15,
+    text: `
+      The dot plot on the right displays all Marvel movies and TV shows released each year from {{first-release-year}} to {{last-release-year}}.[^releases] The plot highlights that after 2019, Marvel
+      began releasing roughly *double* the amount of content compared to earlier years.[!releases-doubled] This can be seen from the much denser distribution of dots between 2021 and 2026,
+      which is largely due to the addition of multiple TV shows.
+
+      Increasing the amount of content can sometimes benefit a franchise by helping keep audiences engaged. However, in the case of the MCU, the increase in content
+      led to an oversaturation of Marvel releases, contributing to what is often called “superhero fatigue,” where audiences become overwhelmed by the large volume of similar
+      content and gradually lose interest.
+
+      A key factor behind this effect is the contrast with earlier years of the MCU. From 2017 to 2019, only three MCU movies were released each year, with even fewer releases in earlier phases.[!three-a-year-2017-2019]
+      This relatively limited number of releases made each movie feel more special and increased fans’ excitement, since audiences had to wait longer between releases. In recent years, however,
+      the abundance of Marvel content has made each new release feel less significant, which may have contributed to the growing fatigue among audiences.
+    `
+  },
+  'barriers-above-chart': {
+    layout: 'inset',
+    text: `
+      As mentioned earlier, one of the key factors behind the success of early MCU movies was how strongly the films were connected to one another. The timeline below shows the connections between all
+      MCU movies and TV shows released in Phase 4 to Phase 6, categorized as direct sequels, crossovers, and carryover connections.[^connections]
+
+      In the previous connection diagram, we saw that movies in Phase 1 to Phase 3 were highly interconnected. In contrast, there are far fewer connections directly between movies
+      in Phase 4 to Phase 6. While the diagram still shows a reasonable number of connections overall, many of them now occur between TV shows and movies rather than between movies themselves.
+
+      This shift creates a barrier for audiences who want to follow the MCU storyline. Marvel’s TV shows are primarily available through Disney’s subscription service, Disney+.
+      As a result, viewers who want to fully follow the interconnected story may need to pay for both movie tickets and a Disney+ subscription. For audiences who are only interested in Marvel content,
+      it may be difficult to justify paying for a subscription service just to watch a small portion of its content. In this way, the expansion of MCU storytelling into TV shows introduces a financial
+      barrier that limits some audiences’ access to the full story.
+    `
+  },
+  barriers: {
+    layout: 'inset',
+    spaceAbove: 40,
+    text: `
+      Since Phase 4 began, there has only been one direct connection between two movies: a {{recent-movie-link-type}} between [[Black Widow]] and [[Thunderbolts]].[!one-recent-movie-link] The lack of strong movie-to-movie connections may reduce excitement
+      for future films, since the interconnected storyline between movies was one of the main factors that attracted audiences during the early phases of the MCU.
+
+      In addition, Marvel’s storytelling now frequently carries across both movies and TV shows. Missing even one piece of content can make it harder for audiences to fully understand the story of a movie.
+      For viewers who only watch MCU movies in theaters, important plot points may appear in TV shows that they have not seen, which can lead to confusion and a less enjoyable viewing experience.
+
+      Combined with the large increase in Marvel content, this financial and narrative barrier makes it more difficult and time-consuming for audiences to follow the MCU storyline,
+      which may contribute to declining interest in newer MCU movies.
+    `
+  },
+  'inconsistency-above-charts': {
+    layout: 'inset',
+    text: `
+      Lastly, a key reason why recent MCU movies have not performed as well is their inconsistent quality of the recent movies.
+      The inconsistent movie quality is a direct consequence of the oversaturation of content, as Marvel has been releasing more movies and shows with less time and resources to ensure high quality.
+
+      The following line chart showing the average IMDb rating of MCU movies over time, along with the range of ratings each year, suggests that movie quality has become both lower and more inconsistent after 2019.[^tmdb]
+      The chart shows a drop in the average rating as well as a wider range of ratings, indicating that some movies are rated much lower than others.
+      Although larger variations in ratings began appearing around 2018, the negative impact on movie performance did not become clear until 2021.
+
+      This trend is supported by the second line chart, which shows the change in the average profit of MCU movies over time.
+      The chart indicates that a noticeable drop in profit also begins around 2021. One reason for the delay is that in 2018 and 2019, Marvel released
+      two of its most successful films: [[Avengers: Infinity War]] and [[Avengers: Endgame]].[!saga-finales-top-two] These highly successful movies helped offset weaker films released during that period.
+      After 2019, however, Marvel has not released many exceptionally well-received movies, with [[Spider-Man: No Way Home]] being a notable exception.[!no-way-home-best-since-2019]
+      As a result, the release of several average or poorly received movies has had a greater impact on the overall performance of the MCU.
+    `
+  },
+  inconsistency: {
+    layout: 'inset',
+    spaceAbove: 12,
+    text: `
+      Inconsistent quality has not only affected ratings and profit but has also influenced fan perception of MCU movies.
+      When examining the top IMDb reviews of recent MCU movies, many reviews frequently complain about the quality of the films, especially for movies with lower ratings.[^reviews]
+      Common criticisms include weaker storytelling, less engaging characters, and a feeling that some movies are rushed or poorly written.
+
+      These recurring complaints suggest that audiences have become more dissatisfied with recent MCU movies. As more viewers express concerns about the quality of new releases,
+      it becomes harder for new MCU films to generate the same excitement and positive reception that earlier MCU movies received.
+      This negative perception further contributes to the decline in the overall performance of MCU movies in recent years.
+    `
+  },
+  conclusion: {
+    layout: 'inset',
+    text: `
+      In recent years, the MCU has clearly experienced a decline in performance. Factors such as oversaturation of content, "lack" of connections between Marvel stories,
+      and inconsistent movie quality have all contributed to this downturn. These issues weakened some of the core elements that originally made the MCU successful, such as
+      a steady release of high-quality films with broad global appeal and a strongly interconnected storyline that kept audiences invested across multiple movies.
+      As these strengths diminished, audience interest and box office performance also began to decline.
+
+      Although the MCU has lost some of its dominance in the film industry, the franchise still has the potential to recover.
+      By focusing on higher-quality storytelling, reducing content oversaturation, and strengthening connections between movies,
+      Marvel may be able to rebuild audience excitement and restore the success that defined the earlier phases of the MCU.
+    `
+  }
+}
+
+export type NarrationContentKeys = { source: CitationKey; value: ValueKey; claim: ClaimKey }
+
+/** Every section parsed once; the text is fixed at build time */
+export const NARRATION_DOCS = Object.fromEntries(
+  Object.entries(NARRATION).map(([section, source]) => [
+    section,
+    parseNarration<NarrationContentKeys>(source, { isSource: isCitationKey, isValue: isValueKey, isClaim: isClaimKey })
+  ])
+) as Record<NarrationSection, NarrationDoc<NarrationContentKeys>>
@@ -0,0 +1,186 @@
+import * as d3 from 'd3'
+import { ConnectionType, Movie } from '../types'
+import { McuData } from './loadMcuData'
+
+/** =========================
+ *  Narration facts
+ *  =========================
+ *  Numbers the story quotes and the claims it makes, computed from the data
+ *  so they follow the CSVs. `{{key}}` in the narration prints a value and
+ *  `[!key]` marks the sentence before it as a claim. Claims are checked in
+ *  dev builds only: a failing one shows red next to its sentence and in the
+ *  narration check panel.
+ */
+
+export type FactData = Pick<McuData, 'movies' | 'titles' | 'boxOffice' | 'connections'>
+
+export type ClaimResult = {
+  ok: boolean
+  /** What the data actually says, shown next to the verdict */
+  detail: string
+}
+
+export type Claim = {
+  statement: string
+  check: (data: FactData) => ClaimResult
+}
+
+const NUMBER_WORDS = ['none', 'one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine', 'ten']
+
+/** Small counts read better spelled out: "three movies" */
+export function spellCount(n: number) {
+  return NUMBER_WORDS[n] ?? String(n)
+}
+
+function countWhere<T>(items: T[], predicate: (item: T) => boolean) {
+  return items.reduce((count, item) => (predicate(item) ? count + 1 : count), 0)
+}
+
+/** 1-based rank of `item` when `items` are sorted by `value` descending; null if it isn't ranked */
+function rankOf<T>(items: T[], item: T | undefined, value: (item: T) => number | null) {
+  if (!item || value(item) === null) return null
+  const ranked = items.filter(d => value(d) !== null).sort((a, b) => value(b)! - value(a)!)
+  return ranked.indexOf(item) + 1
+}
+
+function movieNamed(data: FactData, title: string) {
+  return data.movies.find(m => m.title === title)
+}
+
+/** Releases per calendar year over an inclusive range, counting empty years */
+function releasesPerYear(data: FactData, from: number, to: number) {
+  return countWhere(data.titles, t => t.year >= from && t.year <= to) / (to - from + 1)
+}
+
+/** Share of each year's top-10 revenue that went to MCU movies */
+function mcuBoxOfficeShare(data: FactData) {
+  return d3.rollup(
+    data.boxOffice,
+    rows => d3.sum(rows, r => (r.isMarvel ? r.revenue : 0)) / d3.sum(rows, r => r.revenue),
+    r => r.year
+  )
+}
+
+/** Links where both ends are movies released in Phase 4 or later */
+function recentMovieLinks(data: FactData) {
+  const movieById = new Map<string, Movie>(data.movies.map(m => [m.id, m]))
+  return data.connections.filter(c => {
+    const from = movieById.get(c.fromId)
+    const to = movieById.get(c.toId)
+    return !!from && !!to && from.phase >= 4 && to.phase >= 4
+  })
+}
+
+const CONNECTION_WORDS: Record<ConnectionType, string> = {
+  sequel: 'direct sequel',
+  crossover: 'crossover',
+  carryover: 'carryover'
+}
+
+export type ValueKey =
+  | 'infinity-saga-movies'
+  | 'first-movie-year'
+  | 'last-movie-year'
+  | 'first-release-year'
+  | 'last-release-year'
+  | 'movies-2025'
+  | 'recent-movie-link-type'
+
+export const NARRATION_VALUES: Record<ValueKey, (data: FactData) => string> = {
+  'infinity-saga-movies': data => String(countWhere(data.movies, m => m.phase <= 3)),
+  'first-movie-year': data => String(d3.min(data.movies, m => m.year) ?? '–'),
+  'last-movie-year': data => String(d3.max(data.movies, m => m.year) ?? '–'),
+  'first-release-year': data => String(d3.min(data.titles, t => t.year) ?? '–'),
+  'last-release-year': data => String(d3.max(data.titles, t => t.year) ?? '–'),
+  'movies-2025': data => spellCount(countWhere(data.movies, m => m.year === 2025)),
+  'recent-movie-link-type': data => {
+    const [link] = recentMovieLinks(data)
+    return link ? CONNECTION_WORDS[link.type] : 'connection'
+  }
+}
+
+export type ClaimKey =
+  | 'endgame-top-grossing'
+  | 'mcu-share-peak-2019'
+  | 'no-mcu-top10-2025'
+  | 'three-a-year-2017-2019'
+  | 'releases-doubled'
+  | 'one-recent-movie-link'
+  | 'saga-finales-top-two'
+  | 'no-way-home-best-since-2019'
+
+export const NARRATION_CLAIMS: Record<ClaimKey, Claim> = {
+  'endgame-top-grossing': {
+    statement: 'Avengers: Endgame is the highest-grossing MCU movie',
+    check: data => {
+      const rank = rankOf(data.movies, movieNamed(data, 'Avengers: Endgame'), m => m.revenue)
+      return { ok: rank === 1, detail: `revenue rank ${rank ?? 'n/a'}` }
+    }
+  },
+  'mcu-share-peak-2019': {
+    statement: "The MCU's share of the yearly top-10 box office peaked in 2019",
+    check: data => {
+      const share = mcuBoxOfficeShare(data)
+      const peak = d3.greatest([...share.entries()], ([, value]) => value)
+      return { ok: peak?.[0] === 2019, detail: peak ? `peak ${peak[0]} at ${d3.format('.0%')(peak[1])}` : 'no box office rows' }
+    }
+  },
+  'no-mcu-top10-2025': {
+    statement: 'No MCU movie made the 2025 top 10',
+    check: data => {
+      const count = countWhere(data.boxOffice, r => r.year === 2025 && r.isMarvel)
+      const listed = data.boxOffice.some(r => r.year === 2025)
+      return { ok: listed && count === 0, detail: listed ? `${count} MCU movies in the 2025 top 10` : 'no 2025 rows' }
+    }
+  },
+  'three-a-year-2017-2019': {
+    statement: 'Three MCU movies were released in each of 2017, 2018 and 2019',
+    check: data => {
+      const counts = [2017, 2018, 2019].map(year => countWhere(data.movies, m => m.year === year))
+      return { ok: counts.every(n => n === 3), detail: `movies per year: ${counts.join(', ')}` }
+    }
+  },
+  'releases-doubled': {
+    statement: 'Yearly releases since 2021 are roughly double the 2017–2019 pace',
+    check: data => {
+      const ratio = releasesPerYear(data, 2021, 2025) / releasesPerYear(data, 2017, 2019)
+      return { ok: ratio >= 1.5 && ratio <= 3, detail: `2021–2025 average is ${ratio.toFixed(1)}× the 2017–2019 average` }
+    }
+  },
+  'one-recent-movie-link': {
+    statement: 'Black Widow and Thunderbolts* are the only two Phase 4+ movies directly linked',
+    check: data => {
+      const links = recentMovieLinks(data)
+      const names = links.map(c => `${c.from} → ${c.to}`).join('; ')
+      const ok = links.length === 1 && links[0].from === 'Black Widow' && links[0].to === 'Thunderbolts*'
+      return { ok, detail: `${links.length} movie-to-movie links${names ? `: ${names}` : ''}` }
+    }
+  },
+  'saga-finales-top-two': {
+    statement: 'Infinity War and Endgame are the two highest-grossing MCU movies',
+    check: data => {
+      const top = [...data.movies].sort((a, b) => (b.revenue ?? 0) - (a.revenue ?? 0)).slice(0, 2)
+      const names = top.map(m => m.title)
+      return {
+        ok: names.includes('Avengers: Infinity War') && names.includes('Avengers: Endgame'),
+        detail: `top two: ${names.join(', ')}`
+      }
+    }
+  },
+  'no-way-home-best-since-2019': {
+    statement: 'Spider-Man: No Way Home is the best-rated MCU movie released after 2019',
+    check: data => {
+      const recent = data.movies.filter(m => m.year > 2019)
+      const rank = rankOf(recent, movieNamed(data, 'Spider-Man: No Way Home'), m => m.rating)
+      return { ok: rank === 1, detail: `IMDb rating rank ${rank ?? 'n/a'} of ${recent.length}` }
+    }
+  }
+}
+
+export function isValueKey(key: string): key is ValueKey {
+  return key in NARRATION_VALUES
+}
+
+export function isClaimKey(key: string): key is ClaimKey {
+  return key in NARRATION_CLAIMS
+}
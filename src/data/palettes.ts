@@ -0,0 +1,123 @@
+import * as d3 from 'd3'
+import { MediaType, Phase } from '../types'
+import { Era } from './eras'
+
+/** =========================
+ *  Chart palettes
+ *  =========================
+ *  Every color the charts encode data with. The active palette is attached
+ *  to the MUI theme (see theme.ts), so a chart reads colors from there and
+ *  never hard-codes one. Outlines, gridlines and text stay neutral greys
+ *  in every palette and are left to the charts.
+ */
+
+export type PaletteId = 'default' | 'colorblind' | 'high-contrast'
+
+export const PALETTE_IDS: readonly PaletteId[] = ['default', 'colorblind', 'high-contrast']
+
+export const PALETTE_LABELS: Record<PaletteId, string> = {
+  default: 'Default',
+  colorblind: 'Color-blind safe',
+  'high-contrast': 'High contrast'
+}
+
+export type ChartPalette = {
+  /** One hue per MCU phase: phase bands, legends and the scatter plot */
+  phase: Record<Phase, string>
+  /** Fill of title markers on the timelines and the dot plot */
+  title: string
+  /** Background of selected things outside the SVGs: chips and poster cards */
+  highlight: string
+  /** Movie and show series where both are drawn together */
+  series: Record<MediaType, { fill: string; stroke: string }>
+  /** Points of single-series charts such as average profit by year */
+  metric: string
+  /** Second line in the dashboard's small multiples */
+  accent: string
+  /** Box office bars: Marvel against the rest of the yearly top 10 */
+  revenue: { marvel: string; other: string }
+  /** Before and after the story's turning point */
+  era: Record<Era, string>
+  /** Review scores: 1–4, 5–7 and 8–10 */
+  rating: { low: string; mid: string; high: string }
+  /** Open-ended series, such as user-entered terms */
+  categorical: readonly string[]
+}
+
+// Okabe & Ito's eight colors, distinguishable with every common color-vision deficiency
+const OKABE_ITO = {
+  orange: '#E69F00',
+  skyBlue: '#56B4E9',
+  green: '#009E73',
+  yellow: '#F0E442',
+  blue: '#0072B2',
+  vermillion: '#D55E00',
+  purple: '#CC79A7',
+  black: '#000000'
+}
+
+export const CHART_PALETTES: Record<PaletteId, ChartPalette> = {
+  default: {
+    phase: { 1: '#1f77b4', 2: '#ff7f0e', 3: '#2ca02c', 4: '#d62728', 5: '#9467bd', 6: '#8c564b' },
+    title: '#FFCC00',
+    highlight: '#FFCC00',
+    series: {
+      movie: { fill: '#DBA506', stroke: 'black' },
+      show: { fill: '#5B8DB8', stroke: '#2F5F86' }
+    },
+    metric: '#DBA506',
+    accent: '#d62828',
+    revenue: { marvel: '#b21f3a', other: '#8a97a3' },
+    era: { rise: '#DBA506', decline: '#8a97a3' },
+    rating: { low: '#c0392b', mid: '#9aa3ab', high: '#2e8b57' },
+    categorical: d3.schemeTableau10
+  },
+  colorblind: {
+    phase: {
+      1: OKABE_ITO.blue,
+      2: OKABE_ITO.orange,
+      3: OKABE_ITO.green,
+      4: OKABE_ITO.vermillion,
+      5: OKABE_ITO.purple,
+      6: OKABE_ITO.skyBlue
+    },
+    title: OKABE_ITO.yellow,
+    highlight: OKABE_ITO.yellow,
+    series: {
+      movie: { fill: OKABE_ITO.orange, stroke: 'black' },
+      show: { fill: OKABE_ITO.skyBlue, stroke: OKABE_ITO.blue }
+    },
+    metric: OKABE_ITO.orange,
+    accent: OKABE_ITO.vermillion,
+    revenue: { marvel: OKABE_ITO.vermillion, other: '#999999' },
+    era: { rise: OKABE_ITO.orange, decline: OKABE_ITO.blue },
+    rating: { low: OKABE_ITO.vermillion, mid: '#999999', high: OKABE_ITO.blue },
+    categorical: [
+      OKABE_ITO.orange,
+      OKABE_ITO.skyBlue,
+      OKABE_ITO.green,
+      OKABE_ITO.blue,
+      OKABE_ITO.vermillion,
+      OKABE_ITO.purple,
+      OKABE_ITO.yellow,
+      OKABE_ITO.black
+    ]
+  },
+  // Dark, saturated hues that hold up against the white page. Markers keep a
+  // bright fill because they are always outlined in black
+  'high-contrast': {
+    phase: { 1: '#0033cc', 2: '#c45200', 3: '#00703c', 4: '#b00020', 5: '#6a1b9a', 6: '#3e2723' },
+    title: '#FFE000',
+    highlight: '#FFE000',
+    series: {
+      movie: { fill: '#000000', stroke: '#000000' },
+      show: { fill: '#ffffff', stroke: '#000000' }
+    },
+    metric: '#000000',
+    accent: '#b00020',
+    revenue: { marvel: '#b00020', other: '#404040' },
+    era: { rise: '#000000', decline: '#767676' },
+    rating: { low: '#b00020', mid: '#595959', high: '#0033cc' },
+    categorical: ['#000000', '#0033cc', '#b00020', '#00703c', '#c45200', '#6a1b9a', '#00838f', '#3e2723']
+  }
+}
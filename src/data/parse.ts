@@ -0,0 +1,36 @@
+import { Phase } from '../types'
+
+export const TMDB_POSTER_BASE = 'https://image.tmdb.org/t/p/w185'
+
+export function parsePhase(raw: string): Phase | null {
+  const n = Number(String(raw ?? '').trim())
+  if (Number.isInteger(n) && n >= 1 && n <= 6) return n as Phase
+  return null
+}
+
+export function parseDate(raw: string) {
+  const d = new Date(String(raw ?? '').trim())
+  return Number.isNaN(d.getTime()) ? null : d
+}
+
+// Accepts plain numbers as well as IMDb-style counts such as "1.2K"
+export function parseNumber(raw: string) {
+  const cleaned = String(raw ?? '').replace(/,/g, '').trim()
+  if (!cleaned) return null
+  const match = cleaned.match(/^(-?\d+(?:\.\d+)?)\s*([kK])?$/)
+  if (!match) return null
+  const base = Number(match[1])
+  if (!Number.isFinite(base)) return null
+  const multiplier = match[2] ? 1_000 : 1
+  const n = base * multiplier
+  return Number.isFinite(n) ? n : null
+}
+
+export function parseText(raw: string) {
+  return String(raw ?? '').trim()
+}
+
+export function posterUrl(posterPath: string) {
+  const path = parseText(posterPath)
+  return path ? `${TMDB_POSTER_BASE}${path}` : null
+}
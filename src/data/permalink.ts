@@ -0,0 +1,64 @@
+/** =========================
+ *  Permalinks
+ *  =========================
+ *  View state is mirrored into the URL hash (`#year=2023&title=movie-609681`)
+ *  so a link reopens the same view. Each piece of state owns one or more keys
+ *  through a codec; values equal to their default are left out so links stay
+ *  short.
+ */
+
+export type ParamCodec<T> = {
+  /** The stored value, or the default when the key is missing or invalid */
+  read: (params: URLSearchParams) => T
+  write: (params: URLSearchParams, value: T) => void
+}
+
+function setOrDelete(params: URLSearchParams, key: string, value: string | null) {
+  if (value === null || value === '') params.delete(key)
+  else params.set(key, value)
+}
+
+export function enumParam<T extends string>(key: string, values: readonly T[], fallback: T): ParamCodec<T> {
+  return {
+    read: params => {
+      const raw = params.get(key)
+      return values.find(value => value === raw) ?? fallback
+    },
+    write: (params, value) => setOrDelete(params, key, value === fallback ? null : value)
+  }
+}
+
+export function nullableIntParam(key: string): ParamCodec<number | null> {
+  return {
+    read: params => {
+      const value = Number(params.get(key) ?? '')
+      return params.get(key) && Number.isInteger(value) ? value : null
+    },
+    write: (params, value) => setOrDelete(params, key, value === null ? null : String(value))
+  }
+}
+
+export function nullableStringParam(key: string): ParamCodec<string | null> {
+  return {
+    read: params => params.get(key) || null,
+    write: (params, value) => setOrDelete(params, key, value)
+  }
+}
+
+/** Comma-separated list; items that fail to parse are dropped */
+export function listParam<T>(key: string, parseItem: (raw: string) => T | undefined): ParamCodec<T[]> {
+  return {
+    read: params =>
+      (params.get(key) ?? '')
+        .split(',')
+        .filter(Boolean)
+        .map(parseItem)
+        .filter((item): item is T => item !== undefined),
+    write: (params, value) => setOrDelete(params, key, value.join(','))
+  }
+}
+
+/** Parses the hash or a stored copy of it, with or without the leading `#` */
+export function parsePermalink(text: string) {
+  return new URLSearchParams(text.replace(/^#/, ''))
+}
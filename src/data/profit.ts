@@ -0,0 +1,76 @@
+/** =========================
+ *  Profitability models
+ *  =========================
+ *  Revenue minus budget ignores marketing spend and the share of ticket
+ *  sales kept by theaters. Charts ask the active model for a value
+ *  instead of subtracting inline, so every profit view stays consistent.
+ */
+export type ProfitModelId = 'raw' | 'break-even' | 'roi'
+
+export type ProfitModelSettings = {
+  id: ProfitModelId
+  /** Revenue needed to break even, as a multiple of the production budget */
+  breakEvenMultiplier: number
+}
+
+export type ProfitModel = ProfitModelSettings & {
+  /** Dollar amounts go through the money mode, ratios are unitless */
+  kind: 'money' | 'ratio'
+  /** Short name used in chart titles and tooltips */
+  name: string
+  /** Longer description of the formula for axis labels and captions */
+  formula: string
+  compute: (revenue: number, budget: number) => number
+  /** Axis label including the unit, e.g. "Profit (Billion 2024 $)" */
+  axisLabel: (moneyUnit: string) => string
+}
+
+export const PROFIT_MODEL_IDS: ProfitModelId[] = ['raw', 'break-even', 'roi']
+
+export const BREAK_EVEN_MULTIPLIERS = [2, 2.5, 3]
+
+// Common industry rule of thumb: a film needs about 2.5× its budget at the box office
+export const DEFAULT_PROFIT_MODEL: ProfitModelSettings = { id: 'raw', breakEvenMultiplier: 2.5 }
+
+export const PROFIT_MODEL_LABELS: Record<ProfitModelId, string> = {
+  raw: 'Revenue − budget',
+  'break-even': 'Break-even multiple',
+  roi: 'ROI'
+}
+
+export function createProfitModel(settings: ProfitModelSettings): ProfitModel {
+  const { breakEvenMultiplier: k } = settings
+  switch (settings.id) {
+    case 'raw':
+      return {
+        ...settings,
+        kind: 'money',
+        name: 'Profit',
+        formula: 'revenue − budget',
+        compute: (revenue, budget) => revenue - budget,
+        axisLabel: unit => `Profit (Billion ${unit})`
+      }
+    case 'break-even':
+      return {
+        ...settings,
+        kind: 'money',
+        name: `Profit over ${k}× budget`,
+        formula: `revenue − ${k} × budget`,
+        compute: (revenue, budget) => revenue - k * budget,
+        axisLabel: unit => `Profit over ${k}× budget (Billion ${unit})`
+      }
+    case 'roi':
+      return {
+        ...settings,
+        kind: 'ratio',
+        name: 'ROI',
+        formula: '(revenue − budget) ÷ budget',
+        compute: (revenue, budget) => (revenue - budget) / budget,
+        axisLabel: () => 'ROI (% of budget)'
+      }
+  }
+}
+
+export function formatRatio(value: number) {
+  return `${(value * 100).toFixed(0)}%`
+}
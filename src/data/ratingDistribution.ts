@@ -0,0 +1,64 @@
+import * as d3 from 'd3'
+import { Review } from '../types'
+
+/** =========================
+ *  Review rating distributions
+ *  =========================
+ *  How the scraped reviews for one title spread over 1–10, and how their
+ *  mean compares with the title's IMDb average.
+ */
+
+export const RATING_VALUES = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10]
+
+// Ratings at or beyond these count as extremes
+export const LOW_RATING_MAX = 2
+export const HIGH_RATING_MIN = 9
+
+// Each extreme (1–2 and 9–10) must hold at least this share to count as polarized
+export const POLARIZATION_THRESHOLD = 0.25
+// Below this many rated reviews the shares are too noisy to flag
+export const MIN_RATED_REVIEWS = 10
+
+export type RatingDistribution = {
+  /** Reviews per rating, index 0 is a rating of 1 */
+  counts: number[]
+  rated: number
+  unrated: number
+  mean: number | null
+  /** Review mean minus the IMDb average; positive means reviewers were kinder */
+  gap: number | null
+  lowShare: number
+  highShare: number
+  polarized: boolean
+}
+
+export function ratingDistribution(reviews: Review[], imdbRating: number | null): RatingDistribution {
+  const counts = RATING_VALUES.map(() => 0)
+  let sum = 0
+  let unrated = 0
+  for (const review of reviews) {
+    const rating = review.rating
+    if (rating === null || rating < 1 || rating > 10) {
+      unrated += 1
+      continue
+    }
+    counts[Math.round(rating) - 1] += 1
+    sum += rating
+  }
+
+  const rated = reviews.length - unrated
+  const mean = rated > 0 ? sum / rated : null
+  const lowShare = rated > 0 ? d3.sum(counts.slice(0, LOW_RATING_MAX)) / rated : 0
+  const highShare = rated > 0 ? d3.sum(counts.slice(HIGH_RATING_MIN - 1)) / rated : 0
+
+  return {
+    counts,
+    rated,
+    unrated,
+    mean,
+    gap: mean !== null && imdbRating !== null ? mean - imdbRating : null,
+    lowShare,
+    highShare,
+    polarized: rated >= MIN_RATED_REVIEWS && lowShare >= POLARIZATION_THRESHOLD && highShare >= POLARIZATION_THRESHOLD
+  }
+}
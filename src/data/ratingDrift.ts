@@ -0,0 +1,115 @@
+import * as d3 from 'd3'
+import { Review } from '../types'
+import { parseDate } from './parse'
+import { HIGH_RATING_MIN, LOW_RATING_MAX } from './ratingDistribution'
+
+/** =========================
+ *  Post-release rating drift
+ *  =========================
+ *  Places a title's reviews on a timeline relative to its release date and
+ *  flags weeks where low or high ratings cluster more than the MCU as a whole
+ *  would suggest, so launch-week review bombs stand apart from slow decline.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000
+// Trailing window for the rolling mean, in reviews
+export const ROLLING_WINDOW = 5
+// A week needs at least this many reviews before it can be called a burst
+const MIN_BURST_REVIEWS = 3
+// One-sided binomial tail probability below which a week is flagged
+const BURST_P_VALUE = 0.01
+// Reviews up to the end of the first week after release count as launch reviews
+const LAUNCH_WEEKS = 1
+
+export type TimedReview = {
+  review: Review
+  date: Date
+  /** Weeks since release; negative for premieres and early screenings */
+  weeks: number
+  rating: number
+}
+
+export type RatingShares = { lowShare: number; highShare: number }
+
+export type RatingBurst = {
+  /** Whole weeks since release (floor) */
+  week: number
+  kind: 'low' | 'high'
+  reviews: number
+  matches: number
+  pValue: number
+}
+
+export type WindowMean = { mean: number | null; count: number }
+
+export type RatingDrift = {
+  points: TimedReview[]
+  rolling: { weeks: number; mean: number }[]
+  bursts: RatingBurst[]
+  launch: WindowMean
+  later: WindowMean
+}
+
+const isLow = (rating: number) => rating <= LOW_RATING_MAX
+const isHigh = (rating: number) => rating >= HIGH_RATING_MIN
+
+/** Share of extreme ratings across every review, the baseline for burst tests */
+export function ratingShares(reviews: Review[]): RatingShares {
+  const ratings = reviews.map(r => r.rating).filter((r): r is number => r !== null)
+  if (ratings.length === 0) return { lowShare: 0, highShare: 0 }
+  return {
+    lowShare: ratings.filter(isLow).length / ratings.length,
+    highShare: ratings.filter(isHigh).length / ratings.length
+  }
+}
+
+/** P(X >= k) for X ~ Binomial(n, p) */
+function binomialTail(k: number, n: number, p: number) {
+  if (k <= 0) return 1
+  if (p <= 0) return 0
+  let coefficient = 1
+  let total = 0
+  for (let i = 0; i <= n; i++) {
+    if (i > 0) coefficient = (coefficient * (n - i + 1)) / i
+    if (i >= k) total += coefficient * Math.pow(p, i) * Math.pow(1 - p, n - i)
+  }
+  return Math.min(1, total)
+}
+
+function windowMean(points: TimedReview[]): WindowMean {
+  return { mean: points.length ? d3.mean(points, p => p.rating) ?? null : null, count: points.length }
+}
+
+export function ratingDrift(reviews: Review[], releaseDate: Date, baseline: RatingShares): RatingDrift {
+  const points: TimedReview[] = []
+  for (const review of reviews) {
+    const date = parseDate(review.date)
+    if (!date || review.rating === null) continue
+    points.push({ review, date, weeks: (date.getTime() - releaseDate.getTime()) / DAY_MS / 7, rating: review.rating })
+  }
+  points.sort((a, b) => a.weeks - b.weeks)
+
+  const rolling = points.map((point, i) => ({
+    weeks: point.weeks,
+    mean: d3.mean(points.slice(Math.max(0, i - ROLLING_WINDOW + 1), i + 1), p => p.rating) ?? point.rating
+  }))
+
+  const bursts: RatingBurst[] = []
+  for (const [week, items] of d3.group(points, p => Math.floor(p.weeks))) {
+    if (items.length < MIN_BURST_REVIEWS) continue
+    for (const kind of ['low', 'high'] as const) {
+      const matches = items.filter(p => (kind === 'low' ? isLow(p.rating) : isHigh(p.rating))).length
+      const pValue = binomialTail(matches, items.length, kind === 'low' ? baseline.lowShare : baseline.highShare)
+      if (pValue < BURST_P_VALUE) bursts.push({ week, kind, reviews: items.length, matches, pValue })
+    }
+  }
+  bursts.sort((a, b) => a.week - b.week)
+
+  return {
+    points,
+    rolling,
+    bursts,
+    launch: windowMean(points.filter(p => p.weeks < LAUNCH_WEEKS)),
+    later: windowMean(points.filter(p => p.weeks >= LAUNCH_WEEKS))
+  }
+}
@@ -0,0 +1,131 @@
+import { MediaType, Review, Title } from '../types'
+
+/** =========================
+ *  Canonical title registry
+ *  =========================
+ *  Every join between datasets (reviews → titles, annotation and connection
+ *  references) goes through here instead of comparing raw title strings.
+ *  A reference can be our own id (`movie-1726`), a TMDB id, an IMDb id
+ *  (`tt0371746`), the exact CSV title, a known alias or a series name.
+ */
+
+// Alternative spellings seen in scraped data, press and older notes.
+// Keyed by IMDb id so one entry covers every season of a series.
+const ALIASES: Record<string, string[]> = {
+  tt0848228: ["Marvel's The Avengers", 'Avengers Assemble'],
+  tt10676052: ['The Fantastic Four: First Steps', 'Fantastic Four: First Steps', 'Fantastic 4: First Steps'],
+  tt20969586: ['Thunderbolts', '*Thunderbolts'],
+  tt9208876: ['The Falcon and the Winter Soldier', 'Falcon and Winter Soldier'],
+  tt10168312: ['What If'],
+  tt13623148: ['I Am Groot'],
+  tt16026746: ['X-Men 97', 'X-Men: 97'],
+  tt18923754: ['Daredevil Born Again'],
+  tt10857160: ['She-Hulk']
+}
+
+const SEASON_PATTERN = /^(.*?)\s*\|\s*season\s+(\d+)\s*$/i
+
+/** Splits "Loki | Season 1" into its series name and season number */
+export function splitSeason(title: string): { series: string; season: number | null } {
+  const match = title.match(SEASON_PATTERN)
+  if (!match) return { series: title.trim(), season: null }
+  return { series: match[1].trim(), season: Number(match[2]) }
+}
+
+/** Loose comparison key: case, punctuation, "&" vs "and" and spacing don't matter */
+export function titleKey(raw: string) {
+  return String(raw ?? '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+}
+
+export type TitleRegistry = {
+  titles: Title[]
+  /** Single best match; for a series name this is its first season */
+  resolve: (ref: string, mediaType?: MediaType) => Title | null
+  /** Every match, e.g. all seasons for "Loki" or a shared IMDb id */
+  resolveAll: (ref: string, mediaType?: MediaType) => Title[]
+  /** Series name for shows ("Loki | Season 2" → "Loki"), the title itself for movies */
+  seriesOf: (title: Title) => string
+  /** All titles of the same series in release order (a movie returns itself) */
+  seasonsOf: (title: Title) => Title[]
+  /** Titles a review belongs to, by IMDb id first and title as fallback */
+  titlesForReview: (review: Review) => Title[]
+  /**
+   * The one title a review counts toward in per-year or per-phase views.
+   * Show reviews are scraped per series, so they land on the first season.
+   */
+  titleOfReview: (review: Review) => Title | null
+}
+
+export function createTitleRegistry(titles: Title[]): TitleRegistry {
+  const byRef = new Map<string, Title[]>()
+  const seriesName = new Map<string, string>()
+
+  function add(key: string, title: Title) {
+    if (!key) return
+    const list = byRef.get(key)
+    if (!list) byRef.set(key, [title])
+    else if (!list.includes(title)) list.push(title)
+  }
+
+  for (const title of titles) {
+    const { series } = title.mediaType === 'show' ? splitSeason(title.title) : { series: title.title }
+    seriesName.set(title.id, series)
+
+    add(title.id, title)
+    add(`tmdb:${title.tmdbId}`, title)
+    add(title.imdbId, title)
+    add(titleKey(title.title), title)
+    add(titleKey(series), title)
+    for (const alias of ALIASES[title.imdbId] ?? []) add(titleKey(alias), title)
+  }
+
+  function lookup(ref: string) {
+    const raw = String(ref ?? '').trim()
+    if (!raw) return []
+    return (
+      byRef.get(raw) ??
+      byRef.get(`tmdb:${raw}`) ??
+      byRef.get(titleKey(raw)) ??
+      // "Loki | Season 3" for a season we don't have still maps to the series
+      byRef.get(titleKey(splitSeason(raw).series)) ??
+      []
+    )
+  }
+
+  function resolveAll(ref: string, mediaType?: MediaType) {
+    const matches = lookup(ref)
+    return mediaType ? matches.filter(t => t.mediaType === mediaType) : [...matches]
+  }
+
+  function resolve(ref: string, mediaType?: MediaType) {
+    const matches = resolveAll(ref, mediaType)
+    // An exact (case-insensitive) title match wins over series/alias hits
+    const exact = matches.find(t => titleKey(t.title) === titleKey(ref))
+    return exact ?? matches[0] ?? null
+  }
+
+  function seriesOf(title: Title) {
+    return seriesName.get(title.id) ?? title.title
+  }
+
+  function seasonsOf(title: Title) {
+    if (title.mediaType === 'movie') return [title]
+    const series = seriesOf(title)
+    return titles.filter(t => t.mediaType === 'show' && seriesOf(t) === series)
+  }
+
+  function titlesForReview(review: Review) {
+    const byImdb = review.imdbId ? resolveAll(review.imdbId, review.mediaType) : []
+    return byImdb.length > 0 ? byImdb : resolveAll(review.title, review.mediaType)
+  }
+
+  function titleOfReview(review: Review) {
+    return titlesForReview(review)[0] ?? null
+  }
+
+  return { titles, resolve, resolveAll, seriesOf, seasonsOf, titlesForReview, titleOfReview }
+}
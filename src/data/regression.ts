@@ -0,0 +1,47 @@
+/** =========================
+ *  Least-squares fit
+ *  =========================
+ *  Ordinary least squares for one predictor, used for the trend lines on
+ *  scatter plots.
+ */
+
+export type LinearFit = {
+  slope: number
+  intercept: number
+  /** Share of variance in y explained by the line, 0–1 */
+  r2: number
+  n: number
+  predict: (x: number) => number
+}
+
+/** Null when there are fewer than two points or every x is the same */
+export function linearFit<T>(data: T[], x: (d: T) => number, y: (d: T) => number): LinearFit | null {
+  const n = data.length
+  if (n < 2) return null
+
+  let sumX = 0
+  let sumY = 0
+  for (const d of data) {
+    sumX += x(d)
+    sumY += y(d)
+  }
+  const meanX = sumX / n
+  const meanY = sumY / n
+
+  let sxx = 0
+  let sxy = 0
+  let syy = 0
+  for (const d of data) {
+    const dx = x(d) - meanX
+    const dy = y(d) - meanY
+    sxx += dx * dx
+    sxy += dx * dy
+    syy += dy * dy
+  }
+  if (sxx === 0) return null
+
+  const slope = sxy / sxx
+  const intercept = meanY - slope * meanX
+  const r2 = syy === 0 ? 1 : (sxy * sxy) / (sxx * syy)
+  return { slope, intercept, r2, n, predict: value => intercept + slope * value }
+}
@@ -0,0 +1,143 @@
+import { Review } from '../types'
+import { parseDate } from './parse'
+import { enumParam, ParamCodec } from './permalink'
+
+/** =========================
+ *  Review ordering and filters
+ *  =========================
+ *  Shared by the movie reviews panel and the dashboard so both offer the
+ *  same sort modes and filters.
+ */
+
+export type ReviewSortMode = 'helpful' | 'newest' | 'oldest' | 'highest' | 'lowest' | 'controversial'
+
+export const REVIEW_SORT_LABELS: Record<ReviewSortMode, string> = {
+  helpful: 'Most helpful',
+  newest: 'Newest',
+  oldest: 'Oldest',
+  highest: 'Highest rated',
+  lowest: 'Lowest rated',
+  controversial: 'Most controversial'
+}
+
+export type RatingBand = 'all' | 'negative' | 'mixed' | 'positive'
+
+export const RATING_BANDS: Record<RatingBand, { label: string; min: number; max: number }> = {
+  all: { label: 'All ratings', min: 1, max: 10 },
+  negative: { label: '1–4', min: 1, max: 4 },
+  mixed: { label: '5–7', min: 5, max: 7 },
+  positive: { label: '8–10', min: 8, max: 10 }
+}
+
+export type ReviewListOptions = {
+  sort: ReviewSortMode
+  band: RatingBand
+  from: Date | null
+  to: Date | null
+}
+
+export const DEFAULT_REVIEW_OPTIONS: ReviewListOptions = {
+  sort: 'helpful',
+  band: 'all',
+  from: null,
+  to: null
+}
+
+/**
+ * Lower bound of the 95% Wilson score interval for the share of likes.
+ * Ten likes out of ten beats one out of one, which raw ratios get wrong.
+ */
+export function wilsonLowerBound(likes: number, dislikes: number, z = 1.96) {
+  const n = likes + dislikes
+  if (n === 0) return 0
+  const p = likes / n
+  const z2 = z * z
+  return (p + z2 / (2 * n) - z * Math.sqrt((p * (1 - p) + z2 / (4 * n)) / n)) / (1 + z2 / n)
+}
+
+/** Many votes, split close to evenly, ranks highest */
+export function controversy(likes: number, dislikes: number) {
+  if (likes === 0 || dislikes === 0) return 0
+  const balance = likes > dislikes ? dislikes / likes : likes / dislikes
+  return Math.pow(likes + dislikes, balance)
+}
+
+type Ranked = { review: Review; date: Date | null }
+
+// Missing values sort last whichever way the list runs
+function compareNullable(a: number | null, b: number | null, descending: boolean) {
+  if (a === null || b === null) return a === null ? (b === null ? 0 : 1) : -1
+  return descending ? b - a : a - b
+}
+
+function compare(sort: ReviewSortMode, a: Ranked, b: Ranked) {
+  switch (sort) {
+    case 'helpful':
+      return wilsonLowerBound(b.review.likes, b.review.dislikes) - wilsonLowerBound(a.review.likes, a.review.dislikes)
+    case 'newest':
+    case 'oldest':
+      return compareNullable(a.date?.getTime() ?? null, b.date?.getTime() ?? null, sort === 'newest')
+    case 'highest':
+    case 'lowest':
+      return compareNullable(a.review.rating, b.review.rating, sort === 'highest')
+    case 'controversial':
+      return controversy(b.review.likes, b.review.dislikes) - controversy(a.review.likes, a.review.dislikes)
+  }
+}
+
+/**
+ * Filters by rating band and posting date, then sorts. Unrated reviews drop
+ * out of any band but "all"; undated ones drop out once a date bound is set.
+ */
+export function applyReviewOptions(reviews: Review[], options: ReviewListOptions): Review[] {
+  const band = RATING_BANDS[options.band]
+  const filtered: Ranked[] = []
+  for (const review of reviews) {
+    if (options.band !== 'all' && (review.rating === null || review.rating < band.min || review.rating > band.max)) continue
+    const date = parseDate(review.date)
+    if (options.from && (!date || date < options.from)) continue
+    if (options.to && (!date || date > options.to)) continue
+    filtered.push({ review, date })
+  }
+  // Stable sort keeps file order between ties
+  return filtered.sort((a, b) => compare(options.sort, a, b)).map(r => r.review)
+}
+
+/** `<input type="date">` values, read as local midnight (or the end of that day) */
+export function parseDateInput(value: string, endOfDay = false) {
+  if (!value) return null
+  return parseDate(`${value}T${endOfDay ? '23:59:59' : '00:00:00'}`)
+}
+
+/** The inverse of `parseDateInput`: `YYYY-MM-DD` in local time, or '' for no date */
+export function formatDateInput(date: Date | null) {
+  if (!date) return ''
+  const pad = (n: number) => String(n).padStart(2, '0')
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`
+}
+
+const sortParam = enumParam<ReviewSortMode>(
+  'sort',
+  Object.keys(REVIEW_SORT_LABELS) as ReviewSortMode[],
+  DEFAULT_REVIEW_OPTIONS.sort
+)
+const bandParam = enumParam<RatingBand>('band', Object.keys(RATING_BANDS) as RatingBand[], DEFAULT_REVIEW_OPTIONS.band)
+
+/** Review options as the permalink keys `sort`, `band`, `from` and `to` */
+export const reviewOptionsParam: ParamCodec<ReviewListOptions> = {
+  read: params => ({
+    sort: sortParam.read(params),
+    band: bandParam.read(params),
+    from: parseDateInput(params.get('from') ?? ''),
+    to: parseDateInput(params.get('to') ?? '', true)
+  }),
+  write: (params, options) => {
+    sortParam.write(params, options.sort)
+    bandParam.write(params, options.band)
+    for (const key of ['from', 'to'] as const) {
+      const value = formatDateInput(options[key])
+      if (value) params.set(key, value)
+      else params.delete(key)
+    }
+  }
+}
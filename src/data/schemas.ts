@@ -0,0 +1,253 @@
+import * as d3 from 'd3'
+import { Phase } from '../types'
+import { parseDate, parseNumber, parsePhase, parseText } from './parse'
+
+/** =========================
+ *  Declared CSV schemas
+ *  =========================
+ *  One entry per column the app actually reads. Columns marked `required`
+ *  reject the whole row when missing or invalid; optional columns fall back
+ *  to null and the fallback is reported as a coercion.
+ */
+type FieldKind = 'text' | 'number' | 'date' | 'phase' | 'boolean'
+type FieldSpec = { kind: FieldKind; required?: boolean }
+export type CsvSchema = { file: string; columns: Record<string, FieldSpec> }
+
+type KindValue = {
+  text: string
+  number: number | null
+  date: Date | null
+  phase: Phase | null
+  boolean: boolean | null
+}
+
+type FieldValue<F extends FieldSpec> = F['required'] extends true
+  ? NonNullable<KindValue[F['kind']]>
+  : KindValue[F['kind']]
+
+export type SchemaRecord<S extends CsvSchema> = {
+  [C in keyof S['columns']]: FieldValue<S['columns'][C]>
+}
+
+export const MOVIES_SCHEMA = {
+  file: 'marvel_movies_tmdb.csv',
+  columns: {
+    id: { kind: 'text', required: true },
+    title: { kind: 'text', required: true },
+    phase: { kind: 'phase', required: true },
+    release_date: { kind: 'date', required: true },
+    imdb_id: { kind: 'text' },
+    imdb_average_rating: { kind: 'number' },
+    imdb_vote_count: { kind: 'number' },
+    revenue: { kind: 'number' },
+    budget: { kind: 'number' },
+    poster_path: { kind: 'text' },
+    overview: { kind: 'text' }
+  }
+} as const satisfies CsvSchema
+
+export const SHOWS_SCHEMA = {
+  file: 'marvel_shows_data.csv',
+  columns: {
+    id: { kind: 'text', required: true },
+    title: { kind: 'text', required: true },
+    phase: { kind: 'phase', required: true },
+    release_date: { kind: 'date', required: true },
+    imdb_id: { kind: 'text' },
+    imdb_average_rating: { kind: 'number' },
+    imdb_vote_count: { kind: 'number' },
+    poster_path: { kind: 'text' },
+    overview: { kind: 'text' }
+  }
+} as const satisfies CsvSchema
+
+const REVIEW_COLUMNS = {
+  title: { kind: 'text', required: true },
+  imdb_id: { kind: 'text', required: true },
+  author: { kind: 'text' },
+  date: { kind: 'text' },
+  review_rating: { kind: 'number' },
+  review_title: { kind: 'text' },
+  review: { kind: 'text' },
+  likes: { kind: 'number' },
+  dislikes: { kind: 'number' }
+} as const satisfies CsvSchema['columns']
+
+export const MOVIE_REVIEWS_SCHEMA = {
+  file: 'marvel_movies_imdb_reviews.csv',
+  columns: REVIEW_COLUMNS
+} as const satisfies CsvSchema
+
+export const SHOW_REVIEWS_SCHEMA = {
+  file: 'marvel_shows_imdb_reviews.csv',
+  columns: REVIEW_COLUMNS
+} as const satisfies CsvSchema
+
+export const BOX_OFFICE_SCHEMA = {
+  file: 'top10_movies_2008_2025.csv',
+  columns: {
+    id: { kind: 'text', required: true },
+    title: { kind: 'text', required: true },
+    release_date: { kind: 'date', required: true },
+    revenue: { kind: 'number', required: true },
+    is_marvel: { kind: 'boolean', required: true }
+  }
+} as const satisfies CsvSchema
+
+// US CPI-U annual averages (BLS series CUUR0000SA0), used for real-dollar mode
+export const CPI_SCHEMA = {
+  file: 'cpi_u_annual.csv',
+  columns: {
+    year: { kind: 'number', required: true },
+    cpi: { kind: 'number', required: true }
+  }
+} as const satisfies CsvSchema
+
+/** =========================
+ *  Data-quality issues
+ *  ========================= */
+export type DataIssueKind =
+  | 'missing-column'
+  | 'rejected'
+  | 'coerced'
+  | 'missing-budget'
+  | 'orphan-review'
+  | 'invalid-connection'
+  | 'duplicate-connection'
+  | 'invalid-annotation'
+
+export type DataIssue = {
+  kind: DataIssueKind
+  file: string
+  row: number | null // 1-based data row of a CSV (the header is not counted), or entry number in JSON files
+  column: string | null
+  value: string | null
+  message: string
+}
+
+export type FileSummary = { file: string; rows: number; accepted: number }
+
+export type DataQualityReport = {
+  files: FileSummary[]
+  issues: DataIssue[]
+}
+
+// Values the scrapers write for "no value" that are safe to read as missing
+const NULL_TOKENS = new Set(['none', 'null', 'nan', 'n/a', 'na', '-'])
+
+type Coerced = { ok: boolean; value: unknown; coerced: boolean }
+
+function coerce(kind: FieldKind, raw: string): Coerced {
+  const text = parseText(raw)
+  if (kind === 'text') return { ok: true, value: text, coerced: false }
+  if (!text) return { ok: true, value: null, coerced: false }
+  if (NULL_TOKENS.has(text.toLowerCase())) return { ok: true, value: null, coerced: true }
+
+  switch (kind) {
+    case 'number': {
+      const n = parseNumber(text)
+      if (n === null) return { ok: false, value: null, coerced: false }
+      // "1.2K" / "1,024" parse fine but are not plain numbers
+      return { ok: true, value: n, coerced: Number(text) !== n }
+    }
+    case 'date': {
+      const d = parseDate(text)
+      return d ? { ok: true, value: d, coerced: false } : { ok: false, value: null, coerced: false }
+    }
+    case 'phase': {
+      const p = parsePhase(text)
+      return p ? { ok: true, value: p, coerced: false } : { ok: false, value: null, coerced: false }
+    }
+    case 'boolean': {
+      const lower = text.toLowerCase()
+      if (lower !== 'true' && lower !== 'false') return { ok: false, value: null, coerced: false }
+      return { ok: true, value: lower === 'true', coerced: lower !== text }
+    }
+  }
+}
+
+export type ValidatedRow<S extends CsvSchema> = { row: number; raw: d3.DSVRowString<string>; values: SchemaRecord<S> }
+
+/**
+ * Checks every row of a CSV against its schema. Rows failing a required
+ * column are dropped; everything noteworthy is returned as an issue.
+ */
+export function validateCsv<S extends CsvSchema>(rows: d3.DSVRowArray<string>, schema: S) {
+  const issues: DataIssue[] = []
+  const records: ValidatedRow<S>[] = []
+  const columns = Object.entries(schema.columns)
+
+  const present = new Set(rows.columns)
+  for (const [column, spec] of columns) {
+    if (present.has(column)) continue
+    issues.push({
+      kind: 'missing-column',
+      file: schema.file,
+      row: null,
+      column,
+      value: null,
+      message: spec.required
+        ? `Required column "${column}" is missing, every row will be rejected`
+        : `Optional column "${column}" is missing, values read as empty`
+    })
+  }
+
+  rows.forEach((row, index) => {
+    // Review bodies span several physical lines, so issues name the record, not the line
+    const rowNumber = index + 1
+    const values: Record<string, unknown> = {}
+    const rowIssues: DataIssue[] = []
+    let rejection: string | null = null
+
+    for (const [column, spec] of columns) {
+      const raw = row[column] ?? ''
+      const result = coerce(spec.kind, raw)
+      const missing = result.value === null || result.value === ''
+
+      if (spec.required && (!result.ok || missing)) {
+        rejection = result.ok
+          ? `"${column}" is empty`
+          : `"${column}" is not a valid ${spec.kind}: "${parseText(raw)}"`
+        break
+      }
+
+      if (!result.ok) {
+        rowIssues.push({
+          kind: 'coerced',
+          file: schema.file,
+          row: rowNumber,
+          column,
+          value: raw,
+          message: `Not a valid ${spec.kind}, treated as missing`
+        })
+      } else if (result.coerced) {
+        rowIssues.push({
+          kind: 'coerced',
+          file: schema.file,
+          row: rowNumber,
+          column,
+          value: raw,
+          message: result.value === null ? 'Placeholder read as missing' : `Read as ${String(result.value)}`
+        })
+      }
+      values[column] = result.ok ? result.value : null
+    }
+
+    if (rejection) {
+      issues.push({
+        kind: 'rejected',
+        file: schema.file,
+        row: rowNumber,
+        column: null,
+        value: parseText(row.title ?? '') || null,
+        message: rejection
+      })
+      return
+    }
+
+    issues.push(...rowIssues)
+    records.push({ row: rowNumber, raw: row, values: values as SchemaRecord<S> })
+  })
+
+  return { records, issues }
+}
@@ -0,0 +1,253 @@
+import { Phase, Review, Title } from '../types'
+import { parseDate } from './parse'
+import { TitleRegistry } from './registry'
+import { normalizeText, tokenize } from './text'
+
+/** =========================
+ *  Full-text review search
+ *  =========================
+ *  An in-memory inverted index over every movie and show review, ranked
+ *  with BM25. Matches in the review title count more than in the body.
+ */
+
+// Standard BM25 constants
+const K1 = 1.2
+const B = 0.75
+const TITLE_WEIGHT = 3
+const SNIPPET_RADIUS = 110
+
+type SearchDoc = {
+  review: Review
+  title: Title
+  date: Date | null
+  tokens: string[] // review title + body, for phrase checks
+  length: number
+}
+
+type Posting = { doc: number; tf: number }
+
+export type ReviewIndex = {
+  docs: SearchDoc[]
+  postings: Map<string, Posting[]>
+  vocabulary: string[]
+  averageLength: number
+}
+
+export function createReviewIndex(reviews: Review[], registry: TitleRegistry): ReviewIndex {
+  const docs: SearchDoc[] = []
+  const postings = new Map<string, Posting[]>()
+
+  for (const review of reviews) {
+    const title = registry.titleOfReview(review)
+    if (!title) continue
+
+    const titleTokens = tokenize(review.reviewTitle)
+    const bodyTokens = tokenize(review.body)
+    const weights = new Map<string, number>()
+    for (const t of titleTokens) weights.set(t, (weights.get(t) ?? 0) + TITLE_WEIGHT)
+    for (const t of bodyTokens) weights.set(t, (weights.get(t) ?? 0) + 1)
+
+    const doc = docs.length
+    docs.push({
+      review,
+      title,
+      date: parseDate(review.date),
+      tokens: [...titleTokens, ...bodyTokens],
+      length: titleTokens.length * TITLE_WEIGHT + bodyTokens.length
+    })
+    weights.forEach((tf, token) => {
+      const list = postings.get(token)
+      if (list) list.push({ doc, tf })
+      else postings.set(token, [{ doc, tf }])
+    })
+  }
+
+  const averageLength = docs.length ? docs.reduce((sum, d) => sum + d.length, 0) / docs.length : 0
+  return { docs, postings, vocabulary: [...postings.keys()].sort(), averageLength }
+}
+
+/** =========================
+ *  Queries and filters
+ *  ========================= */
+type QueryTerm = { word: string; prefix: boolean }
+
+export type SearchQuery = {
+  terms: QueryTerm[]
+  phrases: string[][]
+}
+
+/**
+ * Every word must match. `"quoted words"` must appear in that order and a
+ * trailing `*` matches any ending (`multivers*`).
+ */
+export function parseSearchQuery(input: string): SearchQuery {
+  const phrases: string[][] = []
+  const rest = normalizeText(input).replace(/"([^"]*)"/g, (_match, phrase: string) => {
+    const words = tokenize(phrase)
+    if (words.length > 0) phrases.push(words)
+    return ' '
+  })
+
+  const terms: QueryTerm[] = []
+  for (const part of rest.split(/\s+/)) {
+    const prefix = part.endsWith('*')
+    for (const word of tokenize(prefix ? part.slice(0, -1) : part)) terms.push({ word, prefix })
+  }
+  for (const words of phrases) for (const word of words) terms.push({ word, prefix: false })
+  return { terms, phrases }
+}
+
+export type SearchFilters = {
+  titleId: string | null
+  phase: Phase | null
+  minRating: number | null
+  maxRating: number | null
+  from: Date | null
+  to: Date | null
+}
+
+export const EMPTY_FILTERS: SearchFilters = {
+  titleId: null,
+  phase: null,
+  minRating: null,
+  maxRating: null,
+  from: null,
+  to: null
+}
+
+function passesFilters(doc: SearchDoc, filters: SearchFilters, registry: TitleRegistry) {
+  if (filters.titleId && !registry.titlesForReview(doc.review).some(t => t.id === filters.titleId)) return false
+  if (filters.phase !== null && doc.title.phase !== filters.phase) return false
+  const rating = doc.review.rating
+  if (filters.minRating !== null && (rating === null || rating < filters.minRating)) return false
+  if (filters.maxRating !== null && (rating === null || rating > filters.maxRating)) return false
+  if (filters.from && (!doc.date || doc.date < filters.from)) return false
+  if (filters.to && (!doc.date || doc.date > filters.to)) return false
+  return true
+}
+
+function containsPhrase(tokens: string[], phrase: string[]) {
+  outer: for (let i = 0; i + phrase.length <= tokens.length; i++) {
+    for (let j = 0; j < phrase.length; j++) if (tokens[i + j] !== phrase[j]) continue outer
+    return true
+  }
+  return false
+}
+
+/** =========================
+ *  Highlighting
+ *  ========================= */
+export type TextSegment = { text: string; match: boolean }
+
+function escapeRegExp(text: string) {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+function matchPattern(query: SearchQuery) {
+  // Tokens use a plain apostrophe, the scraped text often a curly one
+  const parts = query.terms.map(t => `${escapeRegExp(t.word).replace(/'/g, "['’]")}${t.prefix ? "[\\w'’]*" : ''}`)
+  if (parts.length === 0) return null
+  return new RegExp(`(?<![\\w])(?:${parts.join('|')})(?![\\w])`, 'gi')
+}
+
+export function highlight(text: string, pattern: RegExp | null): TextSegment[] {
+  if (!pattern || !text) return [{ text, match: false }]
+  const segments: TextSegment[] = []
+  let last = 0
+  for (const m of text.matchAll(pattern)) {
+    const start = m.index ?? 0
+    if (start > last) segments.push({ text: text.slice(last, start), match: false })
+    segments.push({ text: m[0], match: true })
+    last = start + m[0].length
+  }
+  if (last < text.length) segments.push({ text: text.slice(last), match: false })
+  return segments
+}
+
+/** A window of the body around the first match, cut at word boundaries */
+function snippet(body: string, pattern: RegExp | null): TextSegment[] {
+  const text = body.replace(/\s+/g, ' ').trim()
+  const first = pattern ? text.search(pattern) : -1
+  const center = first < 0 ? 0 : first
+  let start = Math.max(0, center - SNIPPET_RADIUS)
+  let end = Math.min(text.length, center + SNIPPET_RADIUS)
+  if (start > 0) start = text.indexOf(' ', start) + 1 || start
+  if (end < text.length) end = text.lastIndexOf(' ', end) > center ? text.lastIndexOf(' ', end) : end
+
+  const segments = highlight(text.slice(start, end), pattern)
+  if (start > 0) segments.unshift({ text: '… ', match: false })
+  if (end < text.length) segments.push({ text: ' …', match: false })
+  return segments
+}
+
+/** =========================
+ *  Ranking
+ *  ========================= */
+export type SearchResult = {
+  review: Review
+  title: Title
+  score: number
+  reviewTitle: TextSegment[]
+  snippet: TextSegment[]
+}
+
+export function searchReviews(
+  index: ReviewIndex,
+  registry: TitleRegistry,
+  query: SearchQuery,
+  filters: SearchFilters,
+  limit = 50
+): { results: SearchResult[]; total: number } {
+  if (query.terms.length === 0) return { results: [], total: 0 }
+
+  const N = index.docs.length
+  let candidates: Map<number, number> | null = null
+
+  for (const term of query.terms) {
+    // A prefix term scores as the union of every word it expands to
+    const words = term.prefix
+      ? index.vocabulary.filter(w => w.startsWith(term.word))
+      : index.postings.has(term.word)
+        ? [term.word]
+        : []
+    const scores = new Map<number, number>()
+    for (const word of words) {
+      const list = index.postings.get(word) ?? []
+      const idf = Math.log(1 + (N - list.length + 0.5) / (list.length + 0.5))
+      for (const { doc, tf } of list) {
+        const norm = K1 * (1 - B + (B * index.docs[doc].length) / (index.averageLength || 1))
+        scores.set(doc, (scores.get(doc) ?? 0) + (idf * tf * (K1 + 1)) / (tf + norm))
+      }
+    }
+
+    // Every term has to match: keep the intersection and add up scores
+    const previous: Map<number, number> | null = candidates
+    const next = new Map<number, number>()
+    scores.forEach((score, doc) => {
+      if (previous === null) next.set(doc, score)
+      else if (previous.has(doc)) next.set(doc, (previous.get(doc) ?? 0) + score)
+    })
+    candidates = next
+    if (candidates.size === 0) break
+  }
+
+  const pattern = matchPattern(query)
+  const ranked = [...(candidates ?? new Map<number, number>())]
+    .filter(([doc]) => {
+      const d = index.docs[doc]
+      return query.phrases.every(p => containsPhrase(d.tokens, p)) && passesFilters(d, filters, registry)
+    })
+    .sort((a, b) => b[1] - a[1])
+
+  const results = ranked.slice(0, limit).map(([doc, score]) => {
+    const { review, title } = index.docs[doc]
+    return {
+      review,
+      title,
+      score,
+      reviewTitle: highlight(review.reviewTitle, pattern),
+      snippet: snippet(review.body, pattern)
+    }
+  })
+  return { results, total: ranked.length }
+}
@@ -0,0 +1,137 @@
+import * as d3 from 'd3'
+import { Phase, Review, Title } from '../types'
+import { TitleRegistry } from './registry'
+import { BOOSTERS, LEXICON, NEGATORS } from './sentimentLexicon'
+import { clauses, reviewText, tokenize } from './text'
+
+/** =========================
+ *  Lexicon sentiment
+ *  =========================
+ *  A small offline scorer in the spirit of VADER: sum word valences per
+ *  clause, flip them after a negator, scale them by degree words, and
+ *  squash the total into [-1, 1]. No network or model service involved.
+ */
+
+// How many words after "not" / "never" / "didn't" the negation reaches
+const NEGATION_WINDOW = 3
+// Negated words flip and weaken: "not bad" is mildly positive, not great
+const NEGATION_FACTOR = -0.74
+// Larger values need more evidence before a score approaches ±1
+const NORMALIZATION_ALPHA = 15
+
+export type SentimentScore = {
+  /** Normalized score in [-1, 1] */
+  score: number
+  positive: number
+  negative: number
+  /** Number of lexicon words found */
+  hits: number
+}
+
+function isNegator(token: string) {
+  const bare = token.replace(/'/g, '')
+  return NEGATORS.has(bare) || token.endsWith("n't")
+}
+
+/**
+ * Scores free text. Words in `ignore` (e.g. the reviewed title, so "Love and
+ * Thunder" or "Doctor Strange" don't color the score) are skipped.
+ */
+export function scoreText(text: string, ignore: Set<string> = new Set()): SentimentScore {
+  let total = 0
+  let positive = 0
+  let negative = 0
+  let hits = 0
+
+  for (const clause of clauses(text)) {
+    let negatedFor = 0
+    let boost = 1
+    for (const token of clause) {
+      if (isNegator(token)) {
+        negatedFor = NEGATION_WINDOW
+        continue
+      }
+      if (BOOSTERS[token] !== undefined) {
+        boost *= BOOSTERS[token]
+        continue
+      }
+
+      const valence = ignore.has(token) ? undefined : LEXICON[token]
+      if (valence !== undefined) {
+        const value = valence * boost * (negatedFor > 0 ? NEGATION_FACTOR : 1)
+        total += value
+        if (value > 0) positive += value
+        else negative -= value
+        hits += 1
+      }
+      boost = 1
+      if (negatedFor > 0) negatedFor -= 1
+    }
+  }
+
+  const score = total === 0 ? 0 : total / Math.sqrt(total * total + NORMALIZATION_ALPHA)
+  return { score, positive, negative, hits }
+}
+
+export function scoreReview(review: Review) {
+  return scoreText(reviewText(review), new Set(tokenize(review.title)))
+}
+
+export type ScoredReview = {
+  review: Review
+  title: Title
+  sentiment: SentimentScore
+}
+
+/** Scores every review and attaches the title it counts toward */
+export function scoreReviews(reviews: Review[], registry: TitleRegistry): ScoredReview[] {
+  const out: ScoredReview[] = []
+  for (const review of reviews) {
+    const title = registry.titleOfReview(review)
+    if (title) out.push({ review, title, sentiment: scoreReview(review) })
+  }
+  return out
+}
+
+export type SentimentGroupBy = 'title' | 'year' | 'phase'
+
+export type SentimentGroup = {
+  key: string
+  label: string
+  /** Release date of the earliest title in the group, for ordering and era splits */
+  releaseDate: Date
+  year: number
+  phase: Phase
+  mean: number
+  count: number
+  /** Share of reviews scoring above / below zero */
+  positiveShare: number
+  negativeShare: number
+}
+
+function groupKey(title: Title, by: SentimentGroupBy) {
+  if (by === 'title') return { key: title.id, label: title.title }
+  if (by === 'year') return { key: String(title.year), label: String(title.year) }
+  return { key: `phase-${title.phase}`, label: `Phase ${title.phase}` }
+}
+
+/** Mean sentiment per title, release year or phase, in release order */
+export function sentimentBy(scored: ScoredReview[], by: SentimentGroupBy): SentimentGroup[] {
+  const groups = d3.group(scored, s => groupKey(s.title, by).key)
+  return [...groups.values()]
+    .map(items => {
+      const first = d3.least(items, s => s.title.releaseDate.getTime())!.title
+      const scores = items.map(s => s.sentiment.score)
+      return {
+        ...groupKey(first, by),
+        releaseDate: first.releaseDate,
+        year: first.year,
+        phase: first.phase,
+        mean: d3.mean(scores) ?? 0,
+        count: items.length,
+        positiveShare: scores.filter(s => s > 0).length / items.length,
+        negativeShare: scores.filter(s => s < 0).length / items.length
+      }
+    })
+    .sort((a, b) => a.releaseDate.getTime() - b.releaseDate.getTime())
+}
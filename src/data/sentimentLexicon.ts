@@ -0,0 +1,305 @@
+/**
+ * Word valences for review sentiment, from -3 (very negative) to +3 (very
+ * positive). Hand-curated for film and TV reviews. Plot vocabulary ("kill",
+ * "war", "death") is deliberately left out: it describes the story, not the
+ * reviewer's opinion of it.
+ */
+export const LEXICON: Record<string, number> = {
+  // ---- positive ----
+  amazing: 3,
+  astonishing: 3,
+  awesome: 3,
+  brilliant: 3,
+  brilliantly: 3,
+  excellent: 3,
+  exceptional: 3,
+  extraordinary: 3,
+  fantastic: 3,
+  flawless: 3,
+  incredible: 3,
+  magnificent: 3,
+  masterpiece: 3,
+  masterful: 3,
+  outstanding: 3,
+  perfect: 3,
+  perfection: 3,
+  phenomenal: 3,
+  spectacular: 3,
+  stunning: 3,
+  superb: 3,
+  terrific: 3,
+  wonderful: 3,
+  wonderfully: 3,
+  best: 2,
+  loved: 3,
+  love: 2,
+  adore: 3,
+  hilarious: 3,
+  breathtaking: 3,
+  epic: 2,
+  beautiful: 2,
+  beautifully: 2,
+  captivating: 2,
+  charming: 2,
+  clever: 2,
+  compelling: 2,
+  delight: 2,
+  delightful: 2,
+  emotional: 1,
+  engaging: 2,
+  enjoy: 2,
+  enjoyable: 2,
+  enjoyed: 2,
+  entertaining: 2,
+  exciting: 2,
+  fun: 2,
+  funny: 2,
+  gem: 2,
+  gorgeous: 2,
+  great: 2,
+  greatest: 3,
+  gripping: 2,
+  heartfelt: 2,
+  impressive: 2,
+  inspiring: 2,
+  intelligent: 2,
+  memorable: 2,
+  moving: 1,
+  powerful: 2,
+  refreshing: 2,
+  remarkable: 2,
+  satisfying: 2,
+  smart: 2,
+  strong: 1,
+  thrilling: 2,
+  touching: 2,
+  triumph: 2,
+  unforgettable: 2,
+  witty: 2,
+  worth: 1,
+  worthwhile: 2,
+  good: 1,
+  nice: 1,
+  solid: 1,
+  decent: 1,
+  fine: 1,
+  pleasant: 1,
+  likable: 1,
+  likeable: 1,
+  interesting: 1,
+  enjoyment: 2,
+  entertained: 2,
+  favorite: 2,
+  favourite: 2,
+  fresh: 1,
+  highlight: 1,
+  improvement: 1,
+  recommend: 2,
+  recommended: 2,
+  rewarding: 2,
+  rewatch: 1,
+  success: 1,
+  successful: 1,
+  thoughtful: 2,
+  underrated: 1,
+  wow: 2,
+  glad: 1,
+  happy: 1,
+  excited: 1,
+  nailed: 2,
+  polished: 1,
+  fascinating: 2,
+  immersive: 2,
+  charismatic: 2,
+  iconic: 2,
+  legendary: 2,
+  nostalgic: 1,
+  heartwarming: 2,
+  chemistry: 1,
+  balanced: 1,
+  layered: 1,
+  nuanced: 2,
+  coherent: 1,
+  cohesive: 1,
+  appreciated: 1,
+  praise: 2,
+  stellar: 3,
+
+  // ---- negative ----
+  awful: -3,
+  abysmal: -3,
+  atrocious: -3,
+  disaster: -3,
+  disgrace: -3,
+  garbage: -3,
+  horrible: -3,
+  horrendous: -3,
+  pathetic: -3,
+  terrible: -3,
+  trash: -3,
+  unwatchable: -3,
+  worst: -3,
+  hate: -3,
+  hated: -3,
+  insult: -3,
+  insulting: -3,
+  embarrassing: -2,
+  dreadful: -3,
+  painful: -2,
+  bad: -2,
+  badly: -2,
+  boring: -2,
+  bored: -2,
+  bland: -2,
+  cheap: -2,
+  clumsy: -2,
+  confusing: -2,
+  cringe: -2,
+  cringey: -2,
+  cringeworthy: -2,
+  cringy: -2,
+  disappointed: -2,
+  disappointing: -2,
+  disappointment: -2,
+  dull: -2,
+  forced: -2,
+  forgettable: -2,
+  lame: -2,
+  lazy: -2,
+  lifeless: -2,
+  mediocre: -2,
+  mess: -2,
+  messy: -2,
+  nonsense: -2,
+  pointless: -2,
+  poor: -2,
+  poorly: -2,
+  ridiculous: -2,
+  rushed: -2,
+  shallow: -2,
+  silly: -1,
+  stupid: -2,
+  tedious: -2,
+  tiresome: -2,
+  unfunny: -2,
+  uninspired: -2,
+  uninteresting: -2,
+  waste: -2,
+  wasted: -2,
+  weak: -2,
+  worse: -2,
+  annoying: -2,
+  overrated: -2,
+  predictable: -1,
+  formulaic: -1,
+  generic: -1,
+  cliche: -1,
+  cliched: -1,
+  derivative: -1,
+  repetitive: -1,
+  bloated: -1,
+  convoluted: -1,
+  fatigue: -1,
+  flat: -1,
+  lacking: -1,
+  lacks: -1,
+  meh: -1,
+  overlong: -1,
+  problem: -1,
+  problems: -1,
+  slow: -1,
+  underwhelming: -2,
+  unnecessary: -1,
+  unoriginal: -1,
+  wooden: -2,
+  awkward: -1,
+  bizarre: -1,
+  cartoonish: -1,
+  childish: -1,
+  clunky: -2,
+  drags: -1,
+  fails: -2,
+  failed: -2,
+  failure: -2,
+  fault: -1,
+  flaws: -1,
+  flawed: -1,
+  frustrating: -2,
+  incoherent: -2,
+  irritating: -2,
+  joke: -1,
+  letdown: -2,
+  meaningless: -2,
+  miscast: -2,
+  misstep: -1,
+  sadly: -1,
+  sloppy: -2,
+  soulless: -2,
+  ugly: -2,
+  unbearable: -3,
+  unconvincing: -2,
+  unfortunately: -1,
+  unlikable: -2,
+  unlikeable: -2,
+  wrong: -1,
+  yawn: -2,
+  skip: -1,
+  avoid: -2,
+  regret: -2,
+  angry: -1,
+  sad: -1,
+  tired: -1
+}
+
+/** Words that flip the valence of the next few words in the same clause */
+export const NEGATORS = new Set([
+  'not',
+  'no',
+  'never',
+  'nothing',
+  'neither',
+  'nor',
+  'none',
+  'nobody',
+  'without',
+  'hardly',
+  'barely',
+  'cannot',
+  'dont',
+  'didnt',
+  'doesnt',
+  'isnt',
+  'wasnt',
+  'werent',
+  'arent',
+  'cant',
+  'couldnt',
+  'wouldnt',
+  'shouldnt',
+  'wont',
+  'aint'
+])
+
+/** Degree words that scale the next sentiment word */
+export const BOOSTERS: Record<string, number> = {
+  very: 1.3,
+  really: 1.3,
+  so: 1.2,
+  too: 1.2,
+  extremely: 1.5,
+  incredibly: 1.5,
+  absolutely: 1.5,
+  totally: 1.3,
+  truly: 1.3,
+  completely: 1.3,
+  utterly: 1.5,
+  super: 1.3,
+  most: 1.2,
+  quite: 1.1,
+  pretty: 0.9,
+  fairly: 0.8,
+  somewhat: 0.7,
+  slightly: 0.6,
+  mildly: 0.6,
+  rather: 0.8
+}
@@ -0,0 +1,94 @@
+import { NarrationSection, Phase } from '../types'
+
+/** =========================
+ *  Story steps
+ *  =========================
+ *  The narration blocks that steer the charts as the reader scrolls. A step
+ *  becomes active once the top of its block passes the middle of the viewport
+ *  and stays active until the next step takes over, so the charts between two
+ *  blocks keep the state the text above them describes. Reaching the end
+ *  block hands the charts back to the reader.
+ */
+
+/** The clickable part of the cross-filter selection */
+export type StoryPicks = { titleIds: string[]; year: number | null; phases: Phase[] }
+
+/** Inclusive range of release years */
+export type TimelineWindow = { from: number; to: number }
+
+export type StoryTarget = {
+  /** Replaces the reader's selection while the step is active; missing fields are cleared */
+  selection?: Partial<StoryPicks>
+  /** Zooms the release timeline */
+  timelineWindow?: TimelineWindow
+  /** Lights up one phase's titles and connections in the Phase 4-6 chart */
+  connectionsPhase?: Phase
+}
+
+export type StoryStep = {
+  section: NarrationSection
+  label: string
+  target: StoryTarget
+}
+
+export const STORY_STEPS: StoryStep[] = [
+  {
+    section: 'introduction',
+    label: 'From Endgame to Phase 4',
+    target: { timelineWindow: { from: 2019, to: 2021 } }
+  },
+  {
+    section: 'connections-above-chart',
+    label: 'The connected Phases 1-3',
+    target: { selection: { phases: [1, 2, 3] } }
+  },
+  {
+    section: 'oversaturation',
+    label: 'More releases since Phase 4',
+    target: { selection: { phases: [4, 5, 6] } }
+  },
+  {
+    section: 'barriers-above-chart',
+    label: 'Phase 4 connections',
+    target: { connectionsPhase: 4 }
+  },
+  {
+    section: 'inconsistency-above-charts',
+    label: 'The 2021 drop',
+    target: { selection: { year: 2021 } }
+  },
+  {
+    section: 'inconsistency',
+    label: 'Reviews of 2023',
+    target: { selection: { year: 2023 } }
+  }
+]
+
+/** Once this block is reached the story stops steering the charts */
+export const STORY_END: NarrationSection = 'conclusion'
+
+export const NO_STORY_TARGET: StoryTarget = {}
+
+const EMPTY_PICKS: StoryPicks = { titleIds: [], year: null, phases: [] }
+
+export function isStorySection(section: NarrationSection) {
+  return section === STORY_END || STORY_STEPS.some(step => step.section === section)
+}
+
+/** The selection a step asks for, or null when it leaves the reader's own selection alone */
+export function storyPicks(step: StoryStep): StoryPicks | null {
+  return step.target.selection ? { ...EMPTY_PICKS, ...step.target.selection } : null
+}
+
+/**
+ * The last step whose block starts above `triggerY`, or null before the first
+ * step and after the end block. `topOf` is null for blocks not on the page.
+ */
+export function activeStoryStep(topOf: (section: NarrationSection) => number | null, triggerY: number) {
+  const passed = (section: NarrationSection) => {
+    const top = topOf(section)
+    return top !== null && top <= triggerY
+  }
+  if (passed(STORY_END)) return null
+  return STORY_STEPS.findLast(step => passed(step.section)) ?? null
+}
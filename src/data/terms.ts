@@ -0,0 +1,190 @@
+import * as d3 from 'd3'
+import { Phase, Review, Title } from '../types'
+import { Era, EraSplit } from './eras'
+import { TitleRegistry } from './registry'
+import { reviewText, tokenize } from './text'
+
+/** =========================
+ *  Term trends
+ *  =========================
+ *  How often reviewers mention a term, per 1,000 reviews, and which words
+ *  separate the rise era from the decline era.
+ */
+
+export type TermDoc = {
+  review: Review
+  title: Title
+  tokens: string[]
+}
+
+/** Tokenizes every review once; the trend and log-odds views share the result */
+export function prepareTermDocs(reviews: Review[], registry: TitleRegistry): TermDoc[] {
+  const out: TermDoc[] = []
+  for (const review of reviews) {
+    const title = registry.titleOfReview(review)
+    if (title) out.push({ review, title, tokens: tokenize(reviewText(review)) })
+  }
+  return out
+}
+
+/**
+ * A term is one or more words; a trailing "*" matches any ending, so
+ * "fatigu*" finds "fatigue" and "fatigued".
+ */
+export type TermQuery = {
+  raw: string
+  words: string[]
+  prefix: boolean
+}
+
+export function parseTermQueries(input: string): TermQuery[] {
+  const seen = new Set<string>()
+  const out: TermQuery[] = []
+  for (const part of input.split(',')) {
+    const raw = part.trim()
+    const prefix = raw.endsWith('*')
+    const words = tokenize(prefix ? raw.slice(0, -1) : raw)
+    const key = `${words.join(' ')}${prefix ? '*' : ''}`
+    if (words.length === 0 || seen.has(key)) continue
+    seen.add(key)
+    out.push({ raw, words, prefix })
+  }
+  return out
+}
+
+export function matchesTerm(tokens: string[], query: TermQuery) {
+  const { words, prefix } = query
+  const last = words.length - 1
+  for (let i = 0; i + last < tokens.length; i++) {
+    let ok = true
+    for (let j = 0; j <= last && ok; j++) {
+      const token = tokens[i + j]
+      ok = j === last && prefix ? token.startsWith(words[j]) : token === words[j]
+    }
+    if (ok) return true
+  }
+  return false
+}
+
+export type TermGroupBy = 'year' | 'phase'
+
+export type TermTrendPoint = {
+  key: number // release year or phase number
+  label: string
+  reviews: number
+  matches: number
+  per1000: number
+}
+
+export type TermTrend = {
+  query: TermQuery
+  points: TermTrendPoint[]
+  totalMatches: number
+}
+
+/**
+ * Share of reviews mentioning each term, per 1,000 reviews in the group.
+ * A review counts once however often it repeats the term.
+ */
+export function termTrends(docs: TermDoc[], queries: TermQuery[], by: TermGroupBy): TermTrend[] {
+  const keyOf = (doc: TermDoc) => (by === 'year' ? doc.title.year : doc.title.phase)
+  const groups = [...d3.group(docs, keyOf)].sort((a, b) => a[0] - b[0])
+
+  return queries.map(query => {
+    const points = groups.map(([key, items]) => {
+      const matches = items.filter(doc => matchesTerm(doc.tokens, query)).length
+      return {
+        key,
+        label: by === 'year' ? String(key) : `Phase ${key as Phase}`,
+        reviews: items.length,
+        matches,
+        per1000: (matches / items.length) * 1000
+      }
+    })
+    return { query, points, totalMatches: d3.sum(points, p => p.matches) }
+  })
+}
+
+// Function words carry no signal for the era comparison
+const STOPWORDS = new Set(
+  (
+    "a about above after again against all also am an and any are aren't as at be because been before being below " +
+    "between both but by can can't could couldn't did didn't do does doesn't doing don't down during each even ever " +
+    'every few for from further get gets got had hadn\'t has hasn\'t have haven\'t having he her here hers herself him ' +
+    "himself his how i i'm i've if in into is isn't it it's its itself just let's like me more most much my myself " +
+    "no nor not now of off on once one only or other our ours ourselves out over own really same she should so some " +
+    "still such than that that's the their theirs them themselves then there there's these they they're this those " +
+    "through to too under until up us very was wasn't we we're were weren't what when where which while who whom " +
+    "why will with won't would wouldn't you you're your yours yourself yourselves movie movies film films show " +
+    'shows series episode episodes marvel mcu watch watched watching see seen time make made way think lot first ' +
+    'well good great bad 1 2 3 4 5 6 7 8 9 10'
+  ).split(' ')
+)
+
+export type DistinctiveTerm = {
+  term: string
+  era: Era
+  /** Log-odds z-score; larger means more characteristic of its era */
+  z: number
+  /** Occurrences per 1,000 reviews in each era */
+  risePer1000: number
+  declinePer1000: number
+}
+
+/**
+ * Words that separate the two eras, by the log-odds ratio with an
+ * informative Dirichlet prior (Monroe, Colaresi & Quinn 2008). Words from
+ * the reviewed title ("thor", "wakanda") are skipped so names don't dominate.
+ */
+export function distinctiveTerms(
+  docs: TermDoc[],
+  eras: EraSplit,
+  { limit = 15, minCount = 10, priorStrength = 500 } = {}
+): Record<Era, DistinctiveTerm[]> {
+  const counts: Record<Era, Map<string, number>> = { rise: new Map(), decline: new Map() }
+  const totals: Record<Era, number> = { rise: 0, decline: 0 }
+  const reviewsPerEra: Record<Era, number> = { rise: 0, decline: 0 }
+
+  for (const doc of docs) {
+    const era = eras.eraOf(doc.title.releaseDate)
+    const titleWords = new Set(tokenize(doc.review.title))
+    reviewsPerEra[era] += 1
+    for (const token of doc.tokens) {
+      if (token.length < 3 || STOPWORDS.has(token) || titleWords.has(token) || /^\d+$/.test(token)) continue
+      counts[era].set(token, (counts[era].get(token) ?? 0) + 1)
+      totals[era] += 1
+    }
+  }
+
+  const vocabulary = new Set([...counts.rise.keys(), ...counts.decline.keys()])
+  const corpusTotal = totals.rise + totals.decline
+  const scored: DistinctiveTerm[] = []
+
+  for (const term of vocabulary) {
+    const yRise = counts.rise.get(term) ?? 0
+    const yDecline = counts.decline.get(term) ?? 0
+    if (yRise + yDecline < minCount) continue
+
+    const alpha = (priorStrength * (yRise + yDecline)) / corpusTotal
+    const logOdds = (y: number, n: number) => Math.log((y + alpha) / (n + priorStrength - y - alpha))
+    const delta = logOdds(yDecline, totals.decline) - logOdds(yRise, totals.rise)
+    const variance = 1 / (yRise + alpha) + 1 / (yDecline + alpha)
+    const z = delta / Math.sqrt(variance)
+
+    scored.push({
+      term,
+      era: z > 0 ? 'decline' : 'rise',
+      z: Math.abs(z),
+      risePer1000: reviewsPerEra.rise ? (yRise / reviewsPerEra.rise) * 1000 : 0,
+      declinePer1000: reviewsPerEra.decline ? (yDecline / reviewsPerEra.decline) * 1000 : 0
+    })
+  }
+
+  const top = (era: Era) =>
+    scored
+      .filter(t => t.era === era)
+      .sort((a, b) => b.z - a.z)
+      .slice(0, limit)
+
+  return { rise: top('rise'), decline: top('decline') }
+}
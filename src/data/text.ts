@@ -0,0 +1,34 @@
+/** =========================
+ *  Review text helpers
+ *  =========================
+ *  Shared tokenizer for the text analyses, so sentiment scoring and term
+ *  counts agree on what a "word" is.
+ */
+
+// Letters, digits, apostrophes and a trailing "+" (so "Disney+" survives)
+const TOKEN_PATTERN = /[a-z0-9]+(?:'[a-z]+)*\+?/g
+const CLAUSE_BREAK = /[.!?;:,()\n—]+|\s-\s/
+
+/** Lower-cases and unifies the quote characters scraped reviews use */
+export function normalizeText(text: string) {
+  return String(text ?? '')
+    .toLowerCase()
+    .replace(/[‘’ʼ`]/g, "'")
+}
+
+export function tokenize(text: string): string[] {
+  return normalizeText(text).match(TOKEN_PATTERN) ?? []
+}
+
+/** Tokens grouped by clause; punctuation ends the scope of a negation */
+export function clauses(text: string): string[][] {
+  return normalizeText(text)
+    .split(CLAUSE_BREAK)
+    .map(part => part.match(TOKEN_PATTERN) ?? [])
+    .filter(tokens => tokens.length > 0)
+}
+
+/** Title and body together, the text every analysis runs over */
+export function reviewText(review: { reviewTitle: string; body: string }) {
+  return `${review.reviewTitle}. ${review.body}`
+}
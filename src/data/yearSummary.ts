@@ -0,0 +1,49 @@
+import * as d3 from 'd3'
+import { Movie, Title } from '../types'
+import { MoneyScale } from './money'
+import { ProfitModel } from './profit'
+
+/** =========================
+ *  Yearly summary
+ *  =========================
+ *  One row per year of the MCU: how much was released, how the movies were
+ *  rated and how they earned. The print layout shows it in place of the
+ *  interactive dashboard. Years without a release are kept so gaps show.
+ */
+
+export type YearSummary = {
+  year: number
+  movies: number
+  shows: number
+  /** Mean IMDb rating of the year's movies */
+  meanMovieRating: number | null
+  /** Mean movie profit under the active profit model and money mode */
+  meanMovieProfit: number | null
+  /** Best-rated release of the year, movie or show */
+  topRated: Title | null
+}
+
+function movieProfit(movie: Movie, money: MoneyScale, profit: ProfitModel) {
+  if (movie.revenue === null || movie.budget === null) return null
+  return profit.compute(money.adjust(movie.revenue, movie.year), money.adjust(movie.budget, movie.year))
+}
+
+export function yearSummaries(titles: Title[], money: MoneyScale, profit: ProfitModel): YearSummary[] {
+  const extent = d3.extent(titles, t => t.year)
+  if (extent[0] === undefined || extent[1] === undefined) return []
+
+  const byYear = d3.group(titles, t => t.year)
+  return d3.range(extent[0], extent[1] + 1).map(year => {
+    const released = byYear.get(year) ?? []
+    const movies = released.filter((t): t is Movie => t.mediaType === 'movie')
+    const profits = movies.map(m => movieProfit(m, money, profit)).filter((p): p is number => p !== null)
+    return {
+      year,
+      movies: movies.length,
+      shows: released.length - movies.length,
+      meanMovieRating: d3.mean(movies, m => m.rating ?? undefined) ?? null,
+      meanMovieProfit: d3.mean(profits) ?? null,
+      topRated: d3.greatest(released.filter(t => t.rating !== null), t => t.rating!) ?? null
+    }
+  })
+}
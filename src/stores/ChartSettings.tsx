@@ -0,0 +1,145 @@
+import { createContext, Dispatch, ReactNode, useContext, useEffect, useMemo, useReducer } from 'react'
+import { createMoneyScale, latestCpiYear, MoneyMode, MoneyScale } from '../data/money'
+import {
+  BREAK_EVEN_MULTIPLIERS,
+  createProfitModel,
+  DEFAULT_PROFIT_MODEL,
+  PROFIT_MODEL_IDS,
+  ProfitModel,
+  ProfitModelId
+} from '../data/profit'
+import { enumParam, nullableIntParam, ParamCodec } from '../data/permalink'
+import { PALETTE_IDS, PaletteId } from '../data/palettes'
+import { useMcuData } from './McuData'
+import { readPermalink, writePermalink } from './Permalink'
+
+export const SETTINGS_ACTIONS = {
+  SET_MONEY_MODE: 'set-money-mode',
+  SET_BASE_YEAR: 'set-base-year',
+  SET_PROFIT_MODEL: 'set-profit-model',
+  SET_BREAK_EVEN_MULTIPLIER: 'set-break-even-multiplier',
+  SET_PALETTE: 'set-palette'
+} as const
+
+type SettingsAction =
+  | { type: typeof SETTINGS_ACTIONS.SET_MONEY_MODE; mode: MoneyMode }
+  | { type: typeof SETTINGS_ACTIONS.SET_BASE_YEAR; year: number | null }
+  | { type: typeof SETTINGS_ACTIONS.SET_PROFIT_MODEL; model: ProfitModelId }
+  | { type: typeof SETTINGS_ACTIONS.SET_BREAK_EVEN_MULTIPLIER; multiplier: number }
+  | { type: typeof SETTINGS_ACTIONS.SET_PALETTE; palette: PaletteId }
+
+type ChartSettingsState = {
+  moneyMode: MoneyMode
+  baseYear: number | null // null follows the latest year in the CPI table
+  profitModel: ProfitModelId
+  breakEvenMultiplier: number
+  palette: PaletteId
+}
+
+const initialState: ChartSettingsState = {
+  moneyMode: 'nominal',
+  baseYear: null,
+  profitModel: DEFAULT_PROFIT_MODEL.id,
+  breakEvenMultiplier: DEFAULT_PROFIT_MODEL.breakEvenMultiplier,
+  palette: 'default'
+}
+
+const moneyModeParam = enumParam<MoneyMode>('money', ['nominal', 'real'], initialState.moneyMode)
+const baseYearParam = nullableIntParam('base-year')
+const profitModelParam = enumParam<ProfitModelId>('profit', PROFIT_MODEL_IDS, initialState.profitModel)
+const paletteParam = enumParam<PaletteId>('palette', PALETTE_IDS, initialState.palette)
+
+const settingsParam: ParamCodec<ChartSettingsState> = {
+  read: params => {
+    const multiplier = Number(params.get('break-even'))
+    return {
+      moneyMode: moneyModeParam.read(params),
+      baseYear: baseYearParam.read(params),
+      profitModel: profitModelParam.read(params),
+      breakEvenMultiplier: BREAK_EVEN_MULTIPLIERS.includes(multiplier) ? multiplier : initialState.breakEvenMultiplier,
+      palette: paletteParam.read(params)
+    }
+  },
+  write: (params, settings) => {
+    moneyModeParam.write(params, settings.moneyMode)
+    baseYearParam.write(params, settings.baseYear)
+    profitModelParam.write(params, settings.profitModel)
+    if (settings.breakEvenMultiplier === initialState.breakEvenMultiplier) params.delete('break-even')
+    else params.set('break-even', String(settings.breakEvenMultiplier))
+    paletteParam.write(params, settings.palette)
+  }
+}
+
+export const settingsReducer = (state: ChartSettingsState, action: SettingsAction): ChartSettingsState => {
+  switch (action.type) {
+    case SETTINGS_ACTIONS.SET_MONEY_MODE:
+      return { ...state, moneyMode: action.mode }
+    case SETTINGS_ACTIONS.SET_BASE_YEAR:
+      return { ...state, baseYear: action.year }
+    case SETTINGS_ACTIONS.SET_PROFIT_MODEL:
+      return { ...state, profitModel: action.model }
+    case SETTINGS_ACTIONS.SET_BREAK_EVEN_MULTIPLIER:
+      return { ...state, breakEvenMultiplier: action.multiplier }
+    case SETTINGS_ACTIONS.SET_PALETTE:
+      return { ...state, palette: action.palette }
+    default:
+      return state
+  }
+}
+
+type ChartSettingsValue = {
+  settings: ChartSettingsState
+  dispatch: Dispatch<SettingsAction>
+  money: MoneyScale
+  profit: ProfitModel
+}
+
+const ChartSettingsContext = createContext<ChartSettingsValue | null>(null)
+
+export function ChartSettingsProvider({ children }: { children: ReactNode }) {
+  const { cpi, status } = useMcuData()
+  const [settings, dispatch] = useReducer(settingsReducer, settingsParam, readPermalink)
+
+  useEffect(() => {
+    writePermalink(settingsParam, settings)
+  }, [settings])
+
+  // The stored base year comes from a link or localStorage and is only
+  // checked once the CPI table is in: a year the table lacks goes back to
+  // following the latest one, so the unit never names a year we can't price
+  const baseYear = settings.baseYear !== null && cpi.has(settings.baseYear) ? settings.baseYear : null
+  useEffect(() => {
+    if (status === 'ready' && settings.baseYear !== null && baseYear === null) {
+      dispatch({ type: SETTINGS_ACTIONS.SET_BASE_YEAR, year: null })
+    }
+  }, [status, settings.baseYear, baseYear])
+
+  const money = useMemo(
+    () =>
+      createMoneyScale(cpi, {
+        mode: settings.moneyMode,
+        baseYear: baseYear ?? latestCpiYear(cpi) ?? new Date().getFullYear()
+      }),
+    [cpi, settings.moneyMode, baseYear]
+  )
+
+  const profit = useMemo(
+    () => createProfitModel({ id: settings.profitModel, breakEvenMultiplier: settings.breakEvenMultiplier }),
+    [settings.profitModel, settings.breakEvenMultiplier]
+  )
+
+  const value = useMemo(() => ({ settings, dispatch, money, profit }), [settings, money, profit])
+  return <ChartSettingsContext.Provider value={value}>{children}</ChartSettingsContext.Provider>
+}
+
+/**
+ * Global chart options shared by every financial chart. Charts should
+ * depend on `money` and `profit` in their memos so they redraw when
+ * either setting changes. The palette is applied through the MUI theme
+ * in App; charts read it with `useChartPalette()`.
+ */
+export function useChartSettings(): ChartSettingsValue {
+  const ctx = useContext(ChartSettingsContext)
+  if (!ctx) throw new Error('useChartSettings must be used inside <ChartSettingsProvider>')
+  return ctx
+}
@@ -0,0 +1,84 @@
+import { createContext, Dispatch, ReactNode, useContext, useEffect, useMemo, useReducer } from 'react'
+import { enumParam, listParam, nullableIntParam, ParamCodec } from '../data/permalink'
+import { MediaFilter, Phase } from '../types'
+import {
+  CrossFilterAction,
+  CrossFilterState,
+  crossFilterReducer,
+  Emphasis,
+  emphasisOf,
+  hasSelection,
+  initialCrossFilterState,
+  matchesSelection,
+  picksOf,
+  SelectableTitle
+} from './Reducer'
+import { readPermalink, writePermalink } from './Permalink'
+
+type CrossFilterValue = {
+  selection: CrossFilterState
+  dispatch: Dispatch<CrossFilterAction>
+  /** True when any title, year or phase is selected */
+  active: boolean
+  matches: (title: SelectableTitle) => boolean
+  emphasis: (title: SelectableTitle) => Emphasis
+}
+
+const PHASES: Phase[] = [1, 2, 3, 4, 5, 6]
+
+const titlesParam = listParam('picked', raw => raw)
+const yearParam = nullableIntParam('picked-year')
+const phasesParam = listParam('phases', raw => PHASES.find(phase => String(phase) === raw))
+const mediaFilterParam = enumParam<MediaFilter>('media', ['movie', 'show', 'both'], initialCrossFilterState.mediaFilter)
+
+// Hover is transient, so only the selection goes into the permalink. While
+// a story step drives the charts, the reader's held picks are saved instead
+const selectionParam: ParamCodec<CrossFilterState> = {
+  read: params => ({
+    ...initialCrossFilterState,
+    titleIds: titlesParam.read(params),
+    year: yearParam.read(params),
+    phases: phasesParam.read(params),
+    mediaFilter: mediaFilterParam.read(params)
+  }),
+  write: (params, selection) => {
+    const picks = selection.heldPicks ?? picksOf(selection)
+    titlesParam.write(params, picks.titleIds)
+    yearParam.write(params, picks.year)
+    phasesParam.write(params, picks.phases)
+    mediaFilterParam.write(params, selection.mediaFilter)
+  }
+}
+
+const CrossFilterContext = createContext<CrossFilterValue | null>(null)
+
+export function CrossFilterProvider({ children }: { children: ReactNode }) {
+  const [selection, dispatch] = useReducer(crossFilterReducer, selectionParam, readPermalink)
+
+  useEffect(() => {
+    writePermalink(selectionParam, selection)
+  }, [selection])
+
+  const value = useMemo(
+    () => ({
+      selection,
+      dispatch,
+      active: hasSelection(selection),
+      matches: (title: SelectableTitle) => matchesSelection(selection, title),
+      emphasis: (title: SelectableTitle) => emphasisOf(selection, title)
+    }),
+    [selection]
+  )
+  return <CrossFilterContext.Provider value={value}>{children}</CrossFilterContext.Provider>
+}
+
+/**
+ * Linked selection and hover state shared by every chart. D3 charts should
+ * restyle in an effect keyed on `selection` rather than redrawing, and read
+ * it through a ref inside event handlers bound at draw time.
+ */
+export function useCrossFilter(): CrossFilterValue {
+  const ctx = useContext(CrossFilterContext)
+  if (!ctx) throw new Error('useCrossFilter must be used inside <CrossFilterProvider>')
+  return ctx
+}
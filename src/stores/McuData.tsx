@@ -0,0 +1,54 @@
+import { createContext, ReactNode, useContext, useEffect, useState } from 'react'
+import { EMPTY_MCU_DATA, loadMcuData, McuData } from '../data/loadMcuData'
+
+type McuDataStatus = 'loading' | 'ready' | 'error'
+
+type McuDataState = McuData & {
+  status: McuDataStatus
+  error: Error | null
+}
+
+const McuDataContext = createContext<McuDataState | null>(null)
+
+export function McuDataProvider({ children }: { children: ReactNode }) {
+  const [state, setState] = useState<McuDataState>({
+    ...EMPTY_MCU_DATA,
+    status: 'loading',
+    error: null
+  })
+
+  useEffect(() => {
+    let cancelled = false
+
+    loadMcuData()
+      .then(data => {
+        if (!cancelled) setState({ ...data, status: 'ready', error: null })
+      })
+      .catch(err => {
+        console.error('Failed to load MCU data', err)
+        if (!cancelled) {
+          setState({
+            ...EMPTY_MCU_DATA,
+            status: 'error',
+            error: err instanceof Error ? err : new Error(String(err))
+          })
+        }
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  return <McuDataContext.Provider value={state}>{children}</McuDataContext.Provider>
+}
+
+/**
+ * Typed access to the shared data layer. Arrays are empty until every CSV
+ * has loaded, so charts can render unconditionally and fill in on `ready`.
+ */
+export function useMcuData(): McuDataState {
+  const ctx = useContext(McuDataContext)
+  if (!ctx) throw new Error('useMcuData must be used inside <McuDataProvider>')
+  return ctx
+}
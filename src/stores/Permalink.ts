@@ -0,0 +1,53 @@
+import { Dispatch, SetStateAction, useEffect, useState } from 'react'
+import { ParamCodec, parsePermalink } from '../data/permalink'
+
+const STORAGE_KEY = 'mcu-view-state'
+
+// Shared by every piece of state so each write keeps the others' keys
+let current: URLSearchParams | null = null
+
+function readStored() {
+  try {
+    return localStorage.getItem(STORAGE_KEY) ?? ''
+  } catch {
+    return ''
+  }
+}
+
+/** The URL hash when it carries any state, otherwise the copy saved on the last visit */
+function permalinkParams() {
+  if (!current) {
+    const fromUrl = parsePermalink(window.location.hash)
+    current = fromUrl.size > 0 ? fromUrl : parsePermalink(readStored())
+  }
+  return current
+}
+
+export function readPermalink<T>(codec: ParamCodec<T>): T {
+  return codec.read(permalinkParams())
+}
+
+export function writePermalink<T>(codec: ParamCodec<T>, value: T) {
+  const params = permalinkParams()
+  codec.write(params, value)
+  const text = params.toString()
+  const { pathname, search } = window.location
+  window.history.replaceState(window.history.state, '', `${pathname}${search}${text ? `#${text}` : ''}`)
+  try {
+    localStorage.setItem(STORAGE_KEY, text)
+  } catch {
+    // Storage can be full or disabled; the URL still carries the state
+  }
+}
+
+/**
+ * `useState` that starts from the permalink and writes every change back to
+ * the URL hash and localStorage. Codecs should be module-level constants.
+ */
+export function usePermalinkState<T>(codec: ParamCodec<T>): [T, Dispatch<SetStateAction<T>>] {
+  const [value, setValue] = useState<T>(() => readPermalink(codec))
+  useEffect(() => {
+    writePermalink(codec, value)
+  }, [codec, value])
+  return [value, setValue]
+}
@@ -0,0 +1,56 @@
+import { createContext, ReactNode, useCallback, useContext, useEffect, useMemo, useState } from 'react'
+import { flushSync } from 'react-dom'
+
+type PrintPhase =
+  /** The normal interactive page */
+  | 'screen'
+  /** Print layout is on and the charts are redrawing at page size; the dialog opens next */
+  | 'preparing'
+  /** The browser's print dialog is open */
+  | 'printing'
+
+type PrintModeValue = {
+  /** True while the page is laid out for paper */
+  printing: boolean
+  /** Switches to the print layout, lets the charts redraw, then opens the print dialog */
+  print: () => void
+}
+
+// Charts redraw 50 ms after a resize and some animate in; this covers both
+const PRINT_SETTLE_MS = 1200
+
+const PrintModeContext = createContext<PrintModeValue | null>(null)
+
+export function PrintModeProvider({ children }: { children: ReactNode }) {
+  const [phase, setPhase] = useState<PrintPhase>('screen')
+
+  useEffect(() => {
+    // Ctrl+P skips print(): switch the layout synchronously so at least the page structure is right.
+    // Charts drawn with D3 may not have redrawn at page size by then.
+    const onBeforePrint = () => flushSync(() => setPhase('printing'))
+    const onAfterPrint = () => setPhase('screen')
+    window.addEventListener('beforeprint', onBeforePrint)
+    window.addEventListener('afterprint', onAfterPrint)
+    return () => {
+      window.removeEventListener('beforeprint', onBeforePrint)
+      window.removeEventListener('afterprint', onAfterPrint)
+    }
+  }, [])
+
+  useEffect(() => {
+    if (phase !== 'preparing') return
+    const timer = window.setTimeout(() => window.print(), PRINT_SETTLE_MS)
+    return () => window.clearTimeout(timer)
+  }, [phase])
+
+  const print = useCallback(() => setPhase('preparing'), [])
+
+  const value = useMemo(() => ({ printing: phase !== 'screen', print }), [phase, print])
+  return <PrintModeContext.Provider value={value}>{children}</PrintModeContext.Provider>
+}
+
+export function usePrintMode(): PrintModeValue {
+  const ctx = useContext(PrintModeContext)
+  if (!ctx) throw new Error('usePrintMode must be used inside <PrintModeProvider>')
+  return ctx
+}
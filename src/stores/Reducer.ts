@@ -1,25 +1,139 @@
-// Define action types
-export const ACTIONS = { INCREMENT: 'increment' };
+import { MediaFilter, Phase, Title } from '../types'
 
-interface Action{
-    type: string;
+/** =========================
+ *  Cross-filter selection
+ *  =========================
+ *  App-wide linked-views state. Clicking a title, year or phase in one chart
+ *  selects it everywhere; hovering lights it up everywhere. Each kind of
+ *  selection narrows the others, and an empty selection matches every title.
+ */
+
+export const CROSS_FILTER_ACTIONS = {
+  TOGGLE_TITLE: 'toggle-title',
+  SET_TITLES: 'set-titles',
+  STORY_STEP: 'story-step',
+  END_STORY: 'end-story',
+  TOGGLE_YEAR: 'toggle-year',
+  TOGGLE_PHASE: 'toggle-phase',
+  SET_MEDIA_FILTER: 'set-media-filter',
+  HOVER: 'hover',
+  CLEAR: 'clear'
+} as const
+
+type CrossFilterAction =
+  | { type: typeof CROSS_FILTER_ACTIONS.TOGGLE_TITLE; titleId: string }
+  | { type: typeof CROSS_FILTER_ACTIONS.SET_TITLES; titleIds: string[] }
+  | { type: typeof CROSS_FILTER_ACTIONS.STORY_STEP; picks: CrossFilterPicks | null }
+  | { type: typeof CROSS_FILTER_ACTIONS.END_STORY }
+  | { type: typeof CROSS_FILTER_ACTIONS.TOGGLE_YEAR; year: number | null }
+  | { type: typeof CROSS_FILTER_ACTIONS.TOGGLE_PHASE; phase: Phase }
+  | { type: typeof CROSS_FILTER_ACTIONS.SET_MEDIA_FILTER; mediaFilter: MediaFilter }
+  | { type: typeof CROSS_FILTER_ACTIONS.HOVER; titleId: string | null; year: number | null }
+  | { type: typeof CROSS_FILTER_ACTIONS.CLEAR }
+
+type CrossFilterState = {
+  titleIds: string[]
+  /** One year at a time: it also picks which reviews the review panels list */
+  year: number | null
+  phases: Phase[]
+  /** Which series the ratings chart and the reviews panel show; it doesn't dim titles elsewhere */
+  mediaFilter: MediaFilter
+  /** Hovering a title also hovers its release year */
+  hoveredTitleId: string | null
+  hoveredYear: number | null
+  /**
+   * The reader's own picks, held while a story step drives the selection.
+   * Clicks during a step update them; they come back when the story ends
+   * and are what the permalink saves.
+   */
+  heldPicks: CrossFilterPicks | null
+}
+
+/** Everything a reader can click to select, without the hover and media toggle */
+type CrossFilterPicks = Pick<CrossFilterState, 'titleIds' | 'year' | 'phases'>
+
+/** The fields every chart's title datum has, whatever else it carries */
+export type SelectableTitle = Pick<Title, 'id' | 'phase' | 'year'>
+
+/** How a chart should draw a title under the current selection */
+export type Emphasis = 'hovered' | 'selected' | 'dimmed' | 'default'
+
+export const initialCrossFilterState: CrossFilterState = {
+  titleIds: [],
+  year: null,
+  phases: [],
+  mediaFilter: 'movie',
+  hoveredTitleId: null,
+  hoveredYear: null,
+  heldPicks: null
 }
 
-interface State{
-    count: number;
+function toggle<T>(values: T[], value: T) {
+  return values.includes(value) ? values.filter(v => v !== value) : [...values, value]
 }
 
-// Define initial state
-const initialState: State = { count: 0 };
+// A pick made while a story step drives the view becomes the reader's own
+// selection, so the end of the story brings it back instead of the older one
+function readerPicks(state: CrossFilterState, next: CrossFilterState): CrossFilterState {
+  return state.heldPicks ? { ...next, heldPicks: picksOf(next) } : next
+}
 
-// reducer function
-export const reducer = (state: State, action: Action) => { 
-    switch (action.type) {
-        case ACTIONS.INCREMENT:
-            return { count: state.count + 1 };
-        default:
-            return state;
+export const crossFilterReducer = (state: CrossFilterState, action: CrossFilterAction): CrossFilterState => {
+  switch (action.type) {
+    case CROSS_FILTER_ACTIONS.TOGGLE_TITLE:
+      return readerPicks(state, { ...state, titleIds: toggle(state.titleIds, action.titleId) })
+    case CROSS_FILTER_ACTIONS.SET_TITLES:
+      return readerPicks(state, { ...state, titleIds: action.titleIds })
+    case CROSS_FILTER_ACTIONS.STORY_STEP: {
+      // A step without picks of its own shows the reader's
+      const heldPicks = state.heldPicks ?? picksOf(state)
+      return { ...state, ...(action.picks ?? heldPicks), heldPicks }
     }
+    case CROSS_FILTER_ACTIONS.END_STORY:
+      if (!state.heldPicks) return state
+      return { ...state, ...state.heldPicks, heldPicks: null }
+    case CROSS_FILTER_ACTIONS.TOGGLE_YEAR:
+      return readerPicks(state, { ...state, year: action.year === state.year ? null : action.year })
+    case CROSS_FILTER_ACTIONS.TOGGLE_PHASE:
+      return readerPicks(state, { ...state, phases: toggle(state.phases, action.phase) })
+    case CROSS_FILTER_ACTIONS.SET_MEDIA_FILTER:
+      return { ...state, mediaFilter: action.mediaFilter }
+    case CROSS_FILTER_ACTIONS.HOVER:
+      if (state.hoveredTitleId === action.titleId && state.hoveredYear === action.year) return state
+      return { ...state, hoveredTitleId: action.titleId, hoveredYear: action.year }
+    case CROSS_FILTER_ACTIONS.CLEAR:
+      return readerPicks(state, { ...initialCrossFilterState, mediaFilter: state.mediaFilter })
+    default:
+      return state
+  }
+}
+
+export function picksOf(state: CrossFilterState): CrossFilterPicks {
+  return { titleIds: state.titleIds, year: state.year, phases: state.phases }
+}
+
+export function hasSelection(state: CrossFilterState) {
+  return state.titleIds.length > 0 || state.year !== null || state.phases.length > 0
+}
+
+export function matchesSelection(state: CrossFilterState, title: SelectableTitle) {
+  if (state.titleIds.length > 0 && !state.titleIds.includes(title.id)) return false
+  if (state.year !== null && title.year !== state.year) return false
+  if (state.phases.length > 0 && !state.phases.includes(title.phase)) return false
+  return true
+}
+
+export function isHovered(state: CrossFilterState, title: SelectableTitle) {
+  if (state.hoveredTitleId !== null) return title.id === state.hoveredTitleId
+  return state.hoveredYear !== null && title.year === state.hoveredYear
+}
+
+export function emphasisOf(state: CrossFilterState, title: SelectableTitle): Emphasis {
+  if (isHovered(state, title)) return 'hovered'
+  const selecting = hasSelection(state)
+  if (selecting && matchesSelection(state, title)) return 'selected'
+  if (selecting || state.hoveredTitleId !== null || state.hoveredYear !== null) return 'dimmed'
+  return 'default'
 }
 
-export type { State, Action };
\ No newline at end of file
+export type { CrossFilterState, CrossFilterAction, CrossFilterPicks }
@@ -0,0 +1,88 @@
+import { createContext, ReactNode, useCallback, useContext, useEffect, useMemo, useRef, useState } from 'react'
+import { NarrationSection } from '../types'
+import { activeStoryStep, isStorySection, NO_STORY_TARGET, StoryStep, StoryTarget, storyPicks } from '../data/story'
+import { useCrossFilter } from './CrossFilter'
+import { usePrintMode } from './PrintMode'
+import { CROSS_FILTER_ACTIONS } from './Reducer'
+
+type ScrollytellingValue = {
+  /** Null before the first step and once the reader reaches the end of the story */
+  activeStep: StoryStep | null
+  /** What the active step asks of the charts; empty when no step is active */
+  target: StoryTarget
+  register: (section: NarrationSection, element: HTMLElement | null) => void
+}
+
+// A thin band across the middle of the viewport: blocks fire as they cross it
+const TRIGGER_MARGIN = '-50% 0px -50% 0px'
+
+const ScrollytellingContext = createContext<ScrollytellingValue | null>(null)
+
+export function ScrollytellingProvider({ children }: { children: ReactNode }) {
+  const { dispatch } = useCrossFilter()
+  const { printing } = usePrintMode()
+  const [scrolledStep, setActiveStep] = useState<StoryStep | null>(null)
+  // On paper every chart shows the reader's own selection, not wherever the scroll position left the story
+  const activeStep = printing ? null : scrolledStep
+
+  const elementsRef = useRef(new Map<NarrationSection, HTMLElement>())
+  const observerRef = useRef<IntersectionObserver | null>(null)
+
+  // Crossings only say that something moved, so recompute from every block's position
+  const update = useCallback(() => {
+    const elements = elementsRef.current
+    const topOf = (section: NarrationSection) => elements.get(section)?.getBoundingClientRect().top ?? null
+    setActiveStep(activeStoryStep(topOf, window.innerHeight / 2))
+  }, [])
+
+  useEffect(() => {
+    const observer = new IntersectionObserver(update, { rootMargin: TRIGGER_MARGIN })
+    observerRef.current = observer
+    elementsRef.current.forEach(element => observer.observe(element))
+    return () => {
+      observer.disconnect()
+      observerRef.current = null
+    }
+  }, [update])
+
+  const register = useCallback((section: NarrationSection, element: HTMLElement | null) => {
+    if (!isStorySection(section)) return
+    const elements = elementsRef.current
+    const previous = elements.get(section)
+    if (previous) observerRef.current?.unobserve(previous)
+    if (element) {
+      elements.set(section, element)
+      observerRef.current?.observe(element)
+    } else {
+      elements.delete(section)
+    }
+  }, [])
+
+  // The cross-filter holds the reader's own selection while the story drives the charts
+  useEffect(() => {
+    if (activeStep === null) dispatch({ type: CROSS_FILTER_ACTIONS.END_STORY })
+    else dispatch({ type: CROSS_FILTER_ACTIONS.STORY_STEP, picks: storyPicks(activeStep) })
+  }, [activeStep, dispatch])
+
+  const value = useMemo(
+    () => ({ activeStep, target: activeStep?.target ?? NO_STORY_TARGET, register }),
+    [activeStep, register]
+  )
+  return <ScrollytellingContext.Provider value={value}>{children}</ScrollytellingContext.Provider>
+}
+
+/**
+ * The story step the reader is on. Charts animate to `target` when it changes
+ * and fall back to their own state when a field is missing.
+ */
+export function useScrollytelling(): ScrollytellingValue {
+  const ctx = useContext(ScrollytellingContext)
+  if (!ctx) throw new Error('useScrollytelling must be used inside <ScrollytellingProvider>')
+  return ctx
+}
+
+/** Ref callback that makes a narration block a story step (or the end marker) when the story lists it */
+export function useStoryStep(section: NarrationSection) {
+  const { register } = useScrollytelling()
+  return useCallback((element: HTMLElement | null) => register(section, element), [register, section])
+}
@@ -0,0 +1,31 @@
+import { createTheme, useTheme } from '@mui/material/styles'
+import { grey } from '@mui/material/colors'
+import { CHART_PALETTES, ChartPalette, PaletteId } from './data/palettes'
+
+declare module '@mui/material/styles' {
+  interface Theme {
+    chart: ChartPalette
+  }
+  interface ThemeOptions {
+    chart?: ChartPalette
+  }
+}
+
+/** The app's MUI theme, carrying the chosen chart palette under `chart` */
+export function createAppTheme(paletteId: PaletteId) {
+  return createTheme({
+    palette: {
+      primary: { main: grey[700] },
+      secondary: { main: grey[700] }
+    },
+    chart: CHART_PALETTES[paletteId]
+  })
+}
+
+/**
+ * Colors for the charts. The object changes identity when the reader picks
+ * another palette, so D3 charts list it in their draw effect's dependencies.
+ */
+export function useChartPalette(): ChartPalette {
+  return useTheme().chart
+}
@@ -18,4 +18,112 @@ export interface Point {
 
 export interface Bar{
     readonly value: number;
-}
\ No newline at end of file
+}
+
+export type Phase = 1 | 2 | 3 | 4 | 5 | 6;
+
+export type MediaType = 'movie' | 'show';
+
+// Which media types a chart or panel includes.
+export type MediaFilter = MediaType | 'both';
+
+// Fields shared by every MCU release, whichever CSV it came from.
+interface TitleBase {
+    readonly id: string;            // unique across media types, e.g. `movie-1726`
+    readonly tmdbId: string;
+    readonly imdbId: string;
+    readonly title: string;
+    readonly phase: Phase;
+    readonly releaseDate: Date;
+    readonly releaseDateStr: string;
+    readonly year: number;
+    readonly rating: number | null; // IMDb average rating
+    readonly voteCount: number | null;
+    readonly posterUrl: string | null;
+    readonly overview: string;
+}
+
+export interface Movie extends TitleBase {
+    readonly mediaType: 'movie';
+    readonly revenue: number | null;
+    readonly budget: number | null;
+}
+
+export interface Show extends TitleBase {
+    readonly mediaType: 'show';
+}
+
+export type Title = Movie | Show;
+
+export interface Review {
+    readonly key: string;           // stable fingerprint, used for expand/collapse state
+    readonly imdbId: string;
+    readonly title: string;         // reviewed movie or show, as written in the CSV
+    readonly mediaType: MediaType;
+    readonly author: string;
+    readonly date: string;
+    readonly rating: number | null;
+    readonly reviewTitle: string;
+    readonly body: string;
+    readonly likes: number;
+    readonly dislikes: number;
+}
+
+// One row of the yearly top-10 box office list (Marvel and non-Marvel).
+export interface BoxOfficeMovie {
+    readonly id: string;
+    readonly title: string;
+    readonly year: number;
+    readonly isMarvel: boolean;
+    readonly revenue: number;
+}
+
+export type ConnectionType = 'sequel' | 'crossover' | 'carryover';
+export type ArcSide = 'top' | 'bottom';
+
+// One validated edge of the connection graph (data/mcu_connections.json).
+export interface Connection {
+    readonly type: ConnectionType;
+    readonly fromId: string;        // canonical Title.id
+    readonly toId: string;
+    readonly from: string;          // canonical titles, for labels and hover keys
+    readonly to: string;
+    readonly side: ArcSide | null;  // preferred arc side, views may ignore it
+    readonly label: string | null;
+}
+
+// Narration sections between the charts; their text lives in data/narrationContent.ts.
+export type NarrationSection =
+    | 'intro-above-timeline'
+    | 'introduction'
+    | 'rise-intro'
+    | 'connections-above-chart'
+    | 'connections'
+    | 'box-office'
+    | 'box-office-fall'
+    | 'oversaturation'
+    | 'barriers-above-chart'
+    | 'barriers'
+    | 'inconsistency-above-charts'
+    | 'inconsistency'
+    | 'conclusion';
+
+export type AnnotationCategory = 'phase-start' | 'record' | 'turning-point' | 'milestone';
+export type AnnotationSeverity = 'low' | 'medium' | 'high';
+export type AnnotationAnchor = 'top' | 'bottom';
+export type AnnotationView = 'timeline' | 'dashboard';
+
+export interface AnnotationContent {
+    readonly note: string;
+    readonly anchor: AnnotationAnchor;  // which side of the axis the callout sits on
+    readonly category: AnnotationCategory;
+    readonly severity: AnnotationSeverity;
+}
+
+// One key-title annotation (data/mcu_annotations.json), before per-view overrides.
+export interface Annotation extends AnnotationContent {
+    readonly titleId: string;           // canonical Title.id
+    readonly title: string;
+    readonly views: readonly AnnotationView[];
+    readonly overrides: Partial<Record<AnnotationView, Partial<AnnotationContent>>>;
+}